@@ -2,12 +2,27 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useCanvas } from '@/hooks/useCanvas';
 import { useCollaboration } from '@/hooks/useCollaboration';
 import { Toolbar } from './Toolbar';
+import { LayersPanel } from './LayersPanel';
 import { UserCursors } from './UserCursors';
+import { TextEditor } from './TextEditor';
+import { SelectionOverlay } from './SelectionOverlay';
 import { UserList } from './UserList';
 import { StatusBar } from './StatusBar';
 import { PerformanceOverlay } from './PerformanceOverlay';
 import { RoomSelector, roomIdToUUID, uuidToRoomId } from './RoomSelector';
-import type { ToolSettings } from '@/types/canvas';
+import { Progress } from '@/components/ui/progress';
+import type {
+  ToolSettings,
+  UndoScope,
+  InputMode,
+  LayerChange,
+  WSMessage,
+  StrokeStartPayload,
+  StrokeMovePayload,
+  StrokeEndPayload,
+  StrokeCancelPayload,
+} from '@/types/canvas';
+import type { TransportKind } from '@/lib/sync-transport';
 import { generateId } from '@/lib/canvas-engine';
 import { toast } from 'sonner';
 
@@ -36,14 +51,38 @@ const getInitialRoomId = (): string => {
   return '00000000-0000-0000-0000-000000000001';
 };
 
+const getTransportKind = (): TransportKind => {
+  const params = new URLSearchParams(window.location.search);
+  return params.get('transport') === 'local' ? 'local' : 'supabase';
+};
+
+// `?renderer=worker` moves drawing off the main thread where supported
+const getRenderInWorker = (): boolean => {
+  const params = new URLSearchParams(window.location.search);
+  return params.get('renderer') === 'worker';
+};
+
+const PENDING_STROKE_TIMEOUT = 5000;
+// Gives remote operations with lower sequences time to arrive before the
+// committed layer is rendered into a snapshot.
+const SNAPSHOT_SETTLE_DELAY = 2000;
+
 const USER_ID = getOrCreateUserId();
 const USER_NAME = getOrCreateUserName();
+const TRANSPORT = getTransportKind();
+const RENDER_IN_WORKER = getRenderInWorker();
 
 export const CollaborativeCanvas: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [roomId, setRoomId] = useState(getInitialRoomId);
   const [canRedo, setCanRedo] = useState(false);
+  const [undoScope, setUndoScope] = useState<UndoScope>('global');
+  const [inputMode, setInputMode] = useState<InputMode>('auto');
+  const [smartInk, setSmartInk] = useState(false);
+  const [hasSnapshot, setHasSnapshot] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const snapshotScheduledRef = useRef(false);
   
   const [toolSettings, setToolSettings] = useState<ToolSettings>({
     tool: 'brush',
@@ -53,8 +92,81 @@ export const CollaborativeCanvas: React.FC = () => {
 
   const canvas = useCanvas(toolSettings, {
     userId: USER_ID,
+    renderInWorker: RENDER_IN_WORKER,
+    inputMode,
+    onTwoFingerTap: () => {
+      handleUndo();
+    },
+    smartInk,
+    onInkRecognized: (shape, ink) => {
+      const article = /^[aeiou]/.test(shape.shape) ? 'an' : 'a';
+      toast(`Snapped to ${article} ${shape.shape}`, {
+        action: {
+          label: 'Keep ink',
+          onClick: () => {
+            if (!canvas.restoreInk(shape, ink)) {
+              toast('Ink not restored', { description: `The ${shape.shape} has changed since` });
+            }
+          },
+        },
+      });
+    },
+    onStrokeStart: (stroke) => {
+      collaboration.broadcastStrokeStart(stroke);
+    },
+    onStrokePoints: (strokeId, points) => {
+      collaboration.broadcastStrokeMove(strokeId, points);
+    },
+    onStrokeCancel: (strokeId) => {
+      collaboration.broadcastStrokeCancel(strokeId);
+    },
     onStrokeComplete: async (stroke) => {
-      await collaboration.commitStroke(stroke);
+      collaboration.broadcastStrokeEnd(stroke.id);
+      const confirmed = await collaboration.commitStroke(stroke);
+      if (confirmed) {
+        canvas.confirmOperation(stroke.id, confirmed);
+        scheduleSnapshot(confirmed.sequence);
+      }
+      setCanRedo(false);
+    },
+    onShapeComplete: async (shape) => {
+      const confirmed = await collaboration.commitShape(shape);
+      if (confirmed) {
+        canvas.confirmOperation(shape.id, confirmed);
+        scheduleSnapshot(confirmed.sequence);
+      }
+      setCanRedo(false);
+    },
+    onTextComplete: async (text) => {
+      const confirmed = await collaboration.commitText(text);
+      if (confirmed) {
+        canvas.confirmOperation(text.id, confirmed);
+        scheduleSnapshot(confirmed.sequence);
+      }
+      setCanRedo(false);
+    },
+    onTextEdit: async (edit) => {
+      const confirmed = await collaboration.commitTextEdit(edit);
+      if (confirmed) {
+        canvas.confirmOperation(edit.id, confirmed);
+        scheduleSnapshot(confirmed.sequence);
+      }
+      setCanRedo(false);
+    },
+    onTransformComplete: async (transform) => {
+      const confirmed = await collaboration.commitTransform(transform);
+      if (confirmed) {
+        canvas.confirmOperation(transform.id, confirmed);
+        scheduleSnapshot(confirmed.sequence);
+      }
+      setCanRedo(false);
+    },
+    onDeleteComplete: async (deletion) => {
+      const confirmed = await collaboration.commitDelete(deletion);
+      if (confirmed) {
+        canvas.confirmOperation(deletion.id, confirmed);
+        scheduleSnapshot(confirmed.sequence);
+      }
       setCanRedo(false);
     },
   });
@@ -63,18 +175,84 @@ export const CollaborativeCanvas: React.FC = () => {
     roomId,
     userId: USER_ID,
     userName: USER_NAME,
+    transport: TRANSPORT,
+    undoScope,
     onRemoteOperation: (op) => {
       canvas.addOperation(op);
     },
     onOperationDeleted: (id) => {
       canvas.removeOperation(id);
     },
-    onStateSync: (operations) => {
+    onStateSync: ({ size, snapshot, operations }) => {
+      canvas.setLogicalSize(size);
+      canvas.setSnapshot(snapshot);
       canvas.setOperations(operations);
+      setHasSnapshot(snapshot !== null);
+      setLoadProgress(null);
       setIsInitialized(true);
     },
+    onLoadProgress: ({ size, snapshot, operations, loaded, total }) => {
+      canvas.setLogicalSize(size);
+      canvas.setSnapshot(snapshot);
+      canvas.appendOperations(operations);
+      setLoadProgress({ loaded, total });
+    },
+    onSnapshot: (snapshot) => {
+      canvas.adoptSnapshot(snapshot);
+      setHasSnapshot(true);
+    },
+    onRemoteStrokeMessage: (message) => {
+      handleStrokeMessage(message);
+    },
   });
 
+  const scheduleSnapshot = (sequence: number) => {
+    if (snapshotScheduledRef.current || !collaboration.shouldSnapshot()) return;
+    snapshotScheduledRef.current = true;
+
+    setTimeout(async () => {
+      try {
+        const rendered = await canvas.createSnapshot(sequence);
+        if (rendered) {
+          await collaboration.commitSnapshot(sequence, rendered);
+        }
+      } finally {
+        snapshotScheduledRef.current = false;
+      }
+    }, SNAPSHOT_SETTLE_DELAY);
+  };
+
+  const handleStrokeMessage = (message: WSMessage) => {
+    switch (message.type) {
+      case 'stroke:start': {
+        const stroke = message.payload as StrokeStartPayload;
+        canvas.setPendingStroke({ ...stroke, sequence: 0 });
+        break;
+      }
+      case 'stroke:move': {
+        const { strokeId, points } = message.payload as StrokeMovePayload;
+        canvas.appendPendingPoints(strokeId, points);
+        break;
+      }
+      case 'stroke:end': {
+        // Normally the committed operation replaces the preview first; this
+        // only catches commits that never arrive.
+        const { strokeId } = message.payload as StrokeEndPayload;
+        setTimeout(() => canvas.removePendingStroke(strokeId), PENDING_STROKE_TIMEOUT);
+        break;
+      }
+      case 'stroke:cancel': {
+        const { strokeId } = message.payload as StrokeCancelPayload;
+        canvas.removePendingStroke(strokeId);
+        break;
+      }
+    }
+  };
+
+  useEffect(() => {
+    canvas.prunePendingStrokes(new Set(collaboration.users.map(u => u.id)));
+  }, [collaboration.users, canvas]);
+
   const handleRoomChange = useCallback((newRoomId: string) => {
     const shortId = uuidToRoomId(newRoomId);
     const url = new URL(window.location.href);
@@ -82,7 +260,9 @@ export const CollaborativeCanvas: React.FC = () => {
     window.history.pushState({}, '', url.toString());
     
     setIsInitialized(false);
+    setLoadProgress(null);
     canvas.clear();
+    canvas.setSnapshot(null);
     setRoomId(newRoomId);
     setCanRedo(false);
   }, [canvas]);
@@ -100,21 +280,20 @@ export const CollaborativeCanvas: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, [canvas]);
 
-  const handleMouseMove = useCallback((e: React.MouseEvent) => {
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
     const rect = containerRef.current?.getBoundingClientRect();
     if (rect) {
       collaboration.updateCursor(
         {
-          x: e.clientX - rect.left,
-          y: e.clientY - rect.top,
+          ...canvas.toWorld(e.clientX - rect.left, e.clientY - rect.top),
           timestamp: Date.now(),
         },
         canvas.isDrawing
       );
     }
-  }, [canvas.isDrawing, collaboration]);
+  }, [canvas, collaboration]);
 
-  const handleMouseLeave = useCallback(() => {
+  const handlePointerLeave = useCallback(() => {
     collaboration.updateCursor(null);
   }, [collaboration]);
 
@@ -123,39 +302,59 @@ export const CollaborativeCanvas: React.FC = () => {
   }, []);
 
   const handleUndo = useCallback(async () => {
-    const undoneId = await collaboration.undoLast();
-    if (undoneId) {
-      canvas.removeOperation(undoneId);
+    const result = await collaboration.undoLast();
+    if (result.status === 'queued') {
+      toast('Undo queued', { description: 'Will apply once pending changes are sent' });
+    } else if (result.status === 'applied') {
+      canvas.removeOperation(result.value);
       setCanRedo(true);
-      toast('Undone', { description: 'Last action reverted globally' });
+      toast('Undone', {
+        description: undoScope === 'user' ? 'Your last action reverted' : 'Last action reverted globally',
+      });
     } else {
       toast('Nothing to undo');
     }
-  }, [collaboration, canvas]);
+  }, [collaboration, canvas, undoScope]);
 
   const handleRedo = useCallback(async () => {
-    const redoneOp = await collaboration.redoLast();
-    if (redoneOp) {
-      canvas.addOperation(redoneOp);
-      toast('Redone', { description: 'Action restored globally' });
+    const result = await collaboration.redoLast();
+    if (result.status === 'queued') {
+      toast('Redo queued', { description: 'Will apply once pending changes are sent' });
+    } else if (result.status === 'applied') {
+      canvas.addOperation(result.value);
+      toast('Redone', {
+        description: undoScope === 'user' ? 'Your action restored' : 'Action restored globally',
+      });
     } else {
       setCanRedo(false);
       toast('Nothing to redo');
     }
-  }, [collaboration, canvas]);
+  }, [collaboration, canvas, undoScope]);
 
   const handleClear = useCallback(async () => {
-    canvas.clear();
-    await collaboration.commitClear();
+    const clearOp = canvas.appendClear();
+    setCanRedo(false);
+    toast('Canvas cleared', { description: 'Cleared for everyone. Undo to restore.' });
+    const confirmed = await collaboration.commitClear(clearOp);
+    if (confirmed) {
+      canvas.confirmOperation(clearOp.id, confirmed);
+    }
+  }, [canvas, collaboration]);
+
+  const handleLayerChange = useCallback(async (change: LayerChange) => {
+    const layerOp = canvas.appendLayerOperation(change);
     setCanRedo(false);
-    toast('Canvas cleared', { description: 'All strokes removed globally' });
+    const confirmed = await collaboration.commitLayer(layerOp);
+    if (confirmed) {
+      canvas.confirmOperation(layerOp.id, confirmed);
+    }
   }, [canvas, collaboration]);
 
-  const handleExport = useCallback(() => {
+  const handleExport = useCallback(async () => {
     const engine = canvas.getEngine();
     if (!engine) return;
 
-    const dataUrl = engine.toDataURL('image/png');
+    const dataUrl = await engine.toDataURL('image/png');
     const link = document.createElement('a');
     link.download = `canvas-${uuidToRoomId(roomId)}-${Date.now()}.png`;
     link.href = dataUrl;
@@ -165,16 +364,40 @@ export const CollaborativeCanvas: React.FC = () => {
   }, [canvas, roomId]);
 
   const getCursorStyle = (): React.CSSProperties => {
+    if (canvas.isPanning) return { cursor: 'grabbing' };
+    if (canvas.panMode) return { cursor: 'grab' };
+    // Selection and the object eraser work on every unlocked layer, not just the active one
+    if (toolSettings.tool === 'select') return { cursor: 'default' };
+    if (toolSettings.tool === 'object-eraser') return { cursor: 'crosshair' };
+    const activeLayer = canvas.layers.find(layer => layer.id === canvas.activeLayerId);
+    if (!activeLayer || activeLayer.locked || !activeLayer.visible) return { cursor: 'not-allowed' };
+    if (toolSettings.tool === 'text') return { cursor: 'text' };
     return { cursor: 'crosshair' };
   };
 
   return (
     <div className="relative w-full h-screen bg-background overflow-hidden">
       {!isInitialized && (
-        <div className="absolute inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+        <div
+          className={`absolute inset-0 z-50 flex items-center justify-center ${
+            loadProgress ? 'bg-background/40' : 'bg-background/80 backdrop-blur-sm'
+          }`}
+        >
           <div className="text-center">
             <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4" />
-            <p className="text-muted-foreground">Connecting to canvas...</p>
+            {loadProgress ? (
+              <>
+                <p className="text-muted-foreground">
+                  Loading canvas... {loadProgress.loaded.toLocaleString()} / {loadProgress.total.toLocaleString()} operations
+                </p>
+                <Progress
+                  value={loadProgress.total > 0 ? (loadProgress.loaded / loadProgress.total) * 100 : 100}
+                  className="h-1.5 w-64 mx-auto mt-3"
+                />
+              </>
+            ) : (
+              <p className="text-muted-foreground">Connecting to canvas...</p>
+            )}
           </div>
         </div>
       )}
@@ -182,42 +405,70 @@ export const CollaborativeCanvas: React.FC = () => {
       <div 
         ref={containerRef}
         className="absolute inset-4 canvas-container rounded-2xl overflow-hidden"
-        onMouseMove={handleMouseMove}
-        onMouseLeave={handleMouseLeave}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={handlePointerLeave}
       >
         <canvas
           ref={canvas.canvasRef}
           className="touch-none"
           style={getCursorStyle()}
-          onMouseDown={canvas.startDrawing}
-          onMouseMove={(e) => {
-            canvas.continueDrawing(e);
-            handleMouseMove(e);
-          }}
-          onMouseUp={canvas.endDrawing}
-          onMouseLeave={canvas.endDrawing}
-          onTouchStart={canvas.startDrawing}
-          onTouchMove={canvas.continueDrawing}
-          onTouchEnd={canvas.endDrawing}
+          onPointerDown={canvas.startDrawing}
+          onPointerMove={canvas.continueDrawing}
+          onPointerUp={canvas.endDrawing}
+          onPointerCancel={canvas.endDrawing}
+          onDoubleClick={canvas.editTextAt}
         />
 
+        {toolSettings.tool === 'select' && (
+          <SelectionOverlay selection={canvas.selection} viewport={canvas.viewport} />
+        )}
+
+        {canvas.textDraft && (
+          <TextEditor
+            draft={canvas.textDraft}
+            viewport={canvas.viewport}
+            onChange={canvas.updateTextDraft}
+            onCommit={canvas.commitTextDraft}
+            onCancel={canvas.cancelTextDraft}
+          />
+        )}
+
         <UserCursors 
           users={collaboration.users} 
           localUserId={USER_ID} 
+          viewport={canvas.viewport}
         />
       </div>
 
       <Toolbar
         settings={toolSettings}
         onSettingsChange={updateSettings}
-        canUndo={canvas.operationCount > 0}
+        canUndo={
+          hasSnapshot ||
+          (undoScope === 'user'
+            ? canvas.operations.some(op => op.userId === USER_ID)
+            : canvas.operationCount > 0)
+        }
         canRedo={canRedo}
+        undoScope={undoScope}
+        onUndoScopeChange={setUndoScope}
+        inputMode={inputMode}
+        onInputModeChange={setInputMode}
+        smartInk={smartInk}
+        onSmartInkChange={setSmartInk}
         onUndo={handleUndo}
         onRedo={handleRedo}
         onClear={handleClear}
         onExport={handleExport}
       />
 
+      <LayersPanel
+        layers={canvas.layers}
+        activeLayerId={canvas.activeLayerId}
+        onSelect={canvas.setActiveLayerId}
+        onChange={handleLayerChange}
+      />
+
       <div className="absolute top-4 left-4 z-10">
         <RoomSelector
           currentRoomId={roomId}
@@ -239,7 +490,12 @@ export const CollaborativeCanvas: React.FC = () => {
       <StatusBar
         isConnected={collaboration.isConnected}
         operationCount={canvas.operationCount}
+        pendingCount={collaboration.pendingCount}
         roomId={uuidToRoomId(roomId)}
+        zoom={canvas.viewport.scale}
+        onZoomIn={canvas.zoomIn}
+        onZoomOut={canvas.zoomOut}
+        onZoomReset={canvas.resetView}
       />
     </div>
   );
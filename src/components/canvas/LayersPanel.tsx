@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import {
+  Layers,
+  Plus,
+  Eye,
+  EyeOff,
+  Lock,
+  LockOpen,
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+} from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Input } from '@/components/ui/input';
+import type { Layer, LayerChange } from '@/types/canvas';
+import { generateId } from '@/lib/canvas-engine';
+import { nextLayerName } from '@/lib/layers';
+import { cn } from '@/lib/utils';
+
+interface LayersPanelProps {
+  /** Bottom first, as stored; shown top first. */
+  layers: Layer[];
+  activeLayerId: string | null;
+  onSelect: (layerId: string) => void;
+  onChange: (change: LayerChange) => void;
+}
+
+const IconButton: React.FC<{
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  active?: boolean;
+  children: React.ReactNode;
+}> = ({ label, onClick, disabled, active, children }) => (
+  <Tooltip delayDuration={300}>
+    <TooltipTrigger asChild>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onClick();
+        }}
+        disabled={disabled}
+        className={cn(
+          'flex items-center justify-center w-6 h-6 rounded text-muted-foreground hover:text-foreground hover:bg-muted',
+          active && 'text-foreground',
+          disabled && 'opacity-30 cursor-not-allowed hover:bg-transparent'
+        )}
+        aria-label={label}
+      >
+        {children}
+      </button>
+    </TooltipTrigger>
+    <TooltipContent side="top">
+      <p>{label}</p>
+    </TooltipContent>
+  </Tooltip>
+);
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  activeLayerId,
+  onSelect,
+  onChange,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const addLayer = () => {
+    const activeIndex = layers.findIndex(layer => layer.id === activeLayerId);
+    const layerId = generateId();
+    onChange({
+      action: 'create',
+      layerId,
+      name: nextLayerName(layers),
+      index: activeIndex === -1 ? layers.length : activeIndex + 1,
+    });
+    onSelect(layerId);
+  };
+
+  const startRename = (layer: Layer) => {
+    setEditingId(layer.id);
+    setDraftName(layer.name);
+  };
+
+  const finishRename = (layer: Layer) => {
+    const name = draftName.trim();
+    if (name && name !== layer.name) {
+      onChange({ action: 'rename', layerId: layer.id, name });
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="toolbar absolute right-4 top-1/2 -translate-y-1/2 w-56 flex flex-col gap-1 p-2 rounded-xl animate-fade-in z-10">
+      <div className="flex items-center justify-between px-1 pb-1">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Layers className="h-4 w-4 text-muted-foreground" />
+          Layers
+        </div>
+        <IconButton label="New layer" onClick={addLayer}>
+          <Plus className="h-4 w-4" />
+        </IconButton>
+      </div>
+
+      {[...layers].reverse().map((layer) => {
+        const index = layers.indexOf(layer);
+        const isActive = layer.id === activeLayerId;
+
+        return (
+          <div
+            key={layer.id}
+            onClick={() => onSelect(layer.id)}
+            className={cn(
+              'flex items-center gap-1 px-1 py-1 rounded-lg cursor-pointer hover:bg-muted/60',
+              isActive && 'bg-primary/10 ring-1 ring-primary/30'
+            )}
+          >
+            <IconButton
+              label={layer.visible ? 'Hide layer' : 'Show layer'}
+              onClick={() => onChange({ action: 'visibility', layerId: layer.id, visible: !layer.visible })}
+            >
+              {layer.visible ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5" />}
+            </IconButton>
+            <IconButton
+              label={layer.locked ? 'Unlock layer' : 'Lock layer'}
+              active={layer.locked}
+              onClick={() => onChange({ action: 'lock', layerId: layer.id, locked: !layer.locked })}
+            >
+              {layer.locked ? <Lock className="h-3.5 w-3.5" /> : <LockOpen className="h-3.5 w-3.5" />}
+            </IconButton>
+
+            {editingId === layer.id ? (
+              <Input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={() => finishRename(layer)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename(layer);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="h-6 flex-1 min-w-0 px-1 text-sm"
+              />
+            ) : (
+              <span
+                className={cn('flex-1 min-w-0 truncate text-sm', !layer.visible && 'text-muted-foreground')}
+                onDoubleClick={() => startRename(layer)}
+                title="Double-click to rename"
+              >
+                {layer.name}
+              </span>
+            )}
+
+            <IconButton
+              label="Move up"
+              disabled={index === layers.length - 1}
+              onClick={() => onChange({ action: 'move', layerId: layer.id, index: index + 1 })}
+            >
+              <ChevronUp className="h-3.5 w-3.5" />
+            </IconButton>
+            <IconButton
+              label="Move down"
+              disabled={index === 0}
+              onClick={() => onChange({ action: 'move', layerId: layer.id, index: index - 1 })}
+            >
+              <ChevronDown className="h-3.5 w-3.5" />
+            </IconButton>
+            <IconButton
+              label="Delete layer"
+              disabled={layers.length === 1}
+              onClick={() => onChange({ action: 'delete', layerId: layer.id })}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </IconButton>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
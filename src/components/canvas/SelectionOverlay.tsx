@@ -0,0 +1,64 @@
+import React from 'react';
+import type { SelectionState, ViewportTransform } from '@/types/canvas';
+import { HANDLE_SIZE, handlePositions, type TransformHandle } from '@/lib/selection';
+import { applyMatrix, IDENTITY } from '@/lib/transforms';
+
+interface SelectionOverlayProps {
+  selection: SelectionState;
+  viewport: ViewportTransform;
+}
+
+const CORNERS: TransformHandle[] = ['nw', 'ne', 'se', 'sw'];
+
+/**
+ * The transform box around the selection, following a drag in progress,
+ * and the lasso while one is drawn. Purely visual: `useCanvas` hit-tests
+ * the handles itself.
+ */
+export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({ selection, viewport }) => {
+  const { bounds, preview, lasso } = selection;
+  const { scale, offsetX, offsetY } = viewport;
+  const toScreen = (p: { x: number; y: number }) => {
+    const moved = applyMatrix(preview ?? IDENTITY, p);
+    return { x: offsetX + moved.x * scale, y: offsetY + moved.y * scale };
+  };
+  const points = (list: { x: number; y: number }[]) => list.map(p => `${p.x},${p.y}`).join(' ');
+
+  const handles = bounds ? handlePositions(bounds, scale) : null;
+  const corners = handles ? CORNERS.map(corner => toScreen(handles[corner])) : [];
+  const rotate = handles ? toScreen(handles.rotate) : null;
+  const topMiddle = corners.length > 0
+    ? { x: (corners[0].x + corners[1].x) / 2, y: (corners[0].y + corners[1].y) / 2 }
+    : null;
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none z-30">
+      {lasso && (
+        <polygon
+          points={points(lasso.map(p => ({ x: offsetX + p.x * scale, y: offsetY + p.y * scale })))}
+          className="fill-primary/5 stroke-primary"
+          strokeWidth={1}
+          strokeDasharray="4 3"
+        />
+      )}
+
+      {handles && rotate && topMiddle && (
+        <g className="stroke-primary" strokeWidth={1.5}>
+          <polygon points={points(corners)} fill="none" />
+          <line x1={topMiddle.x} y1={topMiddle.y} x2={rotate.x} y2={rotate.y} />
+          <circle cx={rotate.x} cy={rotate.y} r={HANDLE_SIZE / 2 + 1} className="fill-background" />
+          {corners.map((corner, i) => (
+            <rect
+              key={CORNERS[i]}
+              x={corner.x - HANDLE_SIZE / 2}
+              y={corner.y - HANDLE_SIZE / 2}
+              width={HANDLE_SIZE}
+              height={HANDLE_SIZE}
+              className="fill-background"
+            />
+          ))}
+        </g>
+      )}
+    </svg>
+  );
+};
@@ -1,16 +1,29 @@
 import React from 'react';
-import { Wifi, WifiOff, Layers } from 'lucide-react';
+import { Wifi, WifiOff, Layers, CloudUpload, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { MIN_ZOOM, MAX_ZOOM } from '@/lib/canvas-engine';
 
 interface StatusBarProps {
   isConnected: boolean;
   operationCount: number;
+  pendingCount: number;
   roomId: string;
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onZoomReset: () => void;
 }
 
 export const StatusBar: React.FC<StatusBarProps> = ({
   isConnected,
   operationCount,
+  pendingCount,
   roomId,
+  zoom,
+  onZoomIn,
+  onZoomOut,
+  onZoomReset,
 }) => {
   return (
     <div className="toolbar absolute left-1/2 -translate-x-1/2 bottom-4 flex items-center gap-4 px-4 py-2 rounded-xl animate-fade-in z-10">
@@ -42,6 +55,57 @@ export const StatusBar: React.FC<StatusBarProps> = ({
           {operationCount} {operationCount === 1 ? 'stroke' : 'strokes'}
         </span>
       </div>
+
+      <div className="h-4 w-px bg-border" />
+
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={onZoomOut}
+          disabled={zoom <= MIN_ZOOM}
+          aria-label="Zoom out"
+        >
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Tooltip delayDuration={300}>
+          <TooltipTrigger asChild>
+            <button
+              className="w-12 text-xs font-mono text-muted-foreground hover:text-foreground"
+              onClick={onZoomReset}
+            >
+              {Math.round(zoom * 100)}%
+            </button>
+          </TooltipTrigger>
+          <TooltipContent side="top">
+            <p>Fit to room (space-drag or middle mouse to pan)</p>
+          </TooltipContent>
+        </Tooltip>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={onZoomIn}
+          disabled={zoom >= MAX_ZOOM}
+          aria-label="Zoom in"
+        >
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {pendingCount > 0 && (
+        <>
+          <div className="h-4 w-px bg-border" />
+
+          <div className="flex items-center gap-2">
+            <CloudUpload className="h-4 w-4 text-yellow-500" />
+            <span className="text-xs text-yellow-500">
+              {pendingCount} pending
+            </span>
+          </div>
+        </>
+      )}
     </div>
   );
 };
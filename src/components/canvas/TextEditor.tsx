@@ -0,0 +1,80 @@
+import React, { useLayoutEffect, useRef } from 'react';
+import type { TextDraft, ViewportTransform } from '@/types/canvas';
+import { TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT } from '@/lib/texts';
+
+interface TextEditorProps {
+  draft: TextDraft;
+  viewport: ViewportTransform;
+  onChange: (changes: Partial<Pick<TextDraft, 'content' | 'width'>>) => void;
+  onCommit: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * A textarea laid over the canvas where the text will be drawn, styled to
+ * match the engine's text rendering at the current zoom. Dragging its right
+ * edge sets the wrap width.
+ */
+export const TextEditor: React.FC<TextEditorProps> = ({
+  draft,
+  viewport,
+  onChange,
+  onCommit,
+  onCancel,
+}) => {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  const { scale, offsetX, offsetY } = viewport;
+
+  // Grow to fit the content rather than scrolling
+  useLayoutEffect(() => {
+    const textarea = ref.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [draft.content, draft.width, scale]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep tool shortcuts and Space-to-pan out of the editor
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onCommit();
+    }
+  };
+
+  const handleResize = () => {
+    const textarea = ref.current;
+    if (!textarea) return;
+    const width = Math.round(textarea.offsetWidth / scale);
+    if (width !== draft.width) onChange({ width });
+  };
+
+  return (
+    <textarea
+      ref={ref}
+      autoFocus
+      value={draft.content}
+      onChange={(e) => onChange({ content: e.target.value })}
+      onKeyDown={handleKeyDown}
+      onMouseUp={handleResize}
+      onBlur={onCommit}
+      placeholder="Type…"
+      spellCheck={false}
+      rows={1}
+      className="absolute z-30 m-0 p-0 bg-transparent border-0 outline-dashed outline-1 outline-primary/60 overflow-hidden whitespace-pre-wrap break-words placeholder:text-muted-foreground/60"
+      style={{
+        left: offsetX + draft.x * scale,
+        top: offsetY + draft.y * scale,
+        width: draft.width * scale,
+        fontSize: draft.fontSize * scale,
+        lineHeight: TEXT_LINE_HEIGHT,
+        fontFamily: TEXT_FONT_FAMILY,
+        color: draft.color,
+        resize: 'horizontal',
+      }}
+    />
+  );
+};
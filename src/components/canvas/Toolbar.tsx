@@ -1,17 +1,29 @@
 import React from 'react';
 import { 
+  MousePointer2,
   Pencil, 
   Eraser, 
+  Delete,
+  Slash,
+  Square,
+  Circle,
+  MoveUpRight,
+  Type,
   Undo2, 
   Redo2, 
   Trash2,
   Download,
   Minus,
   Plus,
+  User,
+  Users,
+  Pointer,
+  PenLine,
+  Sparkles,
 } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Separator } from '@/components/ui/separator';
-import type { ToolType, ToolSettings } from '@/types/canvas';
+import type { ToolType, ToolSettings, UndoScope, InputMode } from '@/types/canvas';
 import { COLORS, BRUSH_WIDTHS } from '@/types/canvas';
 import { cn } from '@/lib/utils';
 
@@ -20,6 +32,12 @@ interface ToolbarProps {
   onSettingsChange: (settings: Partial<ToolSettings>) => void;
   canUndo: boolean;
   canRedo: boolean;
+  undoScope: UndoScope;
+  onUndoScopeChange: (scope: UndoScope) => void;
+  inputMode: InputMode;
+  onInputModeChange: (mode: InputMode) => void;
+  smartInk: boolean;
+  onSmartInkChange: (enabled: boolean) => void;
   onUndo: () => void;
   onRedo: () => void;
   onClear: () => void;
@@ -31,26 +49,63 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   onSettingsChange,
   canUndo,
   canRedo,
+  undoScope,
+  onUndoScopeChange,
+  inputMode,
+  onInputModeChange,
+  smartInk,
+  onSmartInkChange,
   onUndo,
   onRedo,
   onClear,
   onExport,
 }) => {
   const tools: { type: ToolType; icon: React.ReactNode; label: string }[] = [
+    { type: 'select', icon: <MousePointer2 className="h-5 w-5" />, label: 'Select (V)' },
     { type: 'brush', icon: <Pencil className="h-5 w-5" />, label: 'Brush (B)' },
     { type: 'eraser', icon: <Eraser className="h-5 w-5" />, label: 'Eraser (E)' },
+    { type: 'object-eraser', icon: <Delete className="h-5 w-5" />, label: 'Object eraser (Shift+E)' },
+    { type: 'line', icon: <Slash className="h-5 w-5" />, label: 'Line (L)' },
+    { type: 'rectangle', icon: <Square className="h-5 w-5" />, label: 'Rectangle (R)' },
+    { type: 'ellipse', icon: <Circle className="h-5 w-5" />, label: 'Ellipse (O)' },
+    { type: 'arrow', icon: <MoveUpRight className="h-5 w-5" />, label: 'Arrow (A)' },
+    { type: 'text', icon: <Type className="h-5 w-5" />, label: 'Text (T)' },
   ];
 
+  // Picking a color leaves shape and text tools selected but switches to the brush otherwise
+  const colorTool: ToolType = ['select', 'eraser', 'object-eraser'].includes(settings.tool) ? 'brush' : settings.tool;
+
   React.useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       
       switch (e.key.toLowerCase()) {
+        case 'v':
+          if (e.metaKey || e.ctrlKey) break;
+          onSettingsChange({ tool: 'select' });
+          break;
         case 'b':
           onSettingsChange({ tool: 'brush' });
           break;
         case 'e':
-          onSettingsChange({ tool: 'eraser' });
+          onSettingsChange({ tool: e.shiftKey ? 'object-eraser' : 'eraser' });
+          break;
+        case 'l':
+          onSettingsChange({ tool: 'line' });
+          break;
+        case 'r':
+          if (e.metaKey || e.ctrlKey) break;
+          onSettingsChange({ tool: 'rectangle' });
+          break;
+        case 'o':
+          onSettingsChange({ tool: 'ellipse' });
+          break;
+        case 'a':
+          if (e.metaKey || e.ctrlKey) break;
+          onSettingsChange({ tool: 'arrow' });
+          break;
+        case 't':
+          onSettingsChange({ tool: 'text' });
           break;
         case 'z':
           if (e.metaKey || e.ctrlKey) {
@@ -109,7 +164,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           <Tooltip key={color} delayDuration={300}>
             <TooltipTrigger asChild>
               <button
-                onClick={() => onSettingsChange({ color, tool: 'brush' })}
+                onClick={() => onSettingsChange({ color, tool: colorTool })}
                 className={cn(
                   'color-swatch',
                   settings.color === color && 'active'
@@ -128,7 +183,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           {COLORS.slice(5).map((color) => (
             <button
               key={color}
-              onClick={() => onSettingsChange({ color, tool: 'brush' })}
+              onClick={() => onSettingsChange({ color, tool: colorTool })}
               className={cn(
                 'color-swatch w-4 h-4',
                 settings.color === color && 'active'
@@ -214,6 +269,63 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           </TooltipContent>
         </Tooltip>
 
+        <Tooltip delayDuration={300}>
+          <TooltipTrigger asChild>
+            <button
+              onClick={() => onUndoScopeChange(undoScope === 'user' ? 'global' : 'user')}
+              className={cn('tool-button', undoScope === 'user' && 'active')}
+              aria-label={undoScope === 'user' ? 'My undo' : 'Global undo'}
+            >
+              {undoScope === 'user' ? <User className="h-5 w-5" /> : <Users className="h-5 w-5" />}
+            </button>
+          </TooltipTrigger>
+          <TooltipContent side="right">
+            <p>
+              {undoScope === 'user'
+                ? 'My undo: only your own actions'
+                : 'Global undo: anyone\'s last action'}
+            </p>
+          </TooltipContent>
+        </Tooltip>
+
+        <Tooltip delayDuration={300}>
+          <TooltipTrigger asChild>
+            <button
+              onClick={() => onInputModeChange(inputMode === 'pen' ? 'auto' : 'pen')}
+              className={cn('tool-button', inputMode === 'pen' && 'active')}
+              aria-label={inputMode === 'pen' ? 'Pen only' : 'Touch draws'}
+            >
+              {inputMode === 'pen' ? <PenLine className="h-5 w-5" /> : <Pointer className="h-5 w-5" />}
+            </button>
+          </TooltipTrigger>
+          <TooltipContent side="right">
+            <p>
+              {inputMode === 'pen'
+                ? 'Pen only: fingers pan and zoom'
+                : 'Touch draws; palms are ignored while a pen is in use'}
+            </p>
+          </TooltipContent>
+        </Tooltip>
+
+        <Tooltip delayDuration={300}>
+          <TooltipTrigger asChild>
+            <button
+              onClick={() => onSmartInkChange(!smartInk)}
+              className={cn('tool-button', smartInk && 'active')}
+              aria-label="Smart ink"
+            >
+              <Sparkles className="h-5 w-5" />
+            </button>
+          </TooltipTrigger>
+          <TooltipContent side="right">
+            <p>
+              {smartInk
+                ? 'Smart ink: rough lines, arrows and shapes snap clean'
+                : 'Smart ink off: brush strokes stay as drawn'}
+            </p>
+          </TooltipContent>
+        </Tooltip>
+
         <Tooltip delayDuration={300}>
           <TooltipTrigger asChild>
             <button
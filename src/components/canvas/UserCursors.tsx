@@ -1,13 +1,14 @@
 import React from 'react';
-import type { UserPresence } from '@/types/canvas';
+import type { UserPresence, ViewportTransform } from '@/types/canvas';
 import { cn } from '@/lib/utils';
 
 interface UserCursorsProps {
   users: UserPresence[];
   localUserId: string;
+  viewport: ViewportTransform;
 }
 
-export const UserCursors: React.FC<UserCursorsProps> = ({ users, localUserId }) => {
+export const UserCursors: React.FC<UserCursorsProps> = ({ users, localUserId, viewport }) => {
   const remoteCursors = users.filter(u => u.id !== localUserId && u.cursor !== null);
 
   return (
@@ -17,8 +18,8 @@ export const UserCursors: React.FC<UserCursorsProps> = ({ users, localUserId })
           key={user.id}
           className="user-cursor"
           style={{
-            left: user.cursor!.x,
-            top: user.cursor!.y,
+            left: viewport.offsetX + user.cursor!.x * viewport.scale,
+            top: viewport.offsetY + user.cursor!.y * viewport.scale,
             color: user.color,
           }}
         >
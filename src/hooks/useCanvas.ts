@@ -1,30 +1,206 @@
-import { useRef, useCallback, useEffect, useState } from 'react';
-import { CanvasEngine, generateId, now, filterNearbyPoints } from '@/lib/canvas-engine';
+import { useRef, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  generateId,
+  now,
+  filterNearbyPoints,
+  sortOperations,
+  type CanvasRenderer,
+  type LayerRaster,
+} from '@/lib/canvas-engine';
+import { createCanvasRenderer } from '@/lib/worker-canvas-engine';
+import { layerOf, resolveLayers } from '@/lib/layers';
+import { isShapeTool, constrainShapeEnd, isEmptyShape } from '@/lib/shapes';
+import { DEFAULT_TEXT_WIDTH, findTextAt, fontSizeForWidth } from '@/lib/texts';
+import { isIdentity, operationKey, operationTargets, resolveTransforms } from '@/lib/transforms';
+import { simplifyPoints, simplifyTolerance } from '@/lib/simplify';
+import { fitCurves } from '@/lib/curve-fit';
+import { simulatePressure } from '@/lib/stroke-outline';
+import { recognizeShape } from '@/lib/shape-recognition';
+import { GestureTracker, type PanGesture, type PointerKind } from '@/lib/gestures';
+import {
+  HIT_SLOP,
+  gestureMatrix,
+  handleAt,
+  itemAt,
+  itemsAlongSegment,
+  itemsInLasso,
+  selectableItems,
+  selectionBounds,
+  type SelectionGesture,
+} from '@/lib/selection';
 import type { 
   Point, 
   StrokeOperation, 
+  ShapeOperation,
+  TextOperation,
+  TextEditOperation,
+  TextDraft,
+  TransformOperation,
+  DeleteOperation,
+  SelectionState,
+  Matrix,
+  ClearOperation,
+  LayerOperation,
+  LayerChange,
+  Layer,
+  LayerSnapshot,
   DrawingOperation, 
   ToolSettings,
+  InputMode,
+  CanvasSnapshot,
+  CanvasSize,
+  ViewportTransform,
 } from '@/types/canvas';
+import { DEFAULT_LAYER } from '@/types/canvas';
+
+const STROKE_BATCH_SIZE = 3;
+const WHEEL_ZOOM_SPEED = 0.0015;
+// Trackpad pinches arrive as ctrl+wheel with much smaller deltas
+const PINCH_ZOOM_SPEED = 0.01;
+const BUTTON_ZOOM_FACTOR = 1.25;
+
+function pointerKind(e: React.PointerEvent): PointerKind {
+  return e.pointerType === 'pen' || e.pointerType === 'touch' ? e.pointerType : 'mouse';
+}
+
+/**
+ * Every position the pointer passed through since the last event: browsers
+ * coalesce pen and mouse moves to one per frame, which makes fast strokes
+ * jagged.
+ */
+function coalescedEvents(e: React.PointerEvent): PointerEvent[] {
+  const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+  return events.length > 0 ? events : [e.nativeEvent];
+}
+
+/** Resolves to null if the image can't be decoded. */
+function loadImage(src: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = src;
+  });
+}
+
+function baseLayersOf(snapshot: CanvasSnapshot): Layer[] {
+  return snapshot.layers.map(({ id, name, visible, locked }) => ({ id, name, visible, locked }));
+}
+
+function loadRasters(snapshot: CanvasSnapshot): Promise<LayerRaster[]> {
+  return Promise.all(snapshot.layers.map(async ({ image, x, y, width, height, ...layer }) => ({
+    ...layer,
+    image: image ? await loadImage(image) : null,
+    bounds: { x, y, width, height },
+  })));
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement
+    || (target instanceof HTMLElement && target.isContentEditable);
+}
+
+/** A drag with the selection tool and the operations it applies to. */
+interface SelectionDrag {
+  gesture: SelectionGesture;
+  targetIds: string[];
+  /** Shift was held when it started, so a lasso adds to the selection. */
+  additive: boolean;
+  matrix: Matrix | null;
+}
+
+/** An object-eraser sweep: what it has touched so far and where the pointer last was. */
+interface ObjectErase {
+  touched: string[];
+  last: { x: number; y: number };
+}
 
 interface UseCanvasOptions {
   userId: string;
+  onStrokeStart?: (stroke: StrokeOperation) => void;
+  onStrokePoints?: (strokeId: string, points: Point[]) => void;
   onStrokeComplete?: (stroke: StrokeOperation) => void;
+  /**
+   * An in-progress stroke will never be committed, e.g. when a second finger
+   * starts a pinch or smart ink replaces it with a shape.
+   */
+  onStrokeCancel?: (strokeId: string) => void;
+  onShapeComplete?: (shape: ShapeOperation) => void;
+  onTextComplete?: (text: TextOperation) => void;
+  onTextEdit?: (edit: TextEditOperation) => void;
+  onTransformComplete?: (transform: TransformOperation) => void;
+  onDeleteComplete?: (deletion: DeleteOperation) => void;
+  /** Render in a Web Worker where the browser supports OffscreenCanvas. */
+  renderInWorker?: boolean;
+  /** What fingers do; see `InputMode`. Defaults to 'auto'. */
+  inputMode?: InputMode;
+  onTwoFingerTap?: () => void;
+  /** Replace brush strokes that look like a line, arrow, rectangle, ellipse or triangle with that shape. */
+  smartInk?: boolean;
+  /** A brush stroke became `shape`; `ink` is what was drawn, for `restoreInk`. */
+  onInkRecognized?: (shape: ShapeOperation, ink: StrokeOperation) => void;
 }
 
 interface UseCanvasReturn {
   canvasRef: React.RefObject<HTMLCanvasElement>;
   isDrawing: boolean;
+  isPanning: boolean;
+  panMode: boolean;
   operations: DrawingOperation[];
-  startDrawing: (e: React.MouseEvent | React.TouchEvent) => void;
-  continueDrawing: (e: React.MouseEvent | React.TouchEvent) => void;
-  endDrawing: () => void;
+  startDrawing: (e: React.PointerEvent) => void;
+  continueDrawing: (e: React.PointerEvent) => void;
+  endDrawing: (e?: React.PointerEvent) => void;
   addOperation: (operation: DrawingOperation) => void;
+  appendOperations: (operations: DrawingOperation[]) => void;
   removeOperation: (id: string) => void;
+  confirmOperation: (localId: string, confirmed: DrawingOperation) => void;
   setOperations: (operations: DrawingOperation[]) => void;
+  setPendingStroke: (stroke: StrokeOperation) => void;
+  appendPendingPoints: (strokeId: string, points: Point[]) => void;
+  removePendingStroke: (strokeId: string) => void;
+  prunePendingStrokes: (activeUserIds: Set<string>) => void;
+  appendClear: () => ClearOperation;
+  /** Text open in the inline editor, if any. */
+  textDraft: TextDraft | null;
+  updateTextDraft: (changes: Partial<Pick<TextDraft, 'content' | 'width'>>) => void;
+  /** Closes the editor, committing a new text or an edit if anything changed. */
+  commitTextDraft: () => void;
+  cancelTextDraft: () => void;
+  /** Opens the text under a double-click for editing; text tool only. */
+  editTextAt: (e: React.MouseEvent) => void;
+  selection: SelectionState;
+  /** Deletes the selected operations, if any. */
+  deleteSelection: () => void;
+  /**
+   * Undoes a smart-ink snap: deletes the shape and commits the original ink,
+   * two operations and so two undo steps. Does nothing and returns false
+   * once the shape has been moved, deleted or undone.
+   */
+  restoreInk: (shape: ShapeOperation, ink: StrokeOperation) => boolean;
+  appendLayerOperation: (change: LayerChange) => LayerOperation;
+  /** Bottom first. */
+  layers: Layer[];
+  /** Where new strokes go; falls back to the top layer if the chosen one is gone. */
+  activeLayerId: string | null;
+  setActiveLayerId: (layerId: string) => void;
+  setSnapshot: (snapshot: CanvasSnapshot | null) => void;
+  /**
+   * Switches to a snapshot committed mid-session: once its images are ready,
+   * the operations it covers are dropped and can no longer be selected,
+   * edited or erased, as for anyone who joins later.
+   */
+  adoptSnapshot: (snapshot: CanvasSnapshot) => void;
+  createSnapshot: (maxSequence: number) => Promise<LayerSnapshot[] | null>;
   clear: () => void;
   resize: (width: number, height: number) => void;
-  getEngine: () => CanvasEngine | null;
+  setLogicalSize: (size: CanvasSize) => void;
+  toWorld: (x: number, y: number) => { x: number; y: number };
+  zoomIn: () => void;
+  zoomOut: () => void;
+  resetView: () => void;
+  viewport: ViewportTransform;
+  getEngine: () => CanvasRenderer | null;
   operationCount: number;
 }
 
@@ -32,45 +208,575 @@ export function useCanvas(
   toolSettings: ToolSettings,
   options: UseCanvasOptions
 ): UseCanvasReturn {
-  const { userId, onStrokeComplete } = options;
+  const {
+    userId,
+    onStrokeStart,
+    onStrokePoints,
+    onStrokeComplete,
+    onStrokeCancel,
+    onShapeComplete,
+    onTextComplete,
+    onTextEdit,
+    onTransformComplete,
+    onDeleteComplete,
+    renderInWorker,
+    inputMode = 'auto',
+    onTwoFingerTap,
+    smartInk = false,
+    onInkRecognized,
+  } = options;
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const engineRef = useRef<CanvasEngine | null>(null);
+  const engineRef = useRef<CanvasRenderer | null>(null);
   const currentStrokeRef = useRef<StrokeOperation | null>(null);
+  const currentShapeRef = useRef<ShapeOperation | null>(null);
+  // The pointer's position, before any Shift constraint, while dragging a shape
+  const shapePointerRef = useRef<{ x: number; y: number } | null>(null);
+  const shiftHeldRef = useRef(false);
+  const textDraftRef = useRef<TextDraft | null>(null);
+  // Content and width of the text being re-edited, to skip no-op edits
+  const textOriginRef = useRef<{ content: string; width: number } | null>(null);
   const pointBufferRef = useRef<Point[]>([]);
+  const snapshotIdRef = useRef<string | null>(null);
+  const operationsRef = useRef<DrawingOperation[]>([]);
+  const unsentPointsRef = useRef<Point[]>([]);
+  const panRef = useRef<PanGesture | null>(null);
+  const gesturesRef = useRef(new GestureTracker());
+  // The one pointer whose moves feed the stroke, shape or drag in progress
+  const drawingPointerRef = useRef<number | null>(null);
+  const selectionDragRef = useRef<SelectionDrag | null>(null);
+  const objectEraseRef = useRef<ObjectErase | null>(null);
+  const spaceHeldRef = useRef(false);
 
   const [isDrawing, setIsDrawing] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const [panMode, setPanMode] = useState(false);
   const [operations, setOperationsState] = useState<DrawingOperation[]>([]);
+  const [baseLayers, setBaseLayers] = useState<Layer[]>([DEFAULT_LAYER]);
+  // Sequence of the snapshot the base layers come from; operations up to it are only pixels now
+  const [bakedSequence, setBakedSequence] = useState(0);
+  const [chosenLayerId, setActiveLayerId] = useState<string | null>(null);
+  const [textDraft, setTextDraft] = useState<TextDraft | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectionPreview, setSelectionPreview] = useState<Matrix | null>(null);
+  const [lasso, setLasso] = useState<{ x: number; y: number }[] | null>(null);
+  const [viewport, setViewport] = useState<ViewportTransform>({ scale: 1, offsetX: 0, offsetY: 0 });
 
   useEffect(() => {
     if (!canvasRef.current) return;
 
-    const engine = new CanvasEngine(canvasRef.current);
+    const engine = createCanvasRenderer(canvasRef.current, { worker: renderInWorker });
     engineRef.current = engine;
 
     const parent = canvasRef.current.parentElement;
     if (parent) {
       engine.resize(parent.clientWidth, parent.clientHeight);
     }
+    setViewport(engine.getViewport());
 
     return () => {
       engine.destroy();
       engineRef.current = null;
     };
-  }, []);
+  }, [renderInWorker]);
+
+  useEffect(() => {
+    gesturesRef.current.setMode(inputMode);
+  }, [inputMode]);
+
+  useEffect(() => {
+    gesturesRef.current.setOnTwoFingerTap(onTwoFingerTap ?? null);
+  }, [onTwoFingerTap]);
 
   useEffect(() => {
+    operationsRef.current = operations;
     if (engineRef.current) {
       engineRef.current.setOperations(operations);
     }
   }, [operations]);
 
-  const startDrawing = useCallback((e: React.MouseEvent | React.TouchEvent) => {
+  // A confirmation or remote operation can still arrive for something the snapshot covers
+  const liveOperations = useMemo(
+    () => operations.filter(op => op.pending || op.sequence > bakedSequence),
+    [operations, bakedSequence]
+  );
+  const layers = useMemo(() => resolveLayers(baseLayers, liveOperations), [baseLayers, liveOperations]);
+  const activeLayer = layers.find(layer => layer.id === chosenLayerId) ?? layers[layers.length - 1] ?? null;
+
+  const isSelecting = toolSettings.tool === 'select';
+  const hitTesting = isSelecting || toolSettings.tool === 'object-eraser';
+  const selectable = useMemo(
+    () => (hitTesting ? selectableItems(liveOperations, layers) : []),
+    [hitTesting, liveOperations, layers]
+  );
+  // Selected operations that were since deleted, undone or locked away drop out
+  const selection = useMemo(() => {
+    const keys = new Set(selectable.map(item => item.key));
+    const ids = selectedIds.filter(id => keys.has(id));
+    return { ids, bounds: selectionBounds(selectable, ids) };
+  }, [selectable, selectedIds]);
+
+  useEffect(() => {
+    if (!isSelecting) setSelectedIds([]);
+  }, [isSelecting]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    // Registered natively: React's wheel listener is passive and can't stop page zoom.
+    const handleWheel = (e: WheelEvent) => {
+      const engine = engineRef.current;
+      if (!engine) return;
+
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const speed = e.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+      engine.zoomAt(Math.exp(-e.deltaY * speed), e.clientX - rect.left, e.clientY - rect.top);
+      setViewport(engine.getViewport());
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  /** Moves the dragged shape's end to the pointer, constrained while Shift is held. */
+  const updateShape = useCallback(() => {
+    const shape = currentShapeRef.current;
+    const pointer = shapePointerRef.current;
+    if (!shape || !pointer) return;
+
+    const end = shiftHeldRef.current ? constrainShapeEnd(shape.shape, shape.start, pointer) : pointer;
+    currentShapeRef.current = { ...shape, end };
+    engineRef.current?.setCurrentShape(currentShapeRef.current);
+  }, []);
+
+  useEffect(() => {
+    // Shift takes effect mid-drag without waiting for the pointer to move.
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Shift') {
+        shiftHeldRef.current = true;
+        updateShape();
+        return;
+      }
+      if (e.code !== 'Space' || isEditableTarget(e.target)) return;
+      e.preventDefault();
+      spaceHeldRef.current = true;
+      setPanMode(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === 'Shift') {
+        shiftHeldRef.current = false;
+        updateShape();
+        return;
+      }
+      if (e.code !== 'Space') return;
+      spaceHeldRef.current = false;
+      setPanMode(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [updateShape]);
+
+  const cancelStroke = useCallback(() => {
+    if (objectEraseRef.current) {
+      engineRef.current?.setErasing(null);
+      objectEraseRef.current = null;
+      setIsDrawing(false);
+    }
+    if (selectionDragRef.current) {
+      engineRef.current?.setTransformPreview(null);
+      selectionDragRef.current = null;
+      setSelectionPreview(null);
+      setLasso(null);
+    }
+    if (currentShapeRef.current) {
+      engineRef.current?.setCurrentShape(null);
+      currentShapeRef.current = null;
+      shapePointerRef.current = null;
+      setIsDrawing(false);
+    }
+
+    const stroke = currentStrokeRef.current;
+    if (!stroke) return;
+
+    engineRef.current?.setCurrentStroke(null);
+    onStrokeCancel?.(stroke.id);
+    currentStrokeRef.current = null;
+    pointBufferRef.current = [];
+    unsentPointsRef.current = [];
+    setIsDrawing(false);
+  }, [onStrokeCancel]);
+
+  const updatePan = useCallback(() => {
+    const engine = engineRef.current;
+    const previous = panRef.current;
+    const next = gesturesRef.current.gesture();
+    if (!engine || !previous || !next) return;
+
+    engine.panBy(next.x - previous.x, next.y - previous.y);
+    if (previous.distance && next.distance) {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      engine.zoomAt(
+        next.distance / previous.distance,
+        next.x - (rect?.left ?? 0),
+        next.y - (rect?.top ?? 0)
+      );
+    }
+
+    panRef.current = next;
+    setViewport(engine.getViewport());
+  }, []);
+
+  const showTextDraft = useCallback((draft: TextDraft | null) => {
+    textDraftRef.current = draft;
+    setTextDraft(draft);
+    engineRef.current?.setEditingText(draft?.textId ?? null);
+  }, []);
+
+  const updateTextDraft = useCallback((changes: Partial<Pick<TextDraft, 'content' | 'width'>>) => {
+    const draft = textDraftRef.current;
+    if (draft) showTextDraft({ ...draft, ...changes });
+  }, [showTextDraft]);
+
+  const cancelTextDraft = useCallback(() => {
+    showTextDraft(null);
+  }, [showTextDraft]);
+
+  const commitTextDraft = useCallback(() => {
+    const draft = textDraftRef.current;
+    if (!draft) return;
+    showTextDraft(null);
+
+    if (draft.textId === null) {
+      if (!draft.content.trim()) return;
+      const text: TextOperation = {
+        id: generateId(),
+        type: 'text',
+        userId,
+        content: draft.content,
+        fontSize: draft.fontSize,
+        color: draft.color,
+        x: draft.x,
+        y: draft.y,
+        width: draft.width,
+        timestamp: now(),
+        sequence: 0,
+        layerId: draft.layerId,
+        pending: true,
+      };
+      setOperationsState(prev => [...prev, text]);
+      onTextComplete?.(text);
+      return;
+    }
+
+    const origin = textOriginRef.current;
+    if (origin && origin.content === draft.content && origin.width === draft.width) return;
+    const edit: TextEditOperation = {
+      id: generateId(),
+      type: 'text-edit',
+      userId,
+      textId: draft.textId,
+      content: draft.content,
+      width: draft.width,
+      timestamp: now(),
+      sequence: 0,
+      pending: true,
+    };
+    setOperationsState(prev => [...prev, edit]);
+    onTextEdit?.(edit);
+  }, [userId, showTextDraft, onTextComplete, onTextEdit]);
+
+  const editTextAt = useCallback((e: React.MouseEvent) => {
+    const engine = engineRef.current;
+    if (!engine || toolSettings.tool !== 'text') return;
+
+    const text = findTextAt(liveOperations, layers, engine.getEventCoordinates(e.nativeEvent));
+    if (!text) return;
+
+    textOriginRef.current = { content: text.content, width: text.width };
+    showTextDraft({
+      textId: operationKey(text),
+      x: text.x,
+      y: text.y,
+      width: text.width,
+      fontSize: text.fontSize,
+      color: text.color,
+      content: text.content,
+      layerId: layerOf(text),
+    });
+  }, [toolSettings.tool, liveOperations, layers, showTextDraft]);
+
+  const appendDelete = useCallback((targetIds: string[]) => {
+    const deletion: DeleteOperation = {
+      id: generateId(),
+      type: 'delete',
+      userId,
+      targetIds,
+      timestamp: now(),
+      sequence: 0,
+      pending: true,
+    };
+    setOperationsState(prev => [...prev, deletion]);
+    onDeleteComplete?.(deletion);
+  }, [userId, onDeleteComplete]);
+
+  const deleteSelection = useCallback(() => {
+    if (selection.ids.length === 0) return;
+    appendDelete(selection.ids);
+    setSelectedIds([]);
+  }, [selection.ids, appendDelete]);
+
+  const restoreInk = useCallback((shape: ShapeOperation, ink: StrokeOperation) => {
+    // Read through the ref: the offer outlives the render that made it
+    const key = operationKey(shape);
+    const current = operationsRef.current;
+    const { matrices, deleted } = resolveTransforms(current);
+    const live = current.some(op => operationKey(op) === key) && !deleted.has(key) && !matrices.has(key);
+    if (!live) return false;
+
+    appendDelete([key]);
+    setOperationsState(prev => [...prev, ink]);
+    onStrokeComplete?.(ink);
+    return true;
+  }, [appendDelete, onStrokeComplete]);
+
+  /** Marks whatever the object eraser touched on its way to `point`. */
+  const sweepEraser = useCallback((point: { x: number; y: number }) => {
+    const engine = engineRef.current;
+    const erase = objectEraseRef.current;
+    if (!engine || !erase) return;
+
+    const radius = toolSettings.width / 2 + HIT_SLOP / engine.getViewport().scale;
+    const touched = itemsAlongSegment(selectable, erase.last, point, radius)
+      .filter(key => !erase.touched.includes(key));
+    erase.last = point;
+    if (touched.length === 0) return;
+
+    erase.touched.push(...touched);
+    engine.setErasing([...erase.touched]);
+  }, [selectable, toolSettings.width]);
+
+  /** Deletes everything the sweep touched as one undoable operation. */
+  const endErase = useCallback(() => {
+    const erase = objectEraseRef.current;
+    if (!erase) return;
+    objectEraseRef.current = null;
+    engineRef.current?.setErasing(null);
+    setIsDrawing(false);
+    // A snapshot adopted mid-sweep may have baked some of them into pixels
+    const live = new Set(selectable.map(item => item.key));
+    const targets = erase.touched.filter(key => live.has(key));
+    if (targets.length > 0) appendDelete(targets);
+  }, [selectable, appendDelete]);
+
+  useEffect(() => {
+    if (!isSelecting) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || selectionDragRef.current) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSelection();
+      } else if (e.key === 'Escape') {
+        setSelectedIds([]);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSelecting, deleteSelection]);
+
+  /**
+   * Starts a selection-tool drag: a handle of the transform box scales or
+   * rotates, the box or an item moves, and empty canvas starts a lasso.
+   * Shift-clicking an item toggles it in or out of the selection.
+   */
+  const startSelection = useCallback((point: { x: number; y: number }, shiftKey: boolean) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    const { scale } = engine.getViewport();
+    const { ids, bounds } = selection;
+
+    const handle = bounds ? handleAt(bounds, point, scale) : null;
+    if (bounds && handle) {
+      const gesture: SelectionGesture = handle === 'rotate'
+        ? { kind: 'rotate', origin: point, bounds }
+        : { kind: 'scale', origin: point, bounds, handle };
+      selectionDragRef.current = { gesture, targetIds: ids, additive: false, matrix: null };
+      return;
+    }
+
+    const item = itemAt(selectable, point, HIT_SLOP / scale);
+    if (item && shiftKey) {
+      setSelectedIds(ids.includes(item.key) ? ids.filter(id => id !== item.key) : [...ids, item.key]);
+      return;
+    }
+
+    const inBox = bounds
+      && point.x >= bounds.x && point.x <= bounds.x + bounds.width
+      && point.y >= bounds.y && point.y <= bounds.y + bounds.height;
+    if (item || (inBox && !shiftKey)) {
+      const targetIds = item && !ids.includes(item.key) ? [item.key] : ids;
+      setSelectedIds(targetIds);
+      selectionDragRef.current = {
+        gesture: { kind: 'move', origin: point, bounds: selectionBounds(selectable, targetIds)! },
+        targetIds,
+        additive: false,
+        matrix: null,
+      };
+      return;
+    }
+
+    selectionDragRef.current = {
+      gesture: { kind: 'lasso', points: [point] },
+      targetIds: ids,
+      additive: shiftKey,
+      matrix: null,
+    };
+    setLasso([point]);
+  }, [selection, selectable]);
+
+  const continueSelection = useCallback((point: { x: number; y: number }, shiftKey: boolean) => {
+    const drag = selectionDragRef.current;
+    if (!drag) return;
+
+    if (drag.gesture.kind === 'lasso') {
+      drag.gesture.points.push(point);
+      setLasso([...drag.gesture.points]);
+      return;
+    }
+
+    drag.matrix = gestureMatrix(drag.gesture, point, shiftKey);
+    engineRef.current?.setTransformPreview({ targetIds: drag.targetIds, matrix: drag.matrix });
+    setSelectionPreview(drag.matrix);
+  }, []);
+
+  /** Ends a selection-tool drag, committing a transform if it moved anything. */
+  const endSelection = useCallback(() => {
+    const drag = selectionDragRef.current;
+    if (!drag) return;
+    selectionDragRef.current = null;
+
+    if (drag.gesture.kind === 'lasso') {
+      const lassoed = itemsInLasso(selectable, drag.gesture.points);
+      setSelectedIds(drag.additive ? [...new Set([...drag.targetIds, ...lassoed])] : lassoed);
+      setLasso(null);
+      return;
+    }
+
+    engineRef.current?.setTransformPreview(null);
+    setSelectionPreview(null);
+    if (!drag.matrix || isIdentity(drag.matrix)) return;
+
+    const transform: TransformOperation = {
+      id: generateId(),
+      type: 'transform',
+      userId,
+      targetIds: drag.targetIds,
+      matrix: drag.matrix,
+      timestamp: now(),
+      sequence: 0,
+      pending: true,
+    };
+    setOperationsState(prev => [...prev, transform]);
+    onTransformComplete?.(transform);
+  }, [userId, selectable, onTransformComplete]);
+
+  const startDrawing = useCallback((e: React.PointerEvent) => {
     if (!engineRef.current) return;
     
     e.preventDefault();
-    
+    const role = gesturesRef.current.down(
+      e.pointerId,
+      pointerKind(e),
+      e.clientX,
+      e.clientY,
+      e.timeStamp,
+      e.button === 1 || spaceHeldRef.current
+    );
+    if (role === 'ignore') return;
+    // Keep receiving moves when the pointer leaves the canvas mid-stroke
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+
+    if (role === 'pan') {
+      cancelStroke();
+      drawingPointerRef.current = null;
+      panRef.current = gesturesRef.current.gesture();
+      setIsPanning(true);
+      return;
+    }
+    if (e.button !== 0) return;
+    // A pen landing over a palm, or a second mouse or pen, takes over
+    cancelStroke();
+    if (panRef.current) {
+      panRef.current = null;
+      setIsPanning(false);
+    }
+    drawingPointerRef.current = e.pointerId;
+    // Clicking away from the editor closes it without starting anything new
+    if (textDraftRef.current) {
+      commitTextDraft();
+      return;
+    }
+
     const point = engineRef.current.getEventCoordinates(e.nativeEvent);
+    const tool = toolSettings.tool;
+    // Selection works across every unlocked layer, not just the active one
+    if (tool === 'select') {
+      startSelection(point, e.shiftKey);
+      return;
+    }
+    if (tool === 'object-eraser') {
+      objectEraseRef.current = { touched: [], last: point };
+      setIsDrawing(true);
+      sweepEraser(point);
+      return;
+    }
+    if (!activeLayer || activeLayer.locked || !activeLayer.visible) return;
+
+    if (tool === 'text') {
+      textOriginRef.current = null;
+      showTextDraft({
+        textId: null,
+        x: point.x,
+        y: point.y,
+        width: DEFAULT_TEXT_WIDTH,
+        fontSize: fontSizeForWidth(toolSettings.width),
+        color: toolSettings.color,
+        content: '',
+        layerId: activeLayer.id,
+      });
+      return;
+    }
+    if (isShapeTool(tool)) {
+      const shape: ShapeOperation = {
+        id: generateId(),
+        type: 'shape',
+        userId,
+        shape: tool,
+        color: toolSettings.color,
+        width: toolSettings.width,
+        start: { x: point.x, y: point.y },
+        end: { x: point.x, y: point.y },
+        timestamp: now(),
+        sequence: 0,
+        layerId: activeLayer.id,
+      };
+
+      currentShapeRef.current = shape;
+      shapePointerRef.current = shape.end;
+      shiftHeldRef.current = e.shiftKey;
+      setIsDrawing(true);
+      engineRef.current.setCurrentShape(shape);
+      return;
+    }
+
     const strokeId = generateId();
 
     const stroke: StrokeOperation = {
@@ -79,27 +785,64 @@ export function useCanvas(
       userId,
       color: toolSettings.color,
       width: toolSettings.width,
-      tool: toolSettings.tool,
+      tool,
       points: [point],
       startTime: now(),
       sequence: 0,
+      layerId: activeLayer.id,
     };
 
     currentStrokeRef.current = stroke;
     pointBufferRef.current = [point];
+    unsentPointsRef.current = [];
     setIsDrawing(true);
 
     engineRef.current.setCurrentStroke(stroke);
-  }, [userId, toolSettings]);
+    onStrokeStart?.(stroke);
+  }, [userId, toolSettings, activeLayer, onStrokeStart, cancelStroke, commitTextDraft, showTextDraft, startSelection, sweepEraser]);
 
-  const continueDrawing = useCallback((e: React.MouseEvent | React.TouchEvent) => {
+  const continueDrawing = useCallback((e: React.PointerEvent) => {
+    const gestures = gesturesRef.current;
+    gestures.move(e.pointerId, e.clientX, e.clientY);
+    if (panRef.current) {
+      e.preventDefault();
+      if (gestures.roleOf(e.pointerId) === 'pan') updatePan();
+      return;
+    }
+    // Hovering, and other fingers or a palm, never feed the drawing
+    if (e.pointerId !== drawingPointerRef.current) return;
+    if (engineRef.current && selectionDragRef.current) {
+      e.preventDefault();
+      continueSelection(engineRef.current.getEventCoordinates(e.nativeEvent), e.shiftKey);
+      return;
+    }
+    if (engineRef.current && objectEraseRef.current) {
+      e.preventDefault();
+      sweepEraser(engineRef.current.getEventCoordinates(e.nativeEvent));
+      return;
+    }
+    if (engineRef.current && currentShapeRef.current) {
+      e.preventDefault();
+      const { x, y } = engineRef.current.getEventCoordinates(e.nativeEvent);
+      shapePointerRef.current = { x, y };
+      shiftHeldRef.current = e.shiftKey;
+      updateShape();
+      return;
+    }
     if (!engineRef.current || !currentStrokeRef.current) return;
     
     e.preventDefault();
 
-    const point = engineRef.current.getEventCoordinates(e.nativeEvent);
+    const engine = engineRef.current;
+    const points = coalescedEvents(e).map(event => engine.getEventCoordinates(event));
     
-    pointBufferRef.current.push(point);
+    pointBufferRef.current.push(...points);
+    unsentPointsRef.current.push(...points);
+
+    if (unsentPointsRef.current.length >= STROKE_BATCH_SIZE) {
+      onStrokePoints?.(currentStrokeRef.current.id, unsentPointsRef.current);
+      unsentPointsRef.current = [];
+    }
     
     const minDist = Math.max(1, toolSettings.width / 4);
     const filteredPoints = filterNearbyPoints(pointBufferRef.current, minDist);
@@ -110,18 +853,94 @@ export function useCanvas(
     };
 
     engineRef.current.setCurrentStroke(currentStrokeRef.current);
-  }, [toolSettings.width]);
+  }, [toolSettings.width, onStrokePoints, updatePan, updateShape, continueSelection, sweepEraser]);
 
-  const endDrawing = useCallback(() => {
+  const endDrawing = useCallback((e?: React.PointerEvent) => {
+    const gestures = gesturesRef.current;
+    if (e) gestures.up(e.pointerId, e.timeStamp, e.type === 'pointercancel');
+    if (panRef.current) {
+      // Lifting one finger of a pinch leaves the other still panning
+      const remaining = gestures.gesture();
+      if (remaining) {
+        panRef.current = remaining;
+        return;
+      }
+      panRef.current = null;
+      setIsPanning(false);
+      return;
+    }
+    // Only the pointer that started the drawing finishes it
+    if (e && e.pointerId !== drawingPointerRef.current) return;
+    drawingPointerRef.current = null;
+    if (selectionDragRef.current) {
+      endSelection();
+      return;
+    }
+    if (objectEraseRef.current) {
+      endErase();
+      return;
+    }
+    if (engineRef.current && currentShapeRef.current) {
+      const shape: ShapeOperation = { ...currentShapeRef.current, pending: true };
+      engineRef.current.setCurrentShape(null);
+      if (!isEmptyShape(shape)) {
+        setOperationsState(prev => [...prev, shape]);
+        onShapeComplete?.(shape);
+      }
+      currentShapeRef.current = null;
+      shapePointerRef.current = null;
+      setIsDrawing(false);
+      return;
+    }
     if (!engineRef.current || !currentStrokeRef.current) return;
 
+    if (unsentPointsRef.current.length > 0) {
+      onStrokePoints?.(currentStrokeRef.current.id, unsentPointsRef.current);
+    }
+
+    const stroke = currentStrokeRef.current;
+    const filtered = filterNearbyPoints(pointBufferRef.current, Math.max(1, toolSettings.width / 4));
+    // Simulated pressure depends on the spacing of points, so fix it before dropping any
+    const pressured = stroke.tool === 'brush' ? simulatePressure(filtered) : filtered;
+    // Simplifying and fitting each get half the budget, so together they stay within it
+    const tolerance = simplifyTolerance(stroke.width, engineRef.current.getViewport().scale) / 2;
+    const simplified = simplifyPoints(pressured, tolerance, stroke.width);
+    const curves = fitCurves(simplified, tolerance, stroke.width);
     const finalStroke: StrokeOperation = {
-      ...currentStrokeRef.current,
-      points: filterNearbyPoints(pointBufferRef.current, Math.max(1, toolSettings.width / 4)),
+      ...stroke,
+      points: curves.points,
+      controls: curves.controls,
       endTime: now(),
+      pending: true,
     };
 
-    if (finalStroke.points.length > 0) {
+    const recognized = smartInk && stroke.tool === 'brush'
+      ? recognizeShape(filtered, engineRef.current.getViewport().scale)
+      : null;
+
+    if (recognized) {
+      const shape: ShapeOperation = {
+        id: generateId(),
+        type: 'shape',
+        userId,
+        shape: recognized.shape,
+        color: stroke.color,
+        width: stroke.width,
+        start: recognized.start,
+        end: recognized.end,
+        ...(recognized.vertices && { vertices: recognized.vertices }),
+        timestamp: now(),
+        sequence: 0,
+        layerId: stroke.layerId,
+        pending: true,
+      };
+      engineRef.current.setCurrentStroke(null);
+      // Others were watching the ink arrive; it is replaced, not committed
+      onStrokeCancel?.(stroke.id);
+      setOperationsState(prev => [...prev, shape]);
+      onShapeComplete?.(shape);
+      onInkRecognized?.(shape, finalStroke);
+    } else if (finalStroke.points.length > 0) {
       engineRef.current.setCurrentStroke(null);
       setOperationsState(prev => [...prev, finalStroke]);
       onStrokeComplete?.(finalStroke);
@@ -131,17 +950,27 @@ export function useCanvas(
 
     currentStrokeRef.current = null;
     pointBufferRef.current = [];
+    unsentPointsRef.current = [];
     setIsDrawing(false);
-  }, [toolSettings.width, onStrokeComplete]);
+  }, [userId, toolSettings.width, smartInk, onStrokePoints, onStrokeComplete, onStrokeCancel, onShapeComplete, onInkRecognized, endSelection, endErase]);
 
   const addOperation = useCallback((operation: DrawingOperation) => {
+    if (operation.type === 'stroke' && operation.clientId) {
+      engineRef.current?.removePendingStroke(operation.clientId);
+    }
     setOperationsState(prev => {
       if (prev.some(op => op.id === operation.id)) {
         return prev;
       }
-      const newOps = [...prev, operation];
-      newOps.sort((a, b) => a.sequence - b.sequence);
-      return newOps;
+      return sortOperations([...prev, operation]);
+    });
+  }, []);
+
+  const appendOperations = useCallback((ops: DrawingOperation[]) => {
+    if (ops.length === 0) return;
+    setOperationsState(prev => {
+      const incoming = new Set(ops.map(op => op.id));
+      return sortOperations([...prev.filter(op => !incoming.has(op.id)), ...ops]);
     });
   }, []);
 
@@ -149,17 +978,154 @@ export function useCanvas(
     setOperationsState(prev => prev.filter(op => op.id !== id));
   }, []);
 
+  const confirmOperation = useCallback((localId: string, confirmed: DrawingOperation) => {
+    setOperationsState(prev => {
+      if (!prev.some(op => op.id === localId)) {
+        return prev;
+      }
+      const rest = prev.filter(op => op.id !== localId && op.id !== confirmed.id);
+      return sortOperations([...rest, confirmed]);
+    });
+  }, []);
+
   const setOperations = useCallback((ops: DrawingOperation[]) => {
-    const sorted = [...ops].sort((a, b) => a.sequence - b.sequence);
-    setOperationsState(sorted);
+    setOperationsState(sortOperations(ops));
+  }, []);
+
+  const setPendingStroke = useCallback((stroke: StrokeOperation) => {
+    engineRef.current?.setPendingStroke(stroke);
+  }, []);
+
+  const appendPendingPoints = useCallback((strokeId: string, points: Point[]) => {
+    engineRef.current?.appendPendingPoints(strokeId, points);
+  }, []);
+
+  const removePendingStroke = useCallback((strokeId: string) => {
+    engineRef.current?.removePendingStroke(strokeId);
+  }, []);
+
+  const prunePendingStrokes = useCallback((activeUserIds: Set<string>) => {
+    engineRef.current?.prunePendingStrokes(activeUserIds);
+  }, []);
+
+  const appendClear = useCallback((): ClearOperation => {
+    const op: ClearOperation = {
+      id: generateId(),
+      type: 'clear',
+      userId,
+      timestamp: now(),
+      sequence: 0,
+      pending: true,
+    };
+    setOperationsState(prev => sortOperations([...prev, op]));
+    return op;
+  }, [userId]);
+
+  const appendLayerOperation = useCallback((change: LayerChange): LayerOperation => {
+    const op: LayerOperation = {
+      id: generateId(),
+      type: 'layer',
+      userId,
+      timestamp: now(),
+      sequence: 0,
+      change,
+      pending: true,
+    };
+    setOperationsState(prev => sortOperations([...prev, op]));
+    return op;
+  }, [userId]);
+
+  const setSnapshot = useCallback((snapshot: CanvasSnapshot | null) => {
+    const id = snapshot?.id ?? null;
+    if (id === snapshotIdRef.current) return;
+    snapshotIdRef.current = id;
+
+    if (!snapshot) {
+      setBaseLayers([DEFAULT_LAYER]);
+      setBakedSequence(0);
+      engineRef.current?.setSnapshot(null);
+      return;
+    }
+
+    setBaseLayers(baseLayersOf(snapshot));
+    setBakedSequence(snapshot.sequence);
+    loadRasters(snapshot).then(rasters => {
+      if (snapshotIdRef.current === id) {
+        engineRef.current?.setSnapshot(rasters, snapshot.sequence);
+      }
+    });
+  }, []);
+
+  const adoptSnapshot = useCallback((snapshot: CanvasSnapshot) => {
+    if (snapshot.id === snapshotIdRef.current) return;
+    snapshotIdRef.current = snapshot.id;
+
+    // Until the images are ready the operations keep drawing what they cover
+    loadRasters(snapshot).then(rasters => {
+      if (snapshotIdRef.current !== snapshot.id) return;
+      engineRef.current?.setSnapshot(rasters, snapshot.sequence);
+      setBaseLayers(baseLayersOf(snapshot));
+      setBakedSequence(snapshot.sequence);
+      setOperationsState(prev => prev.filter(op => op.pending || op.sequence > snapshot.sequence));
+    });
+  }, []);
+
+  const createSnapshot = useCallback(async (maxSequence: number) => {
+    // A later operation reaching into what the snapshot would bake couldn't
+    // be replayed over it; a later snapshot will cover both.
+    const current = operationsRef.current;
+    const baked = new Set(
+      current.filter(op => !op.pending && op.sequence <= maxSequence).map(op => operationKey(op))
+    );
+    const reachesBack = current.some(
+      op => (op.pending || op.sequence > maxSequence) && operationTargets(op).some(key => baked.has(key))
+    );
+    if (reachesBack) return null;
+
+    return engineRef.current?.renderSnapshot(maxSequence) ?? null;
   }, []);
 
   const clear = useCallback(() => {
+    showTextDraft(null);
+    setSelectedIds([]);
     setOperationsState([]);
-  }, []);
+  }, [showTextDraft]);
 
   const resize = useCallback((width: number, height: number) => {
-    engineRef.current?.resize(width, height);
+    const engine = engineRef.current;
+    if (!engine) return;
+    engine.resize(width, height);
+    setViewport(engine.getViewport());
+  }, []);
+
+  const setLogicalSize = useCallback((size: CanvasSize) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    engine.setLogicalSize(size);
+    setViewport(engine.getViewport());
+  }, []);
+
+  const toWorld = useCallback((x: number, y: number) => {
+    return engineRef.current?.toWorld(x, y) ?? { x, y };
+  }, []);
+
+  const zoomBy = useCallback((factor: number) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    const { width, height } = engine.getDimensions();
+    engine.zoomAt(factor, width / 2, height / 2);
+    setViewport(engine.getViewport());
+  }, []);
+
+  const zoomIn = useCallback(() => zoomBy(BUTTON_ZOOM_FACTOR), [zoomBy]);
+
+  const zoomOut = useCallback(() => zoomBy(1 / BUTTON_ZOOM_FACTOR), [zoomBy]);
+
+  const resetView = useCallback(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    engine.fitView();
+    setViewport(engine.getViewport());
   }, []);
 
   const getEngine = useCallback(() => engineRef.current, []);
@@ -167,15 +1133,45 @@ export function useCanvas(
   return {
     canvasRef,
     isDrawing,
+    isPanning,
+    panMode,
     operations,
     startDrawing,
     continueDrawing,
     endDrawing,
     addOperation,
+    appendOperations,
     removeOperation,
+    confirmOperation,
     setOperations,
+    setPendingStroke,
+    appendPendingPoints,
+    removePendingStroke,
+    prunePendingStrokes,
+    appendClear,
+    textDraft,
+    updateTextDraft,
+    commitTextDraft,
+    cancelTextDraft,
+    editTextAt,
+    selection: { ...selection, preview: selectionPreview, lasso },
+    deleteSelection,
+    restoreInk,
+    appendLayerOperation,
+    layers,
+    activeLayerId: activeLayer?.id ?? null,
+    setActiveLayerId,
+    setSnapshot,
+    adoptSnapshot,
+    createSnapshot,
     clear,
     resize,
+    setLogicalSize,
+    toWorld,
+    zoomIn,
+    zoomOut,
+    resetView,
+    viewport,
     getEngine,
     operationCount: operations.length,
   };
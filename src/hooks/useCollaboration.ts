@@ -1,10 +1,26 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { SyncService } from '@/lib/sync-service';
+import { createSyncTransport, type TransportKind } from '@/lib/sync-transport';
+import { createOutboxStore } from '@/lib/outbox';
 import type { 
   UserPresence, 
   StrokeOperation, 
+  ShapeOperation,
+  TextOperation,
+  TextEditOperation,
+  TransformOperation,
+  DeleteOperation,
+  ClearOperation,
+  LayerOperation,
+  LayerSnapshot,
   DrawingOperation,
   Point,
+  WSMessage,
+  UndoScope,
+  HistoryResult,
+  CanvasSnapshot,
+  RoomState,
+  LoadProgress,
 } from '@/types/canvas';
 import { USER_COLORS } from '@/types/canvas';
 import { now } from '@/lib/canvas-engine';
@@ -13,19 +29,38 @@ interface UseCollaborationOptions {
   roomId: string;
   userId: string;
   userName: string;
+  transport?: TransportKind;
+  undoScope?: UndoScope;
   onRemoteOperation?: (op: DrawingOperation) => void;
   onOperationDeleted?: (id: string) => void;
-  onStateSync?: (operations: DrawingOperation[]) => void;
+  onStateSync?: (state: RoomState) => void;
+  onLoadProgress?: (progress: LoadProgress) => void;
+  /** A newer snapshot was committed while connected. */
+  onSnapshot?: (snapshot: CanvasSnapshot) => void;
+  onRemoteStrokeMessage?: (message: WSMessage) => void;
 }
 
 interface UseCollaborationReturn {
   users: UserPresence[];
   isConnected: boolean;
-  commitStroke: (stroke: StrokeOperation) => Promise<void>;
-  commitClear: () => Promise<void>;
-  undoLast: () => Promise<string | null>;
-  redoLast: () => Promise<DrawingOperation | null>;
+  pendingCount: number;
+  broadcastStrokeStart: (stroke: StrokeOperation) => void;
+  broadcastStrokeMove: (strokeId: string, points: Point[]) => void;
+  broadcastStrokeEnd: (strokeId: string) => void;
+  broadcastStrokeCancel: (strokeId: string) => void;
+  commitStroke: (stroke: StrokeOperation) => Promise<StrokeOperation | null>;
+  commitShape: (shape: ShapeOperation) => Promise<ShapeOperation | null>;
+  commitText: (text: TextOperation) => Promise<TextOperation | null>;
+  commitTextEdit: (edit: TextEditOperation) => Promise<TextEditOperation | null>;
+  commitTransform: (transform: TransformOperation) => Promise<TransformOperation | null>;
+  commitDelete: (deletion: DeleteOperation) => Promise<DeleteOperation | null>;
+  commitClear: (clear: ClearOperation) => Promise<ClearOperation | null>;
+  commitLayer: (layer: LayerOperation) => Promise<LayerOperation | null>;
+  undoLast: () => Promise<HistoryResult<string>>;
+  redoLast: () => Promise<HistoryResult<DrawingOperation>>;
   updateCursor: (position: Point | null, isDrawing?: boolean) => void;
+  shouldSnapshot: () => boolean;
+  commitSnapshot: (sequence: number, layers: LayerSnapshot[]) => Promise<CanvasSnapshot | null>;
   localUser: UserPresence | null;
   lastSyncTime: number;
 }
@@ -35,25 +70,41 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
     roomId, 
     userId, 
     userName, 
+    transport = 'supabase',
+    undoScope = 'global',
     onRemoteOperation, 
     onOperationDeleted,
     onStateSync,
+    onLoadProgress,
+    onSnapshot,
+    onRemoteStrokeMessage,
   } = options;
 
   const [users, setUsers] = useState<UserPresence[]>([]);
   const [isConnected, setIsConnected] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
   const [localUser, setLocalUser] = useState<UserPresence | null>(null);
   const [lastSyncTime, setLastSyncTime] = useState<number>(Date.now());
   
   const syncServiceRef = useRef<SyncService | null>(null);
   const cursorThrottleRef = useRef<NodeJS.Timeout | null>(null);
+  const undoScopeRef = useRef<UndoScope>(undoScope);
 
   const userColor = USER_COLORS[
     Math.abs(userId.split('').reduce((a, b) => a + b.charCodeAt(0), 0)) % USER_COLORS.length
   ];
 
   useEffect(() => {
-    const syncService = new SyncService(userId, userName, userColor, roomId);
+    const syncTransport = createSyncTransport(transport);
+    const syncService = new SyncService(
+      syncTransport,
+      userId,
+      userName,
+      userColor,
+      roomId,
+      createOutboxStore()
+    );
+    syncService.setUndoScope(undoScopeRef.current);
     syncServiceRef.current = syncService;
 
     syncService.setOnOperationReceived((op) => {
@@ -66,14 +117,39 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
       onOperationDeleted?.(id);
     });
 
+    syncService.setOnStrokeMessage((message) => {
+      onRemoteStrokeMessage?.(message);
+    });
+
+    syncService.setOnConnectionChanged((connected) => {
+      setIsConnected(connected);
+    });
+
+    syncService.setOnOutboxChanged((count) => {
+      setPendingCount(count);
+    });
+
+    syncService.setOnResync((state) => {
+      setLastSyncTime(Date.now());
+      onStateSync?.(state);
+    });
+
+    syncService.setOnLoadProgress((progress) => {
+      onLoadProgress?.(progress);
+    });
+
+    syncService.setOnSnapshot((snapshot) => {
+      onSnapshot?.(snapshot);
+    });
+
     syncService.setOnPresenceChanged((presenceUsers) => {
       setUsers(presenceUsers);
     });
 
     syncService.connect()
-      .then((operations) => {
-        setIsConnected(true);
-        onStateSync?.(operations);
+      .then((state) => {
+        setIsConnected(syncService.getIsConnected());
+        onStateSync?.(state);
       })
       .catch(() => {
         setIsConnected(false);
@@ -89,40 +165,119 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
     });
 
     return () => {
-      syncService.disconnect();
+      syncService.disconnect().finally(() => syncTransport.close?.());
       syncServiceRef.current = null;
     };
-  }, [userId, userName, userColor, roomId]);
+  }, [userId, userName, userColor, roomId, transport]);
+
+  useEffect(() => {
+    undoScopeRef.current = undoScope;
+    syncServiceRef.current?.setUndoScope(undoScope);
+  }, [undoScope]);
+
+  const broadcastStrokeStart = useCallback((stroke: StrokeOperation) => {
+    syncServiceRef.current?.broadcastStrokeStart(stroke);
+  }, []);
+
+  const broadcastStrokeMove = useCallback((strokeId: string, points: Point[]) => {
+    syncServiceRef.current?.broadcastStrokeMove(strokeId, points);
+  }, []);
+
+  const broadcastStrokeEnd = useCallback((strokeId: string) => {
+    syncServiceRef.current?.broadcastStrokeEnd(strokeId);
+  }, []);
+
+  const broadcastStrokeCancel = useCallback((strokeId: string) => {
+    syncServiceRef.current?.broadcastStrokeCancel(strokeId);
+  }, []);
 
-  const commitStroke = useCallback(async (stroke: StrokeOperation) => {
+  const commitStroke = useCallback(async (stroke: StrokeOperation): Promise<StrokeOperation | null> => {
     const syncService = syncServiceRef.current;
-    if (!syncService) return;
+    if (!syncService) return null;
 
-    await syncService.commitStroke(stroke);
+    const confirmed = await syncService.commitStroke(stroke);
+    if (confirmed) setLastSyncTime(Date.now());
+    return confirmed;
   }, []);
 
-  const commitClear = useCallback(async () => {
+  const commitShape = useCallback(async (shape: ShapeOperation): Promise<ShapeOperation | null> => {
     const syncService = syncServiceRef.current;
-    if (!syncService) return;
+    if (!syncService) return null;
+
+    const confirmed = await syncService.commitShape(shape);
+    if (confirmed) setLastSyncTime(Date.now());
+    return confirmed;
+  }, []);
+
+  const commitText = useCallback(async (text: TextOperation): Promise<TextOperation | null> => {
+    const syncService = syncServiceRef.current;
+    if (!syncService) return null;
 
-    await syncService.commitClear();
+    const confirmed = await syncService.commitText(text);
+    if (confirmed) setLastSyncTime(Date.now());
+    return confirmed;
   }, []);
 
-  const undoLast = useCallback(async (): Promise<string | null> => {
+  const commitTextEdit = useCallback(async (edit: TextEditOperation): Promise<TextEditOperation | null> => {
     const syncService = syncServiceRef.current;
     if (!syncService) return null;
 
+    const confirmed = await syncService.commitTextEdit(edit);
+    if (confirmed) setLastSyncTime(Date.now());
+    return confirmed;
+  }, []);
+
+  const commitTransform = useCallback(async (transform: TransformOperation): Promise<TransformOperation | null> => {
+    const syncService = syncServiceRef.current;
+    if (!syncService) return null;
+
+    const confirmed = await syncService.commitTransform(transform);
+    if (confirmed) setLastSyncTime(Date.now());
+    return confirmed;
+  }, []);
+
+  const commitDelete = useCallback(async (deletion: DeleteOperation): Promise<DeleteOperation | null> => {
+    const syncService = syncServiceRef.current;
+    if (!syncService) return null;
+
+    const confirmed = await syncService.commitDelete(deletion);
+    if (confirmed) setLastSyncTime(Date.now());
+    return confirmed;
+  }, []);
+
+  const commitClear = useCallback(async (clear: ClearOperation): Promise<ClearOperation | null> => {
+    const syncService = syncServiceRef.current;
+    if (!syncService) return null;
+
+    const confirmed = await syncService.commitClear(clear);
+    if (confirmed) setLastSyncTime(Date.now());
+    return confirmed;
+  }, []);
+
+  const commitLayer = useCallback(async (layer: LayerOperation): Promise<LayerOperation | null> => {
+    const syncService = syncServiceRef.current;
+    if (!syncService) return null;
+
+    const confirmed = await syncService.commitLayer(layer);
+    if (confirmed) setLastSyncTime(Date.now());
+    return confirmed;
+  }, []);
+
+  const undoLast = useCallback(async (): Promise<HistoryResult<string>> => {
+    const syncService = syncServiceRef.current;
+    if (!syncService) return { status: 'empty' };
+
     const result = await syncService.undoLast();
-    if (result) setLastSyncTime(Date.now());
+    if (result.status === 'applied') setLastSyncTime(Date.now());
     return result;
   }, []);
 
-  const redoLast = useCallback(async (): Promise<DrawingOperation | null> => {
+  const redoLast = useCallback(async (): Promise<HistoryResult<DrawingOperation>> => {
     const syncService = syncServiceRef.current;
-    if (!syncService) return null;
+    if (!syncService) return { status: 'empty' };
 
     const result = await syncService.redoLast();
-    if (result) setLastSyncTime(Date.now());
+    if (result.status === 'applied') setLastSyncTime(Date.now());
     return result;
   }, []);
 
@@ -139,14 +294,41 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
     }, 50);
   }, []);
 
+  const shouldSnapshot = useCallback((): boolean => {
+    return syncServiceRef.current?.shouldSnapshot() ?? false;
+  }, []);
+
+  const commitSnapshot = useCallback(async (
+    sequence: number,
+    layers: LayerSnapshot[]
+  ): Promise<CanvasSnapshot | null> => {
+    const syncService = syncServiceRef.current;
+    if (!syncService) return null;
+
+    return syncService.commitSnapshot(sequence, layers);
+  }, []);
+
   return {
     users,
     isConnected,
+    pendingCount,
+    broadcastStrokeStart,
+    broadcastStrokeMove,
+    broadcastStrokeEnd,
+    broadcastStrokeCancel,
     commitStroke,
+    commitShape,
+    commitText,
+    commitTextEdit,
+    commitTransform,
+    commitDelete,
     commitClear,
+    commitLayer,
     undoLast,
     redoLast,
     updateCursor,
+    shouldSnapshot,
+    commitSnapshot,
     localUser,
     lastSyncTime,
   };
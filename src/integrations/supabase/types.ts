@@ -64,6 +64,7 @@ export type Database = {
           id: string
           operation_data: Json
           original_id: string
+          position: number
           room_id: string
         }
         Insert: {
@@ -71,6 +72,7 @@ export type Database = {
           id?: string
           operation_data: Json
           original_id: string
+          position?: number
           room_id: string
         }
         Update: {
@@ -78,6 +80,7 @@ export type Database = {
           id?: string
           operation_data?: Json
           original_id?: string
+          position?: number
           room_id?: string
         }
         Relationships: [
@@ -93,30 +96,134 @@ export type Database = {
       rooms: {
         Row: {
           created_at: string
+          height: number
           id: string
           name: string
           updated_at: string
+          width: number
         }
         Insert: {
           created_at?: string
+          height?: number
           id?: string
           name?: string
           updated_at?: string
+          width?: number
         }
         Update: {
           created_at?: string
+          height?: number
           id?: string
           name?: string
           updated_at?: string
+          width?: number
         }
         Relationships: []
       }
+      snapshots: {
+        Row: {
+          created_at: string
+          created_by: string
+          height: number
+          id: string
+          image: string | null
+          layers: Json | null
+          room_id: string
+          sequence: number
+          width: number
+          x: number
+          y: number
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          height?: number
+          id?: string
+          image?: string | null
+          layers?: Json | null
+          room_id: string
+          sequence: number
+          width?: number
+          x?: number
+          y?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          height?: number
+          id?: string
+          image?: string | null
+          layers?: Json | null
+          room_id?: string
+          sequence?: number
+          width?: number
+          x?: number
+          y?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "snapshots_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      commit_operation: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+          p_user_name: string
+          p_user_color: string
+          p_type: string
+          p_data: Json
+        }
+        Returns: {
+          created_at: string
+          data: Json
+          id: string
+          room_id: string
+          sequence: number
+          type: string
+          user_color: string
+          user_id: string
+          user_name: string
+        }[]
+      }
+      redo_last: {
+        Args: { p_room_id: string; p_user_id?: string }
+        Returns: {
+          created_at: string
+          data: Json
+          id: string
+          room_id: string
+          sequence: number
+          type: string
+          user_color: string
+          user_id: string
+          user_name: string
+        }[]
+      }
+      undo_last: {
+        Args: { p_room_id: string; p_user_id?: string }
+        Returns: {
+          created_at: string
+          data: Json
+          id: string
+          room_id: string
+          sequence: number
+          type: string
+          user_color: string
+          user_id: string
+          user_name: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
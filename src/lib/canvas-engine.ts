@@ -1,4 +1,76 @@
-import type { Point, StrokeOperation, DrawingOperation } from '@/types/canvas';
+import type {
+  Point,
+  StrokeOperation,
+  ShapeOperation,
+  TextOperation,
+  TextEditOperation,
+  DrawingOperation,
+  DrawableOperation,
+  CanvasSize,
+  ViewportTransform,
+  Rect,
+  Layer,
+  LayerSnapshot,
+  Matrix,
+  TransformPreview,
+} from '@/types/canvas';
+import { DEFAULT_CANVAS_SIZE, DEFAULT_LAYER } from '@/types/canvas';
+import { Quadtree, intersects } from './spatial-index';
+import { layerOf, resolveLayers } from './layers';
+import { arrowHead, getShapeBounds, triangleVertices } from './shapes';
+import { simulatePressure, strokeOutline } from './stroke-outline';
+import { curveOutline, sampleCurves, type CurveOutline } from './curve-fit';
+import { applyTextEdit, layoutText, resolveTextEdits, textFont, type TextLayout } from './texts';
+import {
+  IDENTITY,
+  multiply,
+  operationKey,
+  resolveTransforms,
+  sameMatrix,
+  transformRect,
+  type ResolvedTransforms,
+} from './transforms';
+
+const CANVAS_BACKGROUND = '#f8fafc';
+const GRID_COLOR = '#e2e8f0';
+const FRAME_COLOR = '#cbd5e1';
+const GRID_SIZE = 20;
+// Grid lines closer than this many CSS pixels are thinned out
+const MIN_GRID_SPACING = 8;
+const MAX_SNAPSHOT_PIXELS = 4096;
+// Opacity of operations the object eraser has touched but not yet deleted
+const ERASING_ALPHA = 0.25;
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** A detached canvas: a DOM element on the main thread, an OffscreenCanvas in a worker. */
+function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof document === 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function getContext2D(canvas: AnyCanvas, settings?: CanvasRenderingContext2DSettings): Context2D | null {
+  return (canvas as HTMLCanvasElement).getContext('2d', settings);
+}
+
+async function canvasToDataURL(canvas: AnyCanvas, type: string, quality?: number): Promise<string> {
+  if ('toDataURL' in canvas) return canvas.toDataURL(type, quality);
+
+  const blob = await canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
 
 export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -32,7 +104,10 @@ function catmullRomSpline(
       (2 * p0.y - 5 * p1.y + 4 * p2.y - p3.y) * t2 +
       (-p0.y + 3 * p1.y - 3 * p2.y + p3.y) * t3);
 
-  return { x, y, timestamp: p1.timestamp };
+  if (p1.pressure === undefined || p2.pressure === undefined) {
+    return { x, y, timestamp: p1.timestamp };
+  }
+  return { x, y, pressure: p1.pressure + (p2.pressure - p1.pressure) * t, timestamp: p1.timestamp };
 }
 
 export function smoothPoints(points: Point[], segments: number = 8): Point[] {
@@ -79,93 +154,649 @@ export function filterNearbyPoints(points: Point[], minDistance: number): Point[
   return filtered;
 }
 
-export class CanvasEngine {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private offscreenCanvas: HTMLCanvasElement;
-  private offscreenCtx: CanvasRenderingContext2D;
+/**
+ * Render order: confirmed operations by server sequence, then pending local
+ * operations in the order they were drawn. Every client converges on the
+ * same order once its pending operations are confirmed.
+ */
+export function compareOperations(a: DrawingOperation, b: DrawingOperation): number {
+  const aPending = Boolean(a.pending);
+  const bPending = Boolean(b.pending);
+  if (aPending !== bPending) {
+    return aPending ? 1 : -1;
+  }
+  if (aPending) {
+    return 0;
+  }
+  return a.sequence - b.sequence;
+}
+
+export function sortOperations(operations: DrawingOperation[]): DrawingOperation[] {
+  return [...operations].sort(compareOperations);
+}
+
+/** Largest uniform scale that fits `logical` inside `viewport`, centered. */
+export function fitToViewport(logical: CanvasSize, viewport: CanvasSize): ViewportTransform {
+  const scale = Math.min(viewport.width / logical.width, viewport.height / logical.height);
+  return {
+    scale,
+    offsetX: (viewport.width - logical.width * scale) / 2,
+    offsetY: (viewport.height - logical.height * scale) / 2,
+  };
+}
+
+export function panViewport(viewport: ViewportTransform, dx: number, dy: number): ViewportTransform {
+  return { ...viewport, offsetX: viewport.offsetX + dx, offsetY: viewport.offsetY + dy };
+}
+
+/** Zooms by `factor`, keeping the world point under screen (x, y) in place. */
+export function zoomViewport(
+  viewport: ViewportTransform,
+  factor: number,
+  x: number,
+  y: number
+): ViewportTransform {
+  const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, viewport.scale * factor));
+  const world = screenToWorld(viewport, x, y);
+  return {
+    scale,
+    offsetX: x - world.x * scale,
+    offsetY: y - world.y * scale,
+  };
+}
+
+/** Converts CSS pixels relative to the canvas element into world coordinates. */
+export function screenToWorld(viewport: ViewportTransform, x: number, y: number): { x: number; y: number } {
+  const { scale, offsetX, offsetY } = viewport;
+  return { x: (x - offsetX) / scale, y: (y - offsetY) / scale };
+}
+
+/** The part of the world visible through a `size` viewport. */
+export function visibleWorldRect(viewport: ViewportTransform, size: CanvasSize): Rect {
+  const { scale, offsetX, offsetY } = viewport;
+  return {
+    x: -offsetX / scale,
+    y: -offsetY / scale,
+    width: size.width / scale,
+    height: size.height / scale,
+  };
+}
+
+/**
+ * World position of a pointer event on `canvas`. Pens also report pressure
+ * and tilt; mice and fingers get simulated pressure when drawn instead.
+ */
+export function eventToWorld(
+  canvas: HTMLCanvasElement,
+  viewport: ViewportTransform,
+  e: PointerEvent | MouseEvent
+): Point {
+  const rect = canvas.getBoundingClientRect();
+  const point: Point = {
+    ...screenToWorld(viewport, e.clientX - rect.left, e.clientY - rect.top),
+    timestamp: now(),
+  };
+
+  if ('pointerType' in e && e.pointerType === 'pen') {
+    point.pressure = e.pressure;
+    if (e.tiltX || e.tiltY) {
+      point.tiltX = e.tiltX;
+      point.tiltY = e.tiltY;
+    }
+  }
+  return point;
+}
+
+function pathBounds(points: { x: number; y: number }[], width: number): Rect | null {
+  if (points.length === 0) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const point of points) {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  }
+
+  const pad = width / 2;
+  return {
+    x: minX - pad,
+    y: minY - pad,
+    width: maxX - minX + width,
+    height: maxY - minY + width,
+  };
+}
+
+function hasCurves(stroke: StrokeOperation): boolean {
+  return !!stroke.controls && stroke.controls.length > 0;
+}
+
+/**
+ * World-space bounds of a stroke, including its width. A fitted curve stays
+ * within its control points, so those are included too.
+ */
+export function getStrokeBounds(stroke: StrokeOperation): Rect | null {
+  const points = hasCurves(stroke) ? [...stroke.points, ...stroke.controls] : stroke.points;
+  return pathBounds(points, stroke.width);
+}
+
+/**
+ * The centerline actually drawn for a stroke, before any transform: its
+ * fitted curves if it has them, or else a spline through its points. Brush
+ * points carry pressure, real or simulated, for the width along the way.
+ */
+export function getStrokePath(stroke: StrokeOperation): Point[] {
+  const points = stroke.tool === 'brush' ? simulatePressure(stroke.points) : stroke.points;
+  if (hasCurves(stroke)) return sampleCurves(points, stroke.controls);
+  return points.length > 3 ? smoothPoints(points, 4) : points;
+}
+
+/** What later operations did to earlier ones: text edits, transforms and deletes. */
+interface Revisions extends ResolvedTransforms {
+  edits: Map<string, TextEditOperation>;
+}
+
+function resolveRevisions(operations: DrawingOperation[]): Revisions {
+  return { edits: resolveTextEdits(operations), ...resolveTransforms(operations) };
+}
+
+/**
+ * Geometry of a committed operation: a stroke's smoothed centerline (and,
+ * for the brush, its variable-width outline, kept as `curves` once the
+ * stroke is fitted), or a text's wrapped lines with its latest edit
+ * (`edit`) applied, drawn through `matrix` if it was transformed. Bounds are in world space either way.
+ */
+interface CachedGeometry {
+  bounds: Rect;
+  path?: Point[];
+  outline?: { x: number; y: number }[];
+  curves?: CurveOutline;
+  text?: TextOperation;
+  layout?: TextLayout;
+  edit?: TextEditOperation;
+  matrix?: Matrix;
+}
+
+function computeGeometry(op: DrawableOperation, revisions: Revisions): CachedGeometry | null {
+  const key = operationKey(op);
+  let geometry: CachedGeometry | null = null;
+  switch (op.type) {
+    case 'stroke': {
+      if (op.tool === 'brush' && hasCurves(op)) {
+        const curves = curveOutline(simulatePressure(op.points), op.controls, op.width);
+        const bounds = pathBounds([...curves.points, ...curves.controls], 0);
+        geometry = bounds ? { curves, bounds } : null;
+        break;
+      }
+      const path = getStrokePath(op);
+      if (op.tool === 'brush') {
+        const outline = strokeOutline(path, op.width);
+        const bounds = pathBounds(outline, 0);
+        geometry = bounds ? { path, outline, bounds } : null;
+      } else {
+        const bounds = pathBounds(path, op.width);
+        geometry = bounds ? { path, bounds } : null;
+      }
+      break;
+    }
+    case 'shape':
+      geometry = { bounds: getShapeBounds(op) };
+      break;
+    case 'text': {
+      const edit = revisions.edits.get(key);
+      const text = applyTextEdit(op, edit);
+      const layout = layoutText(text);
+      geometry = { bounds: layout.bounds, text, layout, edit };
+      break;
+    }
+  }
+
+  const matrix = revisions.matrices.get(key);
+  if (!geometry || !matrix) return geometry;
+  return { ...geometry, bounds: transformRect(matrix, geometry.bounds), matrix };
+}
+
+/** True if `cached` already reflects the latest edit and transform of `op`. */
+function isCurrent(cached: CachedGeometry, op: DrawableOperation, revisions: Revisions): boolean {
+  const key = operationKey(op);
+  return cached.edit === revisions.edits.get(key) && sameMatrix(cached.matrix, revisions.matrices.get(key));
+}
+
+function isDrawable(op: DrawingOperation): op is DrawableOperation {
+  return op.type === 'stroke' || op.type === 'shape' || op.type === 'text';
+}
+
+/** A transparent, screen-sized canvas holding one layer's committed operations. */
+interface Surface {
+  canvas: AnyCanvas;
+  ctx: Context2D;
+}
+
+/** A snapshot layer with its image decoded, ready to draw. */
+export interface LayerRaster extends Layer {
+  image: CanvasImageSource | null;
+  bounds: Rect;
+}
+
+export function unionRects(a: Rect | null, b: Rect | null): Rect | null {
+  if (!a) return b;
+  if (!b) return a;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+/**
+ * What `useCanvas` drives: `CanvasEngine` in-thread, or `WorkerCanvasEngine`
+ * proxying to one in a worker. Pixel output is async so either can serve it.
+ */
+export interface CanvasRenderer {
+  resize(width: number, height: number): void;
+  setLogicalSize(size: CanvasSize): void;
+  getViewport(): ViewportTransform;
+  fitView(): void;
+  panBy(dx: number, dy: number): void;
+  zoomAt(factor: number, x: number, y: number): void;
+  toWorld(x: number, y: number): { x: number; y: number };
+  getDimensions(): { width: number; height: number };
+  getEventCoordinates(e: PointerEvent | MouseEvent): Point;
+  setOperations(operations: DrawingOperation[]): void;
+  setCurrentStroke(stroke: StrokeOperation | null): void;
+  setCurrentShape(shape: ShapeOperation | null): void;
+  setEditingText(textId: string | null): void;
+  setTransformPreview(preview: TransformPreview | null): void;
+  setErasing(targetIds: string[] | null): void;
+  setPendingStroke(stroke: StrokeOperation): void;
+  appendPendingPoints(strokeId: string, points: Point[]): void;
+  removePendingStroke(strokeId: string): void;
+  prunePendingStrokes(activeUserIds: Set<string>): void;
+  /** Operations at or below `sequence` are drawn from the layers and otherwise ignored. */
+  setSnapshot(layers: LayerRaster[] | null, sequence?: number): void;
+  renderSnapshot(maxSequence: number): Promise<LayerSnapshot[]>;
+  toDataURL(type?: string, quality?: number): Promise<string>;
+  destroy(): void;
+}
+
+export class CanvasEngine implements CanvasRenderer {
+  private canvas: AnyCanvas;
+  private ctx: Context2D;
+  private surfaces: Map<string, Surface> = new Map();
+  // Where a layer is composited with the live strokes drawn on it
+  private scratch: Surface;
   private dpr: number;
+  private width = 800;
+  private height = 600;
   private animationFrameId: number | null = null;
   private needsRedraw: boolean = false;
   private operations: DrawingOperation[] = [];
   private currentStroke: StrokeOperation | null = null;
+  private currentShape: ShapeOperation | null = null;
+  // Left off the canvas while the inline editor shows it instead
+  private editingTextId: string | null = null;
+  // Selected operations being dragged, drawn live rather than from the cache
+  private transformPreview: { targets: Set<string>; matrix: Matrix } | null = null;
+  // Operations the object eraser has touched, drawn faded until it lets go
+  private erasing: Set<string> | null = null;
+  private pendingStrokes: Map<string, StrokeOperation> = new Map();
+  // Committed strokes and shapes never change, so their smoothed path, bounds
+  // and index entry are computed once per id; again when edited or transformed.
+  private geometryCache: Map<string, CachedGeometry> = new Map();
+  private spatialIndex = new Quadtree();
+  private operationIndex: Map<string, number> = new Map();
+  private lastClearIndex = -1;
+  private layers: Layer[] = [DEFAULT_LAYER];
+  // Committed operations rasterized onto the layer surfaces for the current
+  // viewport, in order. New operations are drawn onto them as they arrive;
+  // anything else rebuilds them.
+  private cachedIds: string[] = [];
+  private cacheValid = false;
+  private snapshotLayers: LayerRaster[] = [];
+  private snapshotSequence = 0;
+  // The layer stack the operations apply to: the snapshot's, or just the default
+  private baseLayers: Layer[] = [DEFAULT_LAYER];
+  private logicalSize: CanvasSize = DEFAULT_CANVAS_SIZE;
+  private viewport: ViewportTransform = { scale: 1, offsetX: 0, offsetY: 0 };
+  // Set once the user pans or zooms; until then resizes keep the frame fitted.
+  private viewportMoved = false;
 
-  constructor(canvas: HTMLCanvasElement) {
+  /** Runs on the main thread or, given an OffscreenCanvas and its `dpr`, in a worker. */
+  constructor(canvas: AnyCanvas, dpr: number = window.devicePixelRatio || 1) {
     this.canvas = canvas;
-    const ctx = canvas.getContext('2d', { alpha: false });
+    const ctx = getContext2D(canvas, { alpha: false });
     if (!ctx) throw new Error('Failed to get 2D context');
     this.ctx = ctx;
 
-    this.offscreenCanvas = document.createElement('canvas');
-    const offscreenCtx = this.offscreenCanvas.getContext('2d', { alpha: false });
-    if (!offscreenCtx) throw new Error('Failed to get offscreen 2D context');
-    this.offscreenCtx = offscreenCtx;
-
-    this.dpr = window.devicePixelRatio || 1;
+    this.dpr = dpr;
+    this.scratch = this.createSurface();
 
     this.startRenderLoop();
   }
 
   resize(width: number, height: number): void {
-    this.canvas.style.width = `${width}px`;
-    this.canvas.style.height = `${height}px`;
+    if ('style' in this.canvas) {
+      this.canvas.style.width = `${width}px`;
+      this.canvas.style.height = `${height}px`;
+    }
+    this.width = width;
+    this.height = height;
 
     this.canvas.width = width * this.dpr;
     this.canvas.height = height * this.dpr;
 
-    this.offscreenCanvas.width = width * this.dpr;
-    this.offscreenCanvas.height = height * this.dpr;
+    for (const surface of [this.scratch, ...this.surfaces.values()]) {
+      surface.canvas.width = width * this.dpr;
+      surface.canvas.height = height * this.dpr;
+    }
 
     this.ctx.scale(this.dpr, this.dpr);
-    this.offscreenCtx.scale(this.dpr, this.dpr);
 
-    this.canvas.dataset.width = String(width);
-    this.canvas.dataset.height = String(height);
+    if (this.viewportMoved) {
+      this.invalidateCache();
+    } else {
+      this.fitView();
+    }
+  }
+
+  /** Sets the room's home frame and fits it into the viewport. */
+  setLogicalSize(size: CanvasSize): void {
+    this.logicalSize = size;
+    this.fitView();
+  }
 
-    this.requestRedraw();
+  getLogicalSize(): CanvasSize {
+    return this.logicalSize;
+  }
+
+  getViewport(): ViewportTransform {
+    return this.viewport;
+  }
+
+  /** Resets pan and zoom so the room's home frame fills the viewport. */
+  fitView(): void {
+    this.viewport = fitToViewport(this.logicalSize, this.getDimensions());
+    this.viewportMoved = false;
+    this.invalidateCache();
+  }
+
+  panBy(dx: number, dy: number): void {
+    this.setViewport(panViewport(this.viewport, dx, dy));
+  }
+
+  /** Zooms by `factor`, keeping the world point under screen (x, y) in place. */
+  zoomAt(factor: number, x: number, y: number): void {
+    this.setViewport(zoomViewport(this.viewport, factor, x, y));
+  }
+
+  /** Applies a transform computed elsewhere, e.g. by a worker's main-thread proxy. */
+  setViewport(viewport: ViewportTransform): void {
+    this.viewport = viewport;
+    this.viewportMoved = true;
+    this.invalidateCache();
+  }
+
+  toWorld(x: number, y: number): { x: number; y: number } {
+    return screenToWorld(this.viewport, x, y);
+  }
+
+  /** The part of the world currently on screen. */
+  getVisibleRect(): Rect {
+    return visibleWorldRect(this.viewport, this.getDimensions());
   }
 
   getDimensions(): { width: number; height: number } {
-    return {
-      width: parseInt(this.canvas.dataset.width || '800', 10),
-      height: parseInt(this.canvas.dataset.height || '600', 10),
-    };
+    return { width: this.width, height: this.height };
   }
 
   setOperations(operations: DrawingOperation[]): void {
-    this.operations = [...operations];
-    this.requestRedraw();
+    this.operations = sortOperations(operations.filter(op => !this.isBaked(op)));
+    this.reindex();
   }
 
   addOperation(operation: DrawingOperation): void {
-    this.operations.push(operation);
-    this.requestRedraw();
+    if (this.isBaked(operation)) return;
+    this.operations = sortOperations([...this.operations, operation]);
+    this.reindex();
+  }
+
+  /** Whether `op` is already in the snapshot's pixels. */
+  private isBaked(op: DrawingOperation): boolean {
+    return !op.pending && op.sequence <= this.snapshotSequence;
   }
 
   removeLastOperation(): DrawingOperation | undefined {
     const removed = this.operations.pop();
-    this.requestRedraw();
+    this.reindex();
     return removed;
   }
 
   clearOperations(): void {
     this.operations = [];
-    this.requestRedraw();
+    this.reindex();
+  }
+
+  /** Syncs the layer stack, geometry cache and spatial index with `operations`. */
+  private reindex(): void {
+    const present = new Set<string>();
+    this.operationIndex.clear();
+    this.lastClearIndex = -1;
+    this.layers = resolveLayers(this.baseLayers, this.operations);
+    const revisions = resolveRevisions(this.operations);
+
+    this.operations.forEach((op, index) => {
+      this.operationIndex.set(op.id, index);
+      if (op.type === 'clear') {
+        this.lastClearIndex = index;
+        return;
+      }
+      // Deleted operations drop out of the cache and index until undone
+      if (!isDrawable(op) || revisions.deleted.has(operationKey(op))) return;
+
+      present.add(op.id);
+      const cached = this.geometryCache.get(op.id);
+      if (cached) {
+        if (isCurrent(cached, op, revisions)) return;
+        this.spatialIndex.remove(op.id);
+      }
+
+      const geometry = computeGeometry(op, revisions);
+      if (!geometry) return;
+      this.geometryCache.set(op.id, geometry);
+      this.spatialIndex.insert(op.id, geometry.bounds);
+    });
+
+    for (const id of this.geometryCache.keys()) {
+      if (!present.has(id)) {
+        this.geometryCache.delete(id);
+        this.spatialIndex.remove(id);
+      }
+    }
+
+    // A confirmed operation replaces its pending copy in place, so it still
+    // matches the cache by client id.
+    const cacheIntact = this.cachedIds.length <= this.operations.length
+      && this.cachedIds.every((id, i) => {
+        const op = this.operations[i];
+        return op.id === id || op.clientId === id;
+      });
+    if (cacheIntact) {
+      this.requestRedraw();
+    } else {
+      this.invalidateCache();
+    }
   }
 
   getOperations(): DrawingOperation[] {
     return [...this.operations];
   }
 
+  /** The layer stack, bottom first, as of the snapshot and operations. */
+  getLayers(): Layer[] {
+    return this.layers;
+  }
+
   setCurrentStroke(stroke: StrokeOperation | null): void {
     this.currentStroke = stroke;
     this.requestRedraw();
   }
 
+  /** The shape being dragged out locally, drawn as a rubber band until committed. */
+  setCurrentShape(shape: ShapeOperation | null): void {
+    this.currentShape = shape;
+    this.requestRedraw();
+  }
+
+  /** Hides a text, by client id, while it is open in the inline editor. */
+  setEditingText(textId: string | null): void {
+    if (textId === this.editingTextId) return;
+    this.editingTextId = textId;
+    this.invalidateCache();
+  }
+
+  /**
+   * Draws the targets through `preview.matrix` on top of their layers while
+   * the selection tool drags them; the cache is rebuilt without them only
+   * when the set of targets changes.
+   */
+  setTransformPreview(preview: TransformPreview | null): void {
+    const previous = this.transformPreview?.targets;
+    const targets = preview ? new Set(preview.targetIds) : null;
+    this.transformPreview = targets ? { targets, matrix: preview.matrix } : null;
+
+    const sameTargets = previous && targets
+      ? previous.size === targets.size && [...targets].every(id => previous.has(id))
+      : previous === targets;
+    if (sameTargets) {
+      this.requestRedraw();
+    } else {
+      this.invalidateCache();
+    }
+  }
+
+  /** Fades the operations the object eraser has touched so far, by client id. */
+  setErasing(targetIds: string[] | null): void {
+    this.erasing = targetIds && targetIds.length > 0 ? new Set(targetIds) : null;
+    this.invalidateCache();
+  }
+
+  setPendingStroke(stroke: StrokeOperation): void {
+    this.pendingStrokes.set(stroke.id, stroke);
+    this.requestRedraw();
+  }
+
+  appendPendingPoints(strokeId: string, points: Point[]): void {
+    const stroke = this.pendingStrokes.get(strokeId);
+    if (!stroke) return;
+
+    this.pendingStrokes.set(strokeId, {
+      ...stroke,
+      points: [...stroke.points, ...points],
+    });
+    this.requestRedraw();
+  }
+
+  removePendingStroke(strokeId: string): void {
+    if (this.pendingStrokes.delete(strokeId)) {
+      this.requestRedraw();
+    }
+  }
+
+  prunePendingStrokes(activeUserIds: Set<string>): void {
+    for (const [id, stroke] of this.pendingStrokes) {
+      if (!activeUserIds.has(stroke.userId)) {
+        this.removePendingStroke(id);
+      }
+    }
+  }
+
+  /** Layer stack and per-layer base images for everything up to the room's latest snapshot. */
+  setSnapshot(layers: LayerRaster[] | null, sequence = 0): void {
+    this.snapshotLayers = layers ?? [];
+    this.snapshotSequence = layers ? sequence : 0;
+    this.baseLayers = layers
+      ? layers.map(({ id, name, visible, locked }) => ({ id, name, visible, locked }))
+      : [DEFAULT_LAYER];
+    this.operations = this.operations.filter(op => !this.isBaked(op));
+    this.cacheValid = false;
+    this.reindex();
+  }
+
+  /**
+   * Renders the snapshot base plus confirmed operations up to `maxSequence`,
+   * one transparent image per layer covering that layer's strokes.
+   */
+  renderSnapshot(maxSequence: number): Promise<LayerSnapshot[]> {
+    const included = this.operations.filter(op => !op.pending && op.sequence <= maxSequence);
+    const layers = resolveLayers(this.baseLayers, included);
+    // Edits and transforms as of `maxSequence`, which may predate ones already on screen
+    const revisions = resolveRevisions(included);
+    const kept = included.filter(op => !isDrawable(op) || !revisions.deleted.has(operationKey(op)));
+    const geometryOf = (op: DrawableOperation) => {
+      const cached = this.geometryCache.get(op.id);
+      return cached && isCurrent(cached, op, revisions) ? cached : computeGeometry(op, revisions);
+    };
+    return Promise.all(layers.map(layer => this.renderLayerSnapshot(layer, kept, geometryOf)));
+  }
+
+  /** Rasterizes one layer, downscaled if it would exceed MAX_SNAPSHOT_PIXELS on a side. */
+  private async renderLayerSnapshot(
+    layer: Layer,
+    included: DrawingOperation[],
+    geometryOf: (op: DrawableOperation) => CachedGeometry | null
+  ): Promise<LayerSnapshot> {
+    const { id, name, visible, locked } = layer;
+    const operations = included.filter(
+      op => op.type === 'clear' || (isDrawable(op) && layerOf(op) === id)
+    );
+    const raster = this.snapshotLayers.find(l => l.id === id && l.image) ?? null;
+
+    let area: Rect | null = raster?.bounds ?? null;
+    for (const op of operations) {
+      if (isDrawable(op)) area = unionRects(area, geometryOf(op)?.bounds ?? null);
+    }
+    if (!area) {
+      return { id, name, visible, locked, image: null, x: 0, y: 0, width: 0, height: 0 };
+    }
+
+    const x = Math.floor(area.x);
+    const y = Math.floor(area.y);
+    const bounds: Rect = {
+      x,
+      y,
+      width: Math.max(1, Math.ceil(area.x + area.width) - x),
+      height: Math.max(1, Math.ceil(area.y + area.height) - y),
+    };
+    const pixelScale = Math.min(1, MAX_SNAPSHOT_PIXELS / Math.max(bounds.width, bounds.height));
+
+    const canvas = createCanvas(
+      Math.ceil(bounds.width * pixelScale),
+      Math.ceil(bounds.height * pixelScale)
+    );
+    const ctx = getContext2D(canvas);
+    if (!ctx) throw new Error('Failed to get snapshot 2D context');
+
+    ctx.setTransform(pixelScale, 0, 0, pixelScale, -bounds.x * pixelScale, -bounds.y * pixelScale);
+    this.drawCommitted(ctx, bounds, operations, raster, geometryOf);
+
+    return { id, name, visible, locked, image: await canvasToDataURL(canvas, 'image/png'), ...bounds };
+  }
+
   requestRedraw(): void {
     this.needsRedraw = true;
   }
 
+  private invalidateCache(): void {
+    this.cacheValid = false;
+    this.requestRedraw();
+  }
+
   private startRenderLoop(): void {
     const loop = () => {
       if (this.needsRedraw) {
@@ -183,80 +814,327 @@ export class CanvasEngine {
     }
   }
 
-  private render(): void {
-    const { width, height } = this.getDimensions();
+  /**
+   * Draws one frame immediately; normally driven by the animation loop.
+   * Committed operations come from the cached layer surfaces; only
+   * in-progress strokes and shapes, and operations being dragged or erased,
+   * are drawn from scratch, each composited within its own layer.
+   */
+  render(): void {
+    this.updateCache();
 
-    this.offscreenCtx.fillStyle = '#f8fafc';
-    this.offscreenCtx.fillRect(0, 0, width, height);
+    const ctx = this.ctx;
+    this.applyViewport(ctx);
+    this.drawBase(ctx, this.getVisibleRect());
 
-    this.drawGrid(this.offscreenCtx, width, height);
+    const live: DrawableOperation[] = [...this.pendingStrokes.values()];
+    if (this.currentStroke && this.currentStroke.points.length > 0) {
+      live.push(this.currentStroke);
+    }
+    if (this.currentShape) {
+      live.push(this.currentShape);
+    }
+    const preview = this.transformPreview;
+    const erasing = this.erasing;
+    if (preview || erasing) {
+      for (const op of this.operations.slice(this.lastClearIndex + 1)) {
+        if (!isDrawable(op) || !this.geometryCache.has(op.id)) continue;
+        const key = operationKey(op);
+        if (preview?.targets.has(key) || erasing?.has(key)) live.push(op);
+      }
+    }
 
-    for (const op of this.operations) {
-      if (op.type === 'stroke') {
-        this.drawStroke(this.offscreenCtx, op);
-      } else if (op.type === 'clear') {
-        this.offscreenCtx.fillStyle = '#f8fafc';
-        this.offscreenCtx.fillRect(0, 0, width, height);
-        this.drawGrid(this.offscreenCtx, width, height);
+    for (const layer of this.layers) {
+      const surface = this.surfaces.get(layer.id);
+      if (!layer.visible || !surface) continue;
+
+      let source = surface.canvas;
+      const drawn = live.filter(op => layerOf(op) === layer.id);
+      if (drawn.length > 0) {
+        const scratch = this.scratch.ctx;
+        this.clearSurface(this.scratch);
+        scratch.drawImage(surface.canvas, 0, 0);
+        this.applyViewport(scratch);
+        for (const op of drawn) {
+          const cached = this.geometryCache.get(op.id);
+          const key = operationKey(op);
+          const dragged = preview?.targets.has(key);
+          scratch.globalAlpha = erasing?.has(key) ? ERASING_ALPHA : 1;
+          this.drawOperation(
+            scratch,
+            op,
+            cached,
+            dragged ? multiply(preview.matrix, cached?.matrix ?? IDENTITY) : cached?.matrix
+          );
+        }
+        scratch.globalAlpha = 1;
+        source = this.scratch.canvas;
       }
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.drawImage(source, 0, 0);
     }
 
-    if (this.currentStroke && this.currentStroke.points.length > 0) {
-      this.drawStroke(this.offscreenCtx, this.currentStroke);
+    ctx.setTransform(this.dpr, 0, 0, this.dpr, 0, 0);
+  }
+
+  private applyViewport(ctx: Context2D): void {
+    const { scale, offsetX, offsetY } = this.viewport;
+    ctx.setTransform(
+      this.dpr * scale, 0, 0, this.dpr * scale,
+      this.dpr * offsetX, this.dpr * offsetY
+    );
+  }
+
+  private createSurface(): Surface {
+    const canvas = createCanvas(this.width * this.dpr, this.height * this.dpr);
+    const ctx = getContext2D(canvas);
+    if (!ctx) throw new Error('Failed to get layer 2D context');
+    return { canvas, ctx };
+  }
+
+  private clearSurface({ canvas, ctx }: Surface): void {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+  }
+
+  /**
+   * Rebuilds the layer surfaces if needed, else draws just the new operations
+   * onto them. Creating or deleting a layer and editing, transforming or
+   * deleting earlier operations rebuild; other layer changes only affect
+   * compositing.
+   */
+  private updateCache(): void {
+    const area = this.getVisibleRect();
+    const added = this.operations.slice(this.cachedIds.length);
+    const rebuild = added.some(op => op.type === 'text-edit'
+      || op.type === 'transform'
+      || op.type === 'delete'
+      || (op.type === 'layer' && (op.change.action === 'create' || op.change.action === 'delete')));
+
+    if (!this.cacheValid || rebuild) {
+      this.drawLayers(area);
+      this.cachedIds = this.operations.map(op => op.id);
+      this.cacheValid = true;
+      return;
     }
 
-    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
-    this.ctx.drawImage(this.offscreenCanvas, 0, 0);
-    this.ctx.setTransform(this.dpr, 0, 0, this.dpr, 0, 0);
+    for (const op of added) {
+      if (op.type === 'clear') {
+        this.surfaces.forEach(surface => this.clearSurface(surface));
+      } else if (isDrawable(op)) {
+        const cached = this.geometryCache.get(op.id);
+        const surface = this.surfaces.get(layerOf(op));
+        if (cached && surface && !this.isHidden(op) && intersects(cached.bounds, area)) {
+          this.applyViewport(surface.ctx);
+          this.drawOperation(surface.ctx, op, cached);
+        }
+      }
+      this.cachedIds.push(op.id);
+    }
   }
 
-  private drawGrid(ctx: CanvasRenderingContext2D, width: number, height: number): void {
-    const gridSize = 20;
-    ctx.strokeStyle = '#e2e8f0';
-    ctx.lineWidth = 0.5;
+  /**
+   * Redraws every layer surface over `area`. Only operations after the last
+   * clear can be visible, and the index narrows those to the ones on screen.
+   */
+  private drawLayers(area: Rect): void {
+    const ids = new Set(this.layers.map(layer => layer.id));
+    for (const id of this.surfaces.keys()) {
+      if (!ids.has(id)) this.surfaces.delete(id);
+    }
+
+    for (const layer of this.layers) {
+      let surface = this.surfaces.get(layer.id);
+      if (!surface) {
+        surface = this.createSurface();
+        this.surfaces.set(layer.id, surface);
+      }
+      this.clearSurface(surface);
+      this.applyViewport(surface.ctx);
+
+      const raster = this.lastClearIndex === -1
+        ? this.snapshotLayers.find(l => l.id === layer.id)
+        : undefined;
+      if (raster?.image) {
+        const { x, y, width, height } = raster.bounds;
+        surface.ctx.drawImage(raster.image, x, y, width, height);
+      }
+    }
+
+    const visible = this.spatialIndex
+      .query(area)
+      .map(id => this.operationIndex.get(id)!)
+      .filter(index => index > this.lastClearIndex)
+      .sort((a, b) => a - b);
+
+    for (const index of visible) {
+      const op = this.operations[index] as DrawableOperation;
+      const surface = this.surfaces.get(layerOf(op));
+      if (surface && !this.isHidden(op)) {
+        this.drawOperation(surface.ctx, op, this.geometryCache.get(op.id));
+      }
+    }
+  }
+
+  /**
+   * Draws one layer's snapshot raster and `operations` over `area` on a
+   * transparent canvas; clears erase back to transparent.
+   */
+  private drawCommitted(
+    ctx: Context2D,
+    area: Rect,
+    operations: DrawingOperation[],
+    raster: LayerRaster | null,
+    geometryOf: (op: DrawableOperation) => CachedGeometry | null
+  ): void {
+    ctx.clearRect(area.x, area.y, area.width, area.height);
+
+    if (raster?.image) {
+      const { x, y, width, height } = raster.bounds;
+      ctx.drawImage(raster.image, x, y, width, height);
+    }
+
+    for (const op of operations) {
+      if (isDrawable(op)) {
+        this.drawOperation(ctx, op, geometryOf(op) ?? undefined);
+      } else if (op.type === 'clear') {
+        ctx.clearRect(area.x, area.y, area.width, area.height);
+      }
+    }
+  }
+
+  private drawBase(ctx: Context2D, area: Rect): void {
+    ctx.fillStyle = CANVAS_BACKGROUND;
+    ctx.fillRect(area.x, area.y, area.width, area.height);
+    this.drawGrid(ctx, area);
+
+    ctx.strokeStyle = FRAME_COLOR;
+    ctx.lineWidth = 1 / this.viewport.scale;
+    ctx.strokeRect(0, 0, this.logicalSize.width, this.logicalSize.height);
+  }
+
+  /** World-aligned grid, thinned out when zoomed far enough out to crowd. */
+  private drawGrid(ctx: Context2D, area: Rect): void {
+    const { scale } = this.viewport;
+    let step = GRID_SIZE;
+    while (step * scale < MIN_GRID_SPACING) step *= 5;
+
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.lineWidth = 0.5 / scale;
+
+    const right = area.x + area.width;
+    const bottom = area.y + area.height;
 
     ctx.beginPath();
-    for (let x = gridSize; x < width; x += gridSize) {
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, height);
+    for (let x = Math.floor(area.x / step) * step; x < right; x += step) {
+      ctx.moveTo(x, area.y);
+      ctx.lineTo(x, bottom);
     }
-    for (let y = gridSize; y < height; y += gridSize) {
-      ctx.moveTo(0, y);
-      ctx.lineTo(width, y);
+    for (let y = Math.floor(area.y / step) * step; y < bottom; y += step) {
+      ctx.moveTo(area.x, y);
+      ctx.lineTo(right, y);
     }
     ctx.stroke();
   }
 
-  private drawStroke(ctx: CanvasRenderingContext2D, stroke: StrokeOperation): void {
+  /** Left off the layer surfaces: open in the text editor, dragged, or being erased. */
+  private isHidden(op: DrawableOperation): boolean {
+    const key = operationKey(op);
+    return key === this.editingTextId
+      || Boolean(this.transformPreview?.targets.has(key))
+      || Boolean(this.erasing?.has(key));
+  }
+
+  /** Draws `op` through `matrix`, by default the one it was transformed by. */
+  private drawOperation(
+    ctx: Context2D,
+    op: DrawableOperation,
+    cached?: CachedGeometry,
+    matrix: Matrix | undefined = cached?.matrix
+  ): void {
+    if (matrix) {
+      ctx.save();
+      ctx.transform(...matrix);
+    }
+    switch (op.type) {
+      case 'stroke':
+        this.drawStroke(ctx, op, cached);
+        break;
+      case 'shape':
+        this.drawShape(ctx, op);
+        break;
+      case 'text':
+        this.drawText(ctx, cached?.text ?? op, cached?.layout);
+        break;
+    }
+    if (matrix) ctx.restore();
+  }
+
+  /**
+   * Brush strokes fill their pressure outline, itself curves once fitted;
+   * eraser strokes keep a constant width, along their fitted curves once
+   * committed. `geometry` is the cached outline or path, if there is one.
+   */
+  private drawStroke(ctx: Context2D, stroke: StrokeOperation, geometry?: CachedGeometry): void {
     const points = stroke.points;
     if (points.length === 0) return;
 
     ctx.save();
 
+    if (stroke.tool === 'brush') {
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = stroke.color;
+      ctx.beginPath();
+      const curves = geometry?.curves
+        ?? (hasCurves(stroke) ? curveOutline(simulatePressure(points), stroke.controls, stroke.width) : null);
+      if (curves) {
+        ctx.moveTo(curves.points[0].x, curves.points[0].y);
+        for (let i = 1; i < curves.points.length; i++) {
+          const c1 = curves.controls[i * 2 - 2];
+          const c2 = curves.controls[i * 2 - 1];
+          ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, curves.points[i].x, curves.points[i].y);
+        }
+      } else {
+        const polygon = geometry?.outline ?? strokeOutline(geometry?.path ?? getStrokePath(stroke), stroke.width);
+        ctx.moveTo(polygon[0].x, polygon[0].y);
+        for (let i = 1; i < polygon.length; i++) {
+          ctx.lineTo(polygon[i].x, polygon[i].y);
+        }
+      }
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+      return;
+    }
+
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
     ctx.lineWidth = stroke.width;
-
-    if (stroke.tool === 'eraser') {
-      ctx.globalCompositeOperation = 'destination-out';
-      ctx.strokeStyle = 'rgba(0,0,0,1)';
-    } else {
-      ctx.globalCompositeOperation = 'source-over';
-      ctx.strokeStyle = stroke.color;
-    }
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.strokeStyle = 'rgba(0,0,0,1)';
+    ctx.fillStyle = 'rgba(0,0,0,1)';
 
     ctx.beginPath();
 
     if (points.length === 1) {
       ctx.arc(points[0].x, points[0].y, stroke.width / 2, 0, Math.PI * 2);
       ctx.fill();
+    } else if (hasCurves(stroke)) {
+      const { controls } = stroke;
+      ctx.moveTo(points[0].x, points[0].y);
+      for (let i = 1; i < points.length; i++) {
+        const c1 = controls[i * 2 - 2];
+        const c2 = controls[i * 2 - 1];
+        ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, points[i].x, points[i].y);
+      }
+      ctx.stroke();
     } else {
-      const smoothed = points.length > 3 ? smoothPoints(points, 4) : points;
-      
-      ctx.moveTo(smoothed[0].x, smoothed[0].y);
+      const path = geometry?.path ?? getStrokePath(stroke);
+      ctx.moveTo(path[0].x, path[0].y);
       
-      for (let i = 1; i < smoothed.length; i++) {
-        ctx.lineTo(smoothed[i].x, smoothed[i].y);
+      for (let i = 1; i < path.length; i++) {
+        ctx.lineTo(path[i].x, path[i].y);
       }
       ctx.stroke();
     }
@@ -264,26 +1142,82 @@ export class CanvasEngine {
     ctx.restore();
   }
 
-  getEventCoordinates(e: MouseEvent | TouchEvent): Point {
-    const rect = this.canvas.getBoundingClientRect();
-    let clientX: number, clientY: number;
+  private drawShape(ctx: Context2D, shape: ShapeOperation): void {
+    const { start, end } = shape;
 
-    if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else {
-      clientX = e.clientX;
-      clientY = e.clientY;
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = shape.width;
+    ctx.strokeStyle = shape.color;
+    ctx.beginPath();
+
+    switch (shape.shape) {
+      case 'rectangle':
+        ctx.rect(
+          Math.min(start.x, end.x),
+          Math.min(start.y, end.y),
+          Math.abs(end.x - start.x),
+          Math.abs(end.y - start.y)
+        );
+        break;
+      case 'ellipse':
+        ctx.ellipse(
+          (start.x + end.x) / 2,
+          (start.y + end.y) / 2,
+          Math.abs(end.x - start.x) / 2,
+          Math.abs(end.y - start.y) / 2,
+          0,
+          0,
+          Math.PI * 2
+        );
+        break;
+      case 'line':
+      case 'arrow':
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(end.x, end.y);
+        if (shape.shape === 'arrow') {
+          const [left, right] = arrowHead(shape);
+          ctx.moveTo(left.x, left.y);
+          ctx.lineTo(end.x, end.y);
+          ctx.lineTo(right.x, right.y);
+        }
+        break;
+      case 'triangle': {
+        const [a, b, c] = triangleVertices(shape);
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.lineTo(c.x, c.y);
+        ctx.closePath();
+        break;
+      }
     }
 
-    return {
-      x: clientX - rect.left,
-      y: clientY - rect.top,
-      timestamp: now(),
-    };
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private drawText(ctx: Context2D, text: TextOperation, layout: TextLayout = layoutText(text)): void {
+    // Centers each line in its line box the way the editor's CSS line-height does
+    const leading = (layout.lineHeight - text.fontSize) / 2;
+
+    ctx.save();
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = text.color;
+    ctx.font = textFont(text.fontSize);
+    ctx.textBaseline = 'top';
+    layout.lines.forEach((line, i) => {
+      ctx.fillText(line, text.x, text.y + i * layout.lineHeight + leading);
+    });
+    ctx.restore();
+  }
+
+  /** Main thread only: a worker's canvas has no element to hit-test. */
+  getEventCoordinates(e: PointerEvent | MouseEvent): Point {
+    return eventToWorld(this.canvas as HTMLCanvasElement, this.viewport, e);
   }
 
-  toDataURL(type: string = 'image/png', quality?: number): string {
-    return this.canvas.toDataURL(type, quality);
+  toDataURL(type: string = 'image/png', quality?: number): Promise<string> {
+    return canvasToDataURL(this.canvas, type, quality);
   }
 }
@@ -0,0 +1,372 @@
+import type { Point } from '@/types/canvas';
+import { pressureWidth } from './stroke-outline';
+
+type XY = { x: number; y: number };
+
+export interface FittedCurves {
+  /** Where consecutive segments meet, from the first input point to the last. */
+  points: Point[];
+  /** Two control points per segment, between `points[i]` and `points[i + 1]`. */
+  controls: XY[];
+}
+
+/** A closed outline of cubic segments, shaped like `FittedCurves`; the last point is the first. */
+export interface CurveOutline {
+  points: XY[];
+  controls: XY[];
+}
+
+// Newton-Raphson passes before giving up on a segment and splitting it
+const MAX_ITERATIONS = 4;
+// Errors up to this multiple of the tolerance are worth reparameterizing
+const REPARAMETERIZE_FACTOR = 4;
+// World units per sample when turning curves back into a path
+const SAMPLE_STEP = 2;
+const MAX_SEGMENT_SAMPLES = 32;
+// How far a segment may turn, in radians, before it is halved so its offset
+// edges stay close to a true parallel curve
+const MAX_OFFSET_TURN = Math.PI / 8;
+const MAX_OFFSET_SPLITS = 4;
+// Control point distance of a quarter circle drawn as a cubic, per unit radius
+const QUARTER_ARC = 0.5523;
+
+const add = (a: XY, b: XY): XY => ({ x: a.x + b.x, y: a.y + b.y });
+const sub = (a: XY, b: XY): XY => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (a: XY, s: number): XY => ({ x: a.x * s, y: a.y * s });
+const dot = (a: XY, b: XY): number => a.x * b.x + a.y * b.y;
+const length = (a: XY): number => Math.hypot(a.x, a.y);
+
+function normalize(a: XY): XY {
+  const l = length(a);
+  return l === 0 ? a : scale(a, 1 / l);
+}
+
+function evaluate(p0: XY, p1: XY, p2: XY, p3: XY, t: number): XY {
+  const mt = 1 - t;
+  const b0 = mt * mt * mt;
+  const b1 = 3 * mt * mt * t;
+  const b2 = 3 * mt * t * t;
+  const b3 = t * t * t;
+  return {
+    x: b0 * p0.x + b1 * p1.x + b2 * p2.x + b3 * p3.x,
+    y: b0 * p0.y + b1 * p1.y + b2 * p2.y + b3 * p3.y,
+  };
+}
+
+function derivative(p0: XY, p1: XY, p2: XY, p3: XY, t: number): XY {
+  const mt = 1 - t;
+  return add(
+    add(scale(sub(p1, p0), 3 * mt * mt), scale(sub(p2, p1), 6 * mt * t)),
+    scale(sub(p3, p2), 3 * t * t)
+  );
+}
+
+function secondDerivative(p0: XY, p1: XY, p2: XY, p3: XY, t: number): XY {
+  const a = add(sub(p2, scale(p1, 2)), p0);
+  const b = add(sub(p3, scale(p2, 2)), p1);
+  return add(scale(a, 6 * (1 - t)), scale(b, 6 * t));
+}
+
+type Bezier = [XY, XY, XY, XY];
+
+/** Parameters for `points[first..last]` proportional to distance along them. */
+function chordLengths(points: Point[], first: number, last: number): number[] {
+  const u = [0];
+  for (let i = first + 1; i <= last; i++) {
+    u.push(u[u.length - 1] + length(sub(points[i], points[i - 1])));
+  }
+  const total = u[u.length - 1];
+  return u.map(value => (total === 0 ? 0 : value / total));
+}
+
+/**
+ * Least-squares Bézier through `points[first..last]` at parameters `u`,
+ * leaving the ends along the given tangents. Falls back to control points
+ * a third of the way along when the fit degenerates.
+ */
+function generateBezier(points: Point[], first: number, last: number, u: number[], tan1: XY, tan2: XY): Bezier {
+  const start = points[first];
+  const end = points[last];
+  let c00 = 0;
+  let c01 = 0;
+  let c11 = 0;
+  let x0 = 0;
+  let x1 = 0;
+
+  u.forEach((t, i) => {
+    const mt = 1 - t;
+    const a0 = scale(tan1, 3 * mt * mt * t);
+    const a1 = scale(tan2, 3 * mt * t * t);
+    const onLine = add(scale(start, mt * mt * mt + 3 * mt * mt * t), scale(end, 3 * mt * t * t + t * t * t));
+    const rest = sub(points[first + i], onLine);
+    c00 += dot(a0, a0);
+    c01 += dot(a0, a1);
+    c11 += dot(a1, a1);
+    x0 += dot(a0, rest);
+    x1 += dot(a1, rest);
+  });
+
+  const det = c00 * c11 - c01 * c01;
+  let alpha1 = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alpha2 = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+  const chord = length(sub(end, start));
+  if (alpha1 < chord * 1e-6 || alpha2 < chord * 1e-6) {
+    alpha1 = alpha2 = chord / 3;
+  }
+
+  return [start, add(start, scale(tan1, alpha1)), add(end, scale(tan2, alpha2)), end];
+}
+
+/** One Newton-Raphson step towards the parameter of each point's nearest spot on the curve. */
+function reparameterize(points: Point[], first: number, u: number[], bezier: Bezier): number[] {
+  return u.map((t, i) => {
+    const offset = sub(evaluate(...bezier, t), points[first + i]);
+    const d1 = derivative(...bezier, t);
+    const d2 = secondDerivative(...bezier, t);
+    const denominator = dot(d1, d1) + dot(offset, d2);
+    return denominator === 0 ? t : Math.max(0, Math.min(1, t - dot(offset, d1) / denominator));
+  });
+}
+
+/**
+ * The worst deviation of `points[first..last]` from the curve, counting the
+ * change in half-width where pressure differs from the linear blend the
+ * curve will be drawn with, and where it occurs.
+ */
+function maxError(
+  points: Point[],
+  first: number,
+  last: number,
+  bezier: Bezier,
+  u: number[],
+  width: number
+): { error: number; split: number } {
+  const a = points[first].pressure;
+  const b = points[last].pressure;
+  let error = 0;
+  let split = Math.floor((first + last) / 2);
+
+  for (let i = first + 1; i < last; i++) {
+    const t = u[i - first];
+    const point = points[i];
+    let deviation = length(sub(evaluate(...bezier, t), point));
+    if (a !== undefined && b !== undefined && point.pressure !== undefined) {
+      deviation += Math.abs(pressureWidth(width, point.pressure) - pressureWidth(width, a + (b - a) * t)) / 2;
+    }
+    if (deviation > error) {
+      error = deviation;
+      split = i;
+    }
+  }
+  return { error, split };
+}
+
+function fitSpan(
+  points: Point[],
+  first: number,
+  last: number,
+  tan1: XY,
+  tan2: XY,
+  tolerance: number,
+  width: number,
+  fitted: FittedCurves
+): void {
+  const accept = ([, c1, c2]: Bezier) => {
+    fitted.controls.push(c1, c2);
+    fitted.points.push(points[last]);
+  };
+
+  if (last - first === 1) {
+    const third = length(sub(points[last], points[first])) / 3;
+    accept([points[first], add(points[first], scale(tan1, third)), add(points[last], scale(tan2, third)), points[last]]);
+    return;
+  }
+
+  let u = chordLengths(points, first, last);
+  let bezier = generateBezier(points, first, last, u, tan1, tan2);
+  let { error, split } = maxError(points, first, last, bezier, u, width);
+  if (error <= tolerance) {
+    accept(bezier);
+    return;
+  }
+
+  if (error <= tolerance * REPARAMETERIZE_FACTOR) {
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      u = reparameterize(points, first, u, bezier);
+      bezier = generateBezier(points, first, last, u, tan1, tan2);
+      ({ error, split } = maxError(points, first, last, bezier, u, width));
+      if (error <= tolerance) {
+        accept(bezier);
+        return;
+      }
+    }
+  }
+
+  // Split where the fit is worst, keeping the curve smooth across the join
+  const center = normalize(sub(points[split - 1], points[split + 1]));
+  fitSpan(points, first, split, tan1, center, tolerance, width, fitted);
+  fitSpan(points, split, last, scale(center, -1), tan2, tolerance, width, fitted);
+}
+
+/**
+ * Fits cubic Bézier segments through `points` (Schneider's algorithm): each
+ * segment is a least-squares fit, split at its worst point until no point is
+ * further than `tolerance` from the curve. `width` weighs pressure changes
+ * like `simplifyPoints` does. Segments join smoothly, and the points where
+ * they meet keep their pressure and timestamp.
+ */
+export function fitCurves(points: Point[], tolerance: number, width = 0): FittedCurves {
+  const unique = points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+  const fitted: FittedCurves = { points: unique.slice(0, 1), controls: [] };
+  if (unique.length < 2) return fitted;
+
+  const last = unique.length - 1;
+  const tan1 = normalize(sub(unique[1], unique[0]));
+  const tan2 = normalize(sub(unique[last - 1], unique[last]));
+  fitSpan(unique, 0, last, tan1, tan2, tolerance, width, fitted);
+  return fitted;
+}
+
+/**
+ * A path along fitted curves, about every couple of world units, with
+ * pressure blended linearly across each segment.
+ */
+export function sampleCurves(points: Point[], controls: XY[]): Point[] {
+  if (points.length < 2) return points;
+
+  const path: Point[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    const c1 = controls[i * 2];
+    const c2 = controls[i * 2 + 1];
+    const hull = length(sub(c1, start)) + length(sub(c2, c1)) + length(sub(end, c2));
+    const samples = Math.max(1, Math.min(MAX_SEGMENT_SAMPLES, Math.ceil(hull / SAMPLE_STEP)));
+
+    for (let j = 0; j < samples; j++) {
+      const t = j / samples;
+      const point: Point = { ...evaluate(start, c1, c2, end, t), timestamp: start.timestamp };
+      if (start.pressure !== undefined && end.pressure !== undefined) {
+        point.pressure = start.pressure + (end.pressure - start.pressure) * t;
+      }
+      path.push(point);
+    }
+  }
+  path.push(points[points.length - 1]);
+  return path;
+}
+
+/** The halves of a curve either side of `t` (de Casteljau). */
+function splitBezier([p0, p1, p2, p3]: Bezier, t: number): [Bezier, Bezier] {
+  const lerp = (a: XY, b: XY) => add(a, scale(sub(b, a), t));
+  const a = lerp(p0, p1);
+  const b = lerp(p1, p2);
+  const c = lerp(p2, p3);
+  const d = lerp(a, b);
+  const e = lerp(b, c);
+  const mid = lerp(d, e);
+  return [[p0, a, d, mid], [mid, e, c, p3]];
+}
+
+/** Unit direction of the curve at `t`, along the chord where a control point sits on its end. */
+function tangentAt(bezier: Bezier, t: number): XY {
+  const d = derivative(...bezier, t);
+  return normalize(length(d) > 1e-9 ? d : sub(bezier[3], bezier[0]));
+}
+
+const leftNormal = (tangent: XY): XY => ({ x: -tangent.y, y: tangent.x });
+
+interface OutlinePiece {
+  bezier: Bezier;
+  /** Half-widths at either end, blended linearly between. */
+  r0: number;
+  r1: number;
+}
+
+function turnOf(bezier: Bezier): number {
+  const angle = (a: XY, b: XY) => Math.acos(Math.max(-1, Math.min(1, dot(a, b))));
+  const middle = tangentAt(bezier, 0.5);
+  return Math.max(angle(tangentAt(bezier, 0), middle), angle(middle, tangentAt(bezier, 1)));
+}
+
+function addPiece(piece: OutlinePiece, depth: number, pieces: OutlinePiece[]): void {
+  if (depth >= MAX_OFFSET_SPLITS || turnOf(piece.bezier) <= MAX_OFFSET_TURN) {
+    pieces.push(piece);
+    return;
+  }
+  const [first, second] = splitBezier(piece.bezier, 0.5);
+  const middle = (piece.r0 + piece.r1) / 2;
+  addPiece({ bezier: first, r0: piece.r0, r1: middle }, depth + 1, pieces);
+  addPiece({ bezier: second, r0: middle, r1: piece.r1 }, depth + 1, pieces);
+}
+
+/**
+ * One edge of a piece: the control polygon pushed out along the normals at
+ * its ends, `side` 1 for the left and -1 for the right.
+ */
+function offsetPiece({ bezier: [p0, c1, c2, p3], r0, r1 }: OutlinePiece, side: number): Bezier {
+  const n0 = scale(leftNormal(tangentAt([p0, c1, c2, p3], 0)), side);
+  const n1 = scale(leftNormal(tangentAt([p0, c1, c2, p3], 1)), side);
+  return [
+    add(p0, scale(n0, r0)),
+    add(c1, scale(n0, r0 + (r1 - r0) / 3)),
+    add(c2, scale(n1, r0 + ((r1 - r0) * 2) / 3)),
+    add(p3, scale(n1, r1)),
+  ];
+}
+
+/**
+ * The filled outline of a brush stroke along fitted curves, kept as curves:
+ * each segment's edges are its control polygon offset by the pressure width
+ * (halving segments that turn too far for that to hold), joined by round
+ * caps. Pressure blends linearly across each segment, as in `sampleCurves`.
+ */
+export function curveOutline(points: Point[], controls: XY[], width: number): CurveOutline {
+  const pieces: OutlinePiece[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const bezier: Bezier = [points[i], controls[i * 2], controls[i * 2 + 1], points[i + 1]];
+    const r0 = pressureWidth(width, points[i].pressure) / 2;
+    const r1 = pressureWidth(width, points[i + 1].pressure) / 2;
+    addPiece({ bezier, r0, r1 }, 0, pieces);
+  }
+  if (pieces.length === 0) return { points: [], controls: [] };
+
+  const outline: CurveOutline = { points: [offsetPiece(pieces[0], 1)[0]], controls: [] };
+  const curveTo = (c1: XY, c2: XY, end: XY) => {
+    outline.controls.push(c1, c2);
+    outline.points.push(end);
+  };
+  // Edges of neighbouring pieces meet where their normals agree; bridge any gap
+  const lineTo = (end: XY) => {
+    const from = outline.points[outline.points.length - 1];
+    if (length(sub(end, from)) > 1e-6) curveTo(from, end, end);
+  };
+  // Half circle from the left edge round to the right, heading along `tangent`
+  const cap = (center: XY, tangent: XY, radius: number) => {
+    const normal = leftNormal(tangent);
+    const k = radius * QUARTER_ARC;
+    const left = add(center, scale(normal, radius));
+    const tip = add(center, scale(tangent, radius));
+    const right = sub(center, scale(normal, radius));
+    curveTo(add(left, scale(tangent, k)), add(tip, scale(normal, k)), tip);
+    curveTo(sub(tip, scale(normal, k)), add(right, scale(tangent, k)), right);
+  };
+
+  for (const piece of pieces) {
+    const [q0, q1, q2, q3] = offsetPiece(piece, 1);
+    lineTo(q0);
+    curveTo(q1, q2, q3);
+  }
+  const last = pieces[pieces.length - 1];
+  cap(last.bezier[3], tangentAt(last.bezier, 1), last.r1);
+
+  for (let i = pieces.length - 1; i >= 0; i--) {
+    const [q0, q1, q2, q3] = offsetPiece(pieces[i], -1);
+    lineTo(q3);
+    curveTo(q2, q1, q0);
+  }
+  const first = pieces[0];
+  cap(first.bezier[0], scale(tangentAt(first.bezier, 0), -1), first.r0);
+
+  return outline;
+}
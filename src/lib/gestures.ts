@@ -0,0 +1,144 @@
+import type { InputMode } from '@/types/canvas';
+
+export type PointerKind = 'mouse' | 'pen' | 'touch';
+
+/** What a pointer that went down is used for until it lifts. */
+export type PointerRole = 'draw' | 'pan' | 'ignore';
+
+/** Screen-space centroid and spread of the pointers driving a pan gesture. */
+export interface PanGesture {
+  x: number;
+  y: number;
+  distance: number | null;
+}
+
+interface TrackedPointer {
+  kind: PointerKind;
+  role: PointerRole;
+  x: number;
+  y: number;
+  origin: { x: number; y: number };
+  downTime: number;
+}
+
+// Two fingers that land and lift within this many ms without moving are a tap
+const TAP_DURATION = 300;
+// Screen pixels a tapping finger may drift
+const TAP_SLOP = 10;
+// A palm often stays down, or lands, just after the pen lifts
+const PEN_GRACE_PERIOD = 500;
+
+/**
+ * Tracks the pointers that are down by id and decides what each one does:
+ * draw, drive a pan/pinch, or nothing. Touches are ignored while a pen is
+ * down (and shortly after), so a resting palm never draws; two fingers pan
+ * and zoom, and a quick two-finger tap is reported separately. In 'pen'
+ * mode a single finger pans too and only pens and mice draw.
+ */
+export class GestureTracker {
+  private pointers = new Map<number, TrackedPointer>();
+  private mode: InputMode;
+  private lastPenTime = -Infinity;
+  // Start time of a possible two-finger tap, or null once it can't be one
+  private tapStart: number | null = null;
+  private onTwoFingerTap: (() => void) | null = null;
+
+  constructor(mode: InputMode = 'auto') {
+    this.mode = mode;
+  }
+
+  setMode(mode: InputMode) {
+    this.mode = mode;
+  }
+
+  setOnTwoFingerTap(callback: (() => void) | null) {
+    this.onTwoFingerTap = callback;
+  }
+
+  /**
+   * Registers a pointer going down at screen (x, y) and returns its role.
+   * `forcePan` is for input that pans whatever it is, like the middle button.
+   */
+  down(id: number, kind: PointerKind, x: number, y: number, time: number, forcePan = false): PointerRole {
+    const role = forcePan ? 'pan' : this.roleFor(kind, time);
+    this.pointers.set(id, { kind, role, x, y, origin: { x, y }, downTime: time });
+
+    if (kind === 'pen') {
+      this.lastPenTime = time;
+      // Whatever the palm was doing is abandoned
+      this.pointers.forEach(pointer => {
+        if (pointer.kind === 'touch') pointer.role = 'ignore';
+      });
+    }
+    if (kind === 'touch' && role === 'pan' && this.mode === 'auto') {
+      // The first finger of a two-finger gesture was drawing until now
+      this.pointers.forEach(pointer => {
+        if (pointer.kind === 'touch' && pointer.role === 'draw') pointer.role = 'pan';
+      });
+    }
+    this.updateTap(kind, time);
+    return role;
+  }
+
+  move(id: number, x: number, y: number) {
+    const pointer = this.pointers.get(id);
+    if (!pointer) return;
+    pointer.x = x;
+    pointer.y = y;
+    if (Math.hypot(x - pointer.origin.x, y - pointer.origin.y) > TAP_SLOP) this.tapStart = null;
+  }
+
+  /** Forgets a lifted pointer; a cancelled one never completes a tap. */
+  up(id: number, time: number, cancelled = false) {
+    const pointer = this.pointers.get(id);
+    if (!pointer) return;
+    this.pointers.delete(id);
+    if (pointer.kind === 'pen') this.lastPenTime = time;
+    if (cancelled) this.tapStart = null;
+
+    const touchesLeft = [...this.pointers.values()].some(p => p.kind === 'touch');
+    if (pointer.kind === 'touch' && !touchesLeft && this.tapStart !== null) {
+      if (time - this.tapStart <= TAP_DURATION) this.onTwoFingerTap?.();
+      this.tapStart = null;
+    }
+  }
+
+  roleOf(id: number): PointerRole | null {
+    return this.pointers.get(id)?.role ?? null;
+  }
+
+  /** The gesture of the first two panning pointers, or null if none are down. */
+  gesture(): PanGesture | null {
+    const [a, b] = [...this.pointers.values()].filter(pointer => pointer.role === 'pan');
+    if (!a) return null;
+    if (!b) return { x: a.x, y: a.y, distance: null };
+    return {
+      x: (a.x + b.x) / 2,
+      y: (a.y + b.y) / 2,
+      distance: Math.hypot(a.x - b.x, a.y - b.y),
+    };
+  }
+
+  private roleFor(kind: PointerKind, time: number): PointerRole {
+    if (kind !== 'touch') return 'draw';
+
+    const penDown = [...this.pointers.values()].some(pointer => pointer.kind === 'pen');
+    if (penDown || time - this.lastPenTime < PEN_GRACE_PERIOD) return 'ignore';
+    if (this.mode === 'pen') return 'pan';
+
+    const otherTouches = [...this.pointers.values()].filter(
+      pointer => pointer.kind === 'touch' && pointer.role !== 'ignore'
+    );
+    return otherTouches.length > 0 ? 'pan' : 'draw';
+  }
+
+  private updateTap(kind: PointerKind, time: number) {
+    const touches = [...this.pointers.values()].filter(pointer => pointer.kind === 'touch');
+    if (kind !== 'touch' || touches.length > 2 || touches.some(pointer => pointer.role === 'ignore')) {
+      this.tapStart = null;
+    } else if (touches.length === 2) {
+      const start = Math.min(touches[0].downTime, touches[1].downTime);
+      this.tapStart = time - start <= TAP_DURATION ? start : null;
+    }
+  }
+}
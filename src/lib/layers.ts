@@ -0,0 +1,66 @@
+import type { DrawableOperation, DrawingOperation, Layer, LayerChange } from '@/types/canvas';
+import { DEFAULT_LAYER } from '@/types/canvas';
+
+export function layerOf(op: DrawableOperation): string {
+  return op.layerId ?? DEFAULT_LAYER.id;
+}
+
+function clampIndex(index: number, length: number): number {
+  return Math.max(0, Math.min(length, Math.round(index)));
+}
+
+/**
+ * Applies one change to a bottom-first layer stack. Changes to layers that
+ * don't exist (deleted concurrently, say) and creates of existing ids are
+ * ignored, so every client folds the same log to the same stack.
+ */
+export function applyLayerChange(layers: Layer[], change: LayerChange): Layer[] {
+  const index = layers.findIndex(layer => layer.id === change.layerId);
+
+  if (change.action === 'create') {
+    if (index !== -1) return layers;
+    const next = [...layers];
+    next.splice(clampIndex(change.index, layers.length), 0, {
+      id: change.layerId,
+      name: change.name,
+      visible: true,
+      locked: false,
+    });
+    return next;
+  }
+
+  if (index === -1) return layers;
+  const layer = layers[index];
+
+  switch (change.action) {
+    case 'rename':
+      return layers.map(l => (l === layer ? { ...l, name: change.name } : l));
+    case 'visibility':
+      return layers.map(l => (l === layer ? { ...l, visible: change.visible } : l));
+    case 'lock':
+      return layers.map(l => (l === layer ? { ...l, locked: change.locked } : l));
+    case 'delete':
+      return layers.filter(l => l !== layer);
+    case 'move': {
+      const next = layers.filter(l => l !== layer);
+      next.splice(clampIndex(change.index, next.length), 0, layer);
+      return next;
+    }
+  }
+}
+
+/** The layer stack after replaying the layer operations in `operations` over `base`. */
+export function resolveLayers(base: Layer[], operations: DrawingOperation[]): Layer[] {
+  let layers = base;
+  for (const op of operations) {
+    if (op.type === 'layer') layers = applyLayerChange(layers, op.change);
+  }
+  return layers;
+}
+
+/** Next free "Layer N" name. */
+export function nextLayerName(layers: Layer[]): string {
+  let n = layers.length + 1;
+  while (layers.some(layer => layer.name === `Layer ${n}`)) n++;
+  return `Layer ${n}`;
+}
@@ -0,0 +1,560 @@
+import type {
+  SyncTransport,
+  OperationRow,
+  OperationInsert,
+  InsertOptions,
+  OperationHandlers,
+  SnapshotRow,
+  SnapshotInsert,
+  RoomRow,
+  RoomInsert,
+  RedoRow,
+  PresenceState,
+  PresenceHandle,
+  BroadcastHandle,
+} from './sync-transport';
+import type { WSMessage } from '@/types/canvas';
+import { DEFAULT_CANVAS_SIZE } from '@/types/canvas';
+
+const DEFAULT_CHANNEL_NAME = 'collaborative-canvas';
+const DEFAULT_SYNC_TIMEOUT = 50;
+
+type LocalMessage =
+  | { kind: 'sync:request'; roomId: string; from: string }
+  | {
+      kind: 'sync:response';
+      roomId: string;
+      to: string;
+      operations: OperationRow[];
+      redo: RedoRow[];
+      snapshots: SnapshotRow[];
+      room: RoomRow | null;
+    }
+  | { kind: 'room:insert'; row: RoomRow }
+  | { kind: 'op:insert'; row: OperationRow }
+  | { kind: 'op:delete'; roomId: string; ids: string[] }
+  | { kind: 'redo:insert'; row: RedoRow }
+  | { kind: 'snapshot:insert'; row: SnapshotRow }
+  | { kind: 'redo:delete'; roomId: string; ids: string[] }
+  | { kind: 'presence:request'; roomId: string }
+  | { kind: 'presence:track'; roomId: string; key: string; state: PresenceState }
+  | { kind: 'presence:leave'; roomId: string; key: string }
+  | { kind: 'broadcast'; roomId: string; message: WSMessage };
+
+interface LocalTransportOptions {
+  channelName?: string;
+  syncTimeout?: number;
+}
+
+function uuid(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+}
+
+function bySequence(a: OperationRow, b: OperationRow): number {
+  return a.sequence - b.sequence || a.id.localeCompare(b.id);
+}
+
+function redoAuthor(row: RedoRow): string | undefined {
+  return (row.operation_data as { user_id?: string } | null)?.user_id;
+}
+
+/** Client ids of the operations a row changes, as `operationTargets` reads them. */
+function rowTargets(row: OperationRow): string[] {
+  const data = row.data as { targetIds?: string[]; textId?: string } | null;
+  switch (row.type) {
+    case 'transform':
+    case 'delete':
+      return data?.targetIds ?? [];
+    case 'text-edit':
+      return data?.textId ? [data.textId] : [];
+    default:
+      return [];
+  }
+}
+
+function byPosition(a: RedoRow, b: RedoRow): number {
+  return a.position - b.position || a.id.localeCompare(b.id);
+}
+
+/**
+ * In-memory transport that replicates between browser tabs (or test clients)
+ * over a BroadcastChannel. Each instance keeps its own copy of every room it
+ * has seen; late joiners ask peers for their copy on first fetch.
+ *
+ * Sequences come from a Lamport clock, so two tabs inserting at the same
+ * instant may assign the same sequence; ties are ordered by id. Redo entries
+ * are ordered the same way by a clock of their own. Undo and redo are atomic
+ * within a tab, not across tabs.
+ */
+export class LocalTransport implements SyncTransport {
+  private readonly instanceId = uuid();
+  private readonly channel: BroadcastChannel;
+  private readonly syncTimeout: number;
+  private clock = 0;
+  private redoClock = 0;
+  private operations = new Map<string, OperationRow[]>();
+  private redo = new Map<string, RedoRow[]>();
+  private snapshots = new Map<string, SnapshotRow[]>();
+  private rooms = new Map<string, RoomRow>();
+  private syncedRooms = new Set<string>();
+  private subscribers = new Map<string, Set<OperationHandlers>>();
+  private ownPresence = new Map<string, Map<string, PresenceState>>();
+  private peerPresence = new Map<string, Map<string, PresenceState>>();
+  private presenceListeners = new Map<string, Set<(states: PresenceState[]) => void>>();
+  private broadcastListeners = new Map<string, Set<(message: WSMessage) => void>>();
+  private online = true;
+
+  constructor(options: LocalTransportOptions = {}) {
+    this.channel = new BroadcastChannel(options.channelName ?? DEFAULT_CHANNEL_NAME);
+    this.syncTimeout = options.syncTimeout ?? DEFAULT_SYNC_TIMEOUT;
+    this.channel.onmessage = (event: MessageEvent<LocalMessage>) => {
+      this.handleMessage(event.data);
+    };
+  }
+
+  async fetchRoom(roomId: string): Promise<RoomRow | null> {
+    this.assertOnline();
+    await this.syncRoom(roomId);
+    return this.rooms.get(roomId) ?? null;
+  }
+
+  async createRoom(insert: RoomInsert): Promise<RoomRow> {
+    this.assertOnline();
+    const id = insert.id ?? uuid();
+    if (this.rooms.has(id)) {
+      throw new Error(`Room ${id} already exists`);
+    }
+
+    const createdAt = insert.created_at ?? new Date().toISOString();
+    const row: RoomRow = {
+      id,
+      name: insert.name ?? 'Untitled Canvas',
+      width: insert.width ?? DEFAULT_CANVAS_SIZE.width,
+      height: insert.height ?? DEFAULT_CANVAS_SIZE.height,
+      created_at: createdAt,
+      updated_at: insert.updated_at ?? createdAt,
+    };
+
+    this.applyRoomInsert(row);
+    this.post({ kind: 'room:insert', row });
+    return row;
+  }
+
+  async fetchOperations(
+    roomId: string,
+    afterSequence?: number,
+    limit?: number
+  ): Promise<OperationRow[]> {
+    const rows = await this.operationsAfter(roomId, afterSequence);
+    return limit === undefined ? rows : rows.slice(0, limit);
+  }
+
+  async countOperations(roomId: string, afterSequence?: number): Promise<number> {
+    const rows = await this.operationsAfter(roomId, afterSequence);
+    return rows.length;
+  }
+
+  private async operationsAfter(roomId: string, afterSequence?: number): Promise<OperationRow[]> {
+    this.assertOnline();
+    await this.syncRoom(roomId);
+    return this.roomOperations(roomId).filter(
+      op => afterSequence === undefined || op.sequence > afterSequence
+    );
+  }
+
+  async insertOperation(insert: OperationInsert, options?: InsertOptions): Promise<OperationRow> {
+    this.assertOnline();
+    if (options?.clearRedo) {
+      this.clearRedo(insert.room_id, insert.user_id);
+    }
+    const row = this.createRow(insert);
+    this.applyInsert(row);
+    this.post({ kind: 'op:insert', row });
+    return row;
+  }
+
+  async findOperation(roomId: string, clientId: string): Promise<OperationRow | null> {
+    this.assertOnline();
+    await this.syncRoom(roomId);
+    return this.roomOperations(roomId).find(
+      op => (op.data as { id?: string } | null)?.id === clientId
+    ) ?? null;
+  }
+
+  private createRow(insert: OperationInsert): OperationRow {
+    return {
+      id: insert.id ?? uuid(),
+      room_id: insert.room_id,
+      user_id: insert.user_id,
+      user_name: insert.user_name ?? 'Anonymous',
+      user_color: insert.user_color ?? '#3b82f6',
+      sequence: insert.sequence ?? ++this.clock,
+      type: insert.type,
+      data: insert.data ?? {},
+      created_at: insert.created_at ?? new Date().toISOString(),
+    };
+  }
+
+  async deleteOperation(id: string): Promise<void> {
+    this.assertOnline();
+    for (const [roomId, ops] of this.operations) {
+      if (ops.some(op => op.id === id)) {
+        this.applyDelete(roomId, [id]);
+        this.post({ kind: 'op:delete', roomId, ids: [id] });
+        return;
+      }
+    }
+  }
+
+  async undoLast(roomId: string, userId?: string): Promise<OperationRow | null> {
+    this.assertOnline();
+    const candidates = this.roomOperations(roomId).filter(op => !userId || op.user_id === userId);
+    const target = candidates[candidates.length - 1];
+    if (!target) return null;
+
+    const item: RedoRow = {
+      id: uuid(),
+      room_id: roomId,
+      original_id: target.id,
+      operation_data: target,
+      deleted_at: new Date().toISOString(),
+      position: ++this.redoClock,
+    };
+    this.applyRedoInsert(item);
+    this.post({ kind: 'redo:insert', row: item });
+
+    this.applyDelete(roomId, [target.id]);
+    this.post({ kind: 'op:delete', roomId, ids: [target.id] });
+    return target;
+  }
+
+  async redoLast(roomId: string, userId?: string): Promise<OperationRow | null> {
+    this.assertOnline();
+    const stack = this.roomRedo(roomId, userId);
+    const item = stack[stack.length - 1];
+    if (!item) return null;
+
+    const original = item.operation_data as unknown as OperationRow;
+    const row = this.createRow({
+      room_id: roomId,
+      user_id: original.user_id,
+      user_name: original.user_name,
+      user_color: original.user_color,
+      type: original.type,
+      data: original.data,
+    });
+    this.applyInsert(row);
+    this.post({ kind: 'op:insert', row });
+
+    this.applyRedoDelete(roomId, [item.id]);
+    this.post({ kind: 'redo:delete', roomId, ids: [item.id] });
+    return row;
+  }
+
+  async countRedo(roomId: string, userId?: string): Promise<number> {
+    this.assertOnline();
+    return this.roomRedo(roomId, userId).length;
+  }
+
+  /** Mirrors the redo clear in commit_operation; runs in the same tick as the insert. */
+  private clearRedo(roomId: string, userId: string): void {
+    const ids = this.roomRedo(roomId, userId).map(item => item.id);
+    if (ids.length === 0) return;
+    this.applyRedoDelete(roomId, ids);
+    this.post({ kind: 'redo:delete', roomId, ids });
+  }
+
+  async fetchLatestSnapshot(roomId: string): Promise<SnapshotRow | null> {
+    this.assertOnline();
+    await this.syncRoom(roomId);
+    const snapshots = this.snapshots.get(roomId) ?? [];
+    return snapshots[snapshots.length - 1] ?? null;
+  }
+
+  async insertSnapshot(insert: SnapshotInsert): Promise<SnapshotRow> {
+    this.assertOnline();
+    const row: SnapshotRow = {
+      id: insert.id ?? uuid(),
+      room_id: insert.room_id,
+      sequence: insert.sequence,
+      image: insert.image ?? null,
+      layers: insert.layers ?? null,
+      x: insert.x ?? 0,
+      y: insert.y ?? 0,
+      width: insert.width ?? 0,
+      height: insert.height ?? 0,
+      created_by: insert.created_by,
+      created_at: insert.created_at ?? new Date().toISOString(),
+    };
+
+    this.applySnapshotInsert(row);
+    this.post({ kind: 'snapshot:insert', row });
+    return row;
+  }
+
+  subscribeOperations(roomId: string, handlers: OperationHandlers): () => Promise<void> {
+    const set = this.subscribers.get(roomId) ?? new Set();
+    set.add(handlers);
+    this.subscribers.set(roomId, set);
+    handlers.onStatusChange?.(true);
+
+    return async () => {
+      set.delete(handlers);
+      handlers.onStatusChange?.(false);
+    };
+  }
+
+  joinPresence(
+    roomId: string,
+    initialState: PresenceState,
+    onSync: (states: PresenceState[]) => void
+  ): PresenceHandle {
+    const key = initialState.userId;
+    const listeners = this.presenceListeners.get(roomId) ?? new Set();
+    listeners.add(onSync);
+    this.presenceListeners.set(roomId, listeners);
+
+    const track = async (state: PresenceState) => {
+      const own = this.ownPresence.get(roomId) ?? new Map();
+      own.set(key, state);
+      this.ownPresence.set(roomId, own);
+      this.post({ kind: 'presence:track', roomId, key, state });
+      this.emitPresence(roomId);
+    };
+
+    void track(initialState);
+    this.post({ kind: 'presence:request', roomId });
+
+    return {
+      track,
+      leave: async () => {
+        listeners.delete(onSync);
+        this.ownPresence.get(roomId)?.delete(key);
+        this.post({ kind: 'presence:leave', roomId, key });
+      },
+    };
+  }
+
+  joinBroadcast(roomId: string, onMessage: (message: WSMessage) => void): BroadcastHandle {
+    const listeners = this.broadcastListeners.get(roomId) ?? new Set();
+    listeners.add(onMessage);
+    this.broadcastListeners.set(roomId, listeners);
+
+    return {
+      send: async (message) => {
+        this.post({ kind: 'broadcast', roomId, message });
+      },
+      leave: async () => {
+        listeners.delete(onMessage);
+      },
+    };
+  }
+
+  /**
+   * Simulates losing and regaining the network. While offline, writes throw,
+   * peers' messages are dropped and subscribers see a disconnected status.
+   */
+  setOnline(online: boolean): void {
+    if (this.online === online) return;
+    this.online = online;
+
+    if (online) {
+      this.syncedRooms.clear();
+    }
+    for (const set of this.subscribers.values()) {
+      for (const handlers of set) handlers.onStatusChange?.(online);
+    }
+  }
+
+  close(): void {
+    for (const [roomId, own] of this.ownPresence) {
+      for (const key of own.keys()) {
+        this.post({ kind: 'presence:leave', roomId, key });
+      }
+    }
+    this.channel.close();
+  }
+
+  private syncRoom(roomId: string): Promise<void> {
+    if (this.syncedRooms.has(roomId)) return Promise.resolve();
+    this.syncedRooms.add(roomId);
+    this.post({ kind: 'sync:request', roomId, from: this.instanceId });
+    return new Promise(resolve => setTimeout(resolve, this.syncTimeout));
+  }
+
+  private handleMessage(message: LocalMessage): void {
+    if (!this.online) return;
+
+    switch (message.kind) {
+      case 'sync:request':
+        if (this.syncedRooms.has(message.roomId)) {
+          this.post({
+            kind: 'sync:response',
+            roomId: message.roomId,
+            to: message.from,
+            operations: this.roomOperations(message.roomId),
+            redo: this.roomRedo(message.roomId),
+            snapshots: this.snapshots.get(message.roomId) ?? [],
+            room: this.rooms.get(message.roomId) ?? null,
+          });
+        }
+        break;
+      case 'sync:response':
+        if (message.to !== this.instanceId) break;
+        for (const row of message.operations) this.applyInsert(row);
+        for (const row of message.redo) this.applyRedoInsert(row);
+        for (const row of message.snapshots) this.applySnapshotInsert(row);
+        if (message.room) this.applyRoomInsert(message.room);
+        break;
+      case 'room:insert':
+        this.applyRoomInsert(message.row);
+        break;
+      case 'op:insert':
+        this.applyInsert(message.row);
+        break;
+      case 'op:delete':
+        this.applyDelete(message.roomId, message.ids);
+        break;
+      case 'redo:insert':
+        this.applyRedoInsert(message.row);
+        break;
+      case 'snapshot:insert':
+        this.applySnapshotInsert(message.row);
+        break;
+      case 'redo:delete':
+        this.applyRedoDelete(message.roomId, message.ids);
+        break;
+      case 'presence:request':
+        for (const [key, state] of this.ownPresence.get(message.roomId) ?? []) {
+          this.post({ kind: 'presence:track', roomId: message.roomId, key, state });
+        }
+        break;
+      case 'presence:track': {
+        const peers = this.peerPresence.get(message.roomId) ?? new Map();
+        peers.set(message.key, message.state);
+        this.peerPresence.set(message.roomId, peers);
+        this.emitPresence(message.roomId);
+        break;
+      }
+      case 'presence:leave':
+        this.peerPresence.get(message.roomId)?.delete(message.key);
+        this.emitPresence(message.roomId);
+        break;
+      case 'broadcast':
+        for (const listener of this.broadcastListeners.get(message.roomId) ?? []) {
+          listener(message.message);
+        }
+        break;
+    }
+  }
+
+  private applyInsert(row: OperationRow): void {
+    const ops = this.roomOperations(row.room_id);
+    if (ops.some(op => op.id === row.id)) return;
+
+    ops.push(row);
+    ops.sort(bySequence);
+    this.operations.set(row.room_id, ops);
+    this.clock = Math.max(this.clock, row.sequence);
+    this.invalidateTargetedSnapshots(row);
+
+    for (const handlers of this.subscribers.get(row.room_id) ?? []) {
+      handlers.onInsert(row);
+    }
+  }
+
+  private applyDelete(roomId: string, ids: string[]): void {
+    const ops = this.roomOperations(roomId);
+    const removedOps = ops.filter(op => ids.includes(op.id));
+    if (removedOps.length === 0) return;
+
+    const removed = new Set(removedOps.map(op => op.id));
+    this.operations.set(roomId, ops.filter(op => !removed.has(op.id)));
+
+    // Mirrors the invalidate_snapshots trigger
+    const oldest = Math.min(...removedOps.map(op => op.sequence));
+    const snapshots = this.snapshots.get(roomId) ?? [];
+    this.snapshots.set(roomId, snapshots.filter(snapshot => snapshot.sequence < oldest));
+
+    for (const handlers of this.subscribers.get(roomId) ?? []) {
+      for (const id of removed) handlers.onDelete(id);
+    }
+  }
+
+  /** Mirrors the invalidate_targeted_snapshots trigger. */
+  private invalidateTargetedSnapshots(row: OperationRow): void {
+    const targets = new Set(rowTargets(row));
+    if (targets.size === 0) return;
+
+    const targeted = this.roomOperations(row.room_id).filter(
+      op => targets.has(op.id) || targets.has((op.data as { id?: string } | null)?.id ?? '')
+    );
+    if (targeted.length === 0) return;
+    const oldest = Math.min(...targeted.map(op => op.sequence));
+    const snapshots = this.snapshots.get(row.room_id) ?? [];
+    this.snapshots.set(row.room_id, snapshots.filter(snapshot => snapshot.sequence < oldest));
+  }
+
+  private applyRedoInsert(row: RedoRow): void {
+    const stack = this.roomRedo(row.room_id);
+    if (stack.some(item => item.id === row.id)) return;
+
+    stack.push(row);
+    stack.sort(byPosition);
+    this.redo.set(row.room_id, stack);
+    this.redoClock = Math.max(this.redoClock, row.position);
+  }
+
+  private applySnapshotInsert(row: SnapshotRow): void {
+    const snapshots = this.snapshots.get(row.room_id) ?? [];
+    if (snapshots.some(snapshot => snapshot.id === row.id)) return;
+
+    snapshots.push(row);
+    snapshots.sort((a, b) => a.sequence - b.sequence);
+    this.snapshots.set(row.room_id, snapshots);
+  }
+
+  private applyRoomInsert(row: RoomRow): void {
+    if (!this.rooms.has(row.id)) {
+      this.rooms.set(row.id, row);
+    }
+  }
+
+  private applyRedoDelete(roomId: string, ids: string[]): void {
+    const removed = new Set(ids);
+    this.redo.set(roomId, this.roomRedo(roomId).filter(item => !removed.has(item.id)));
+  }
+
+  private emitPresence(roomId: string): void {
+    const states = [
+      ...(this.ownPresence.get(roomId)?.values() ?? []),
+      ...(this.peerPresence.get(roomId)?.values() ?? []),
+    ];
+    for (const listener of this.presenceListeners.get(roomId) ?? []) {
+      listener(states);
+    }
+  }
+
+  private roomOperations(roomId: string): OperationRow[] {
+    return this.operations.get(roomId) ?? [];
+  }
+
+  private roomRedo(roomId: string, userId?: string): RedoRow[] {
+    const stack = this.redo.get(roomId) ?? [];
+    return userId ? stack.filter(item => redoAuthor(item) === userId) : stack;
+  }
+
+  private assertOnline(): void {
+    if (!this.online) {
+      throw new Error('LocalTransport is offline');
+    }
+  }
+
+  private post(message: LocalMessage): void {
+    if (!this.online) return;
+    this.channel.postMessage(message);
+  }
+}
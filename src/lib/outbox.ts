@@ -0,0 +1,176 @@
+import type {
+  StrokeOperation,
+  ShapeOperation,
+  TextOperation,
+  TextEditOperation,
+  TransformOperation,
+  DeleteOperation,
+  ClearOperation,
+  LayerOperation,
+  UndoScope,
+} from '@/types/canvas';
+import { RejectedWriteError } from './sync-transport';
+
+const DB_NAME = 'canvas-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+export type OutboxIntent =
+  | { kind: 'stroke'; stroke: StrokeOperation }
+  | { kind: 'shape'; shape: ShapeOperation }
+  | { kind: 'text'; text: TextOperation }
+  | { kind: 'text-edit'; edit: TextEditOperation }
+  | { kind: 'transform'; transform: TransformOperation }
+  | { kind: 'delete'; deletion: DeleteOperation }
+  | { kind: 'undo'; scope: UndoScope }
+  | { kind: 'redo'; scope: UndoScope }
+  | { kind: 'clear'; clear: ClearOperation }
+  | { kind: 'layer'; layer: LayerOperation };
+
+export type OutboxEntry = OutboxIntent & {
+  id: string;
+  roomId: string;
+  createdAt: number;
+};
+
+export interface OutboxStore {
+  load(roomId: string): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class IndexedDBOutboxStore implements OutboxStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('roomId', 'roomId');
+      };
+      this.db = requestToPromise(request);
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async load(roomId: string): Promise<OutboxEntry[]> {
+    const store = await this.store('readonly');
+    const entries = await requestToPromise<OutboxEntry[]>(
+      store.index('roomId').getAll(roomId)
+    );
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.put(entry));
+  }
+
+  async remove(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.delete(id));
+  }
+}
+
+export class MemoryOutboxStore implements OutboxStore {
+  private entries = new Map<string, OutboxEntry>();
+
+  async load(roomId: string): Promise<OutboxEntry[]> {
+    return [...this.entries.values()]
+      .filter(entry => entry.roomId === roomId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
+
+export function createOutboxStore(): OutboxStore {
+  return typeof indexedDB !== 'undefined'
+    ? new IndexedDBOutboxStore()
+    : new MemoryOutboxStore();
+}
+
+/**
+ * Ordered queue of intents that could not reach the server. Entries are kept
+ * in the store until `flush` has applied them, so a reload while offline
+ * loses nothing.
+ */
+export class Outbox {
+  private store: OutboxStore;
+  private roomId: string;
+  private entries: OutboxEntry[] = [];
+  private counter = 0;
+  private onChange: ((count: number) => void) | null = null;
+
+  constructor(store: OutboxStore, roomId: string) {
+    this.store = store;
+    this.roomId = roomId;
+  }
+
+  setOnChange(callback: (count: number) => void) {
+    this.onChange = callback;
+  }
+
+  async load(): Promise<void> {
+    this.entries = await this.store.load(this.roomId);
+    this.onChange?.(this.entries.length);
+  }
+
+  async enqueue(intent: OutboxIntent): Promise<void> {
+    const entry: OutboxEntry = {
+      ...intent,
+      id: `${Date.now()}-${this.counter++}-${Math.random().toString(36).slice(2, 8)}`,
+      roomId: this.roomId,
+      createdAt: Date.now() + this.counter / 1000,
+    };
+    this.entries.push(entry);
+    this.onChange?.(this.entries.length);
+    await this.store.put(entry);
+  }
+
+  /**
+   * Applies entries in order. An entry the backend rejects outright is
+   * dropped, since it would block everything behind it forever; any other
+   * failure stops the flush, leaving that entry and the rest queued. Returns
+   * how many entries left the queue either way.
+   */
+  async flush(apply: (entry: OutboxEntry) => Promise<void>): Promise<number> {
+    let removed = 0;
+    while (this.entries.length > 0) {
+      const entry = this.entries[0];
+      try {
+        await apply(entry);
+      } catch (error) {
+        if (!(error instanceof RejectedWriteError)) break;
+      }
+      this.entries.shift();
+      removed++;
+      this.onChange?.(this.entries.length);
+      await this.store.remove(entry.id);
+    }
+    return removed;
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+}
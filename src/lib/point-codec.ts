@@ -0,0 +1,266 @@
+import type { Point } from '@/types/canvas';
+
+/**
+ * Compact wire format for stroke points, stored as a base64 string in
+ * `operations.data.points`:
+ *
+ *   u8      version
+ *   u8      flags (bit 0: pressure present, bit 1: tilt present)
+ *   varint  point count
+ *   f64     timestamp of the first point
+ *   per point:
+ *     varint  zigzag delta x, in 1/COORD_SCALE px
+ *     varint  zigzag delta y, in 1/COORD_SCALE px
+ *     varint  zigzag delta time, in ms
+ *     u8      pressure (only with the pressure flag; 0 = none, 1..255 = 0..1)
+ *     i8 i8   tilt x and y in degrees (only with the tilt flag)
+ *
+ * Deltas are taken between quantized values so rounding never accumulates.
+ * Version 1 is the same without tilt and still decodes.
+ */
+export const POINT_CODEC_VERSION = 2;
+
+/** Version byte leading `encodeCoordinates` output. */
+export const COORDINATE_CODEC_VERSION = 1;
+
+const COORD_SCALE = 10;
+const PRESSURE_FLAG = 1;
+const TILT_FLAG = 2;
+
+function zigzag(n: number): number {
+  return n >= 0 ? n * 2 : -n * 2 - 1;
+}
+
+function unzigzag(n: number): number {
+  return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  varint(value: number) {
+    let n = value;
+    while (n >= 0x80) {
+      this.bytes.push((n % 0x80) | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.bytes.push(n);
+  }
+
+  f64(value: number) {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+    for (let i = 0; i < 8; i++) this.bytes.push(view.getUint8(i));
+  }
+
+  toBase64(): string {
+    let binary = '';
+    for (const byte of this.bytes) binary += String.fromCharCode(byte);
+    return btoa(binary);
+  }
+}
+
+class ByteReader {
+  private bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(base64: string) {
+    const binary = atob(base64);
+    this.bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) this.bytes[i] = binary.charCodeAt(i);
+  }
+
+  u8(): number {
+    if (this.offset >= this.bytes.length) throw new Error('Truncated point data');
+    return this.bytes[this.offset++];
+  }
+
+  i8(): number {
+    const byte = this.u8();
+    return byte > 127 ? byte - 256 : byte;
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = this.u8();
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 0x80;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  f64(): number {
+    const view = new DataView(new ArrayBuffer(8));
+    for (let i = 0; i < 8; i++) view.setUint8(i, this.u8());
+    return view.getFloat64(0);
+  }
+}
+
+export function encodePoints(points: Point[]): string {
+  const hasPressure = points.some(p => p.pressure !== undefined);
+  const hasTilt = points.some(p => p.tiltX !== undefined || p.tiltY !== undefined);
+  const baseTime = points.length > 0 ? points[0].timestamp : 0;
+  const writer = new ByteWriter();
+
+  writer.u8(POINT_CODEC_VERSION);
+  writer.u8((hasPressure ? PRESSURE_FLAG : 0) | (hasTilt ? TILT_FLAG : 0));
+  writer.varint(points.length);
+  writer.f64(baseTime);
+
+  let prevX = 0;
+  let prevY = 0;
+  let prevT = 0;
+  for (const point of points) {
+    const x = Math.round(point.x * COORD_SCALE);
+    const y = Math.round(point.y * COORD_SCALE);
+    const t = Math.round(point.timestamp - baseTime);
+
+    writer.varint(zigzag(x - prevX));
+    writer.varint(zigzag(y - prevY));
+    writer.varint(zigzag(t - prevT));
+    if (hasPressure) {
+      writer.u8(point.pressure === undefined
+        ? 0
+        : 1 + Math.round(Math.min(1, Math.max(0, point.pressure)) * 254));
+    }
+    if (hasTilt) {
+      writer.u8(Math.round(Math.min(90, Math.max(-90, point.tiltX ?? 0))));
+      writer.u8(Math.round(Math.min(90, Math.max(-90, point.tiltY ?? 0))));
+    }
+
+    prevX = x;
+    prevY = y;
+    prevT = t;
+  }
+
+  return writer.toBase64();
+}
+
+function decodeBinary(encoded: string): Point[] {
+  const reader = new ByteReader(encoded);
+  const version = reader.u8();
+  if (version < 1 || version > POINT_CODEC_VERSION) {
+    throw new Error(`Unsupported point encoding version ${version}`);
+  }
+
+  const flags = reader.u8();
+  const hasPressure = (flags & PRESSURE_FLAG) !== 0;
+  const hasTilt = (flags & TILT_FLAG) !== 0;
+  const count = reader.varint();
+  const baseTime = reader.f64();
+  const points: Point[] = [];
+
+  let x = 0;
+  let y = 0;
+  let t = 0;
+  for (let i = 0; i < count; i++) {
+    x += unzigzag(reader.varint());
+    y += unzigzag(reader.varint());
+    t += unzigzag(reader.varint());
+
+    const point: Point = { x: x / COORD_SCALE, y: y / COORD_SCALE, timestamp: baseTime + t };
+    if (hasPressure) {
+      const pressure = reader.u8();
+      if (pressure > 0) point.pressure = (pressure - 1) / 254;
+    }
+    if (hasTilt) {
+      const tiltX = reader.i8();
+      const tiltY = reader.i8();
+      if (tiltX || tiltY) {
+        point.tiltX = tiltX;
+        point.tiltY = tiltY;
+      }
+    }
+    points.push(point);
+  }
+
+  return points;
+}
+
+/**
+ * Decodes `operations.data.points`, accepting both the packed string format
+ * and the plain JSON arrays written before it existed. Data that is corrupt,
+ * or from a newer version, decodes to no points so one bad row can't stop a
+ * room from loading; `onError` hears why, for callers that surface it.
+ */
+export function decodePoints(data: unknown, onError?: (error: unknown) => void): Point[] {
+  if (typeof data === 'string') {
+    try {
+      return decodeBinary(data);
+    } catch (error) {
+      onError?.(error);
+      return [];
+    }
+  }
+  if (Array.isArray(data)) return data as Point[];
+  return [];
+}
+
+/**
+ * Packs bare coordinates, such as a fitted stroke's Bézier control points
+ * (`operations.data.controls`), the same way as points but without time or
+ * pressure:
+ *
+ *   u8      version
+ *   varint  count
+ *   per coordinate: varint zigzag delta x, varint zigzag delta y
+ */
+export function encodeCoordinates(coordinates: { x: number; y: number }[]): string {
+  const writer = new ByteWriter();
+  writer.u8(COORDINATE_CODEC_VERSION);
+  writer.varint(coordinates.length);
+
+  let prevX = 0;
+  let prevY = 0;
+  for (const { x: rawX, y: rawY } of coordinates) {
+    const x = Math.round(rawX * COORD_SCALE);
+    const y = Math.round(rawY * COORD_SCALE);
+    writer.varint(zigzag(x - prevX));
+    writer.varint(zigzag(y - prevY));
+    prevX = x;
+    prevY = y;
+  }
+
+  return writer.toBase64();
+}
+
+function decodeCoordinateBinary(encoded: string): { x: number; y: number }[] {
+  const reader = new ByteReader(encoded);
+  const version = reader.u8();
+  if (version !== COORDINATE_CODEC_VERSION) {
+    throw new Error(`Unsupported coordinate encoding version ${version}`);
+  }
+
+  const count = reader.varint();
+  const coordinates: { x: number; y: number }[] = [];
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < count; i++) {
+    x += unzigzag(reader.varint());
+    y += unzigzag(reader.varint());
+    coordinates.push({ x: x / COORD_SCALE, y: y / COORD_SCALE });
+  }
+  return coordinates;
+}
+
+/** Decodes `encodeCoordinates` output; like `decodePoints`, bad data decodes to none. */
+export function decodeCoordinates(
+  data: unknown,
+  onError?: (error: unknown) => void
+): { x: number; y: number }[] {
+  if (typeof data !== 'string') return [];
+
+  try {
+    return decodeCoordinateBinary(data);
+  } catch (error) {
+    onError?.(error);
+    return [];
+  }
+}
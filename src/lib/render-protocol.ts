@@ -0,0 +1,43 @@
+import type {
+  Point,
+  StrokeOperation,
+  ShapeOperation,
+  TransformPreview,
+  DrawingOperation,
+  CanvasSize,
+  ViewportTransform,
+  LayerSnapshot,
+} from '@/types/canvas';
+import type { LayerRaster } from './canvas-engine';
+
+/**
+ * Messages from `WorkerCanvasEngine` to the render worker. The main thread
+ * owns the viewport and sends the resulting transform; operations travel as
+ * deltas against the list the worker already holds.
+ */
+export type RenderRequest =
+  | { type: 'init'; canvas: OffscreenCanvas; dpr: number }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'logical-size'; size: CanvasSize }
+  | { type: 'viewport'; viewport: ViewportTransform }
+  /** Keep the first `keep` operations, then append `append`. */
+  | { type: 'operations'; keep: number; append: DrawingOperation[] }
+  | { type: 'current-stroke'; stroke: StrokeOperation | null }
+  | { type: 'current-shape'; shape: ShapeOperation | null }
+  | { type: 'editing-text'; textId: string | null }
+  | { type: 'transform-preview'; preview: TransformPreview | null }
+  | { type: 'erasing'; targetIds: string[] | null }
+  | { type: 'pending-stroke'; stroke: StrokeOperation }
+  | { type: 'pending-points'; strokeId: string; points: Point[] }
+  | { type: 'remove-pending-stroke'; strokeId: string }
+  | { type: 'prune-pending-strokes'; activeUserIds: string[] }
+  /** Images are ImageBitmaps, transferred with the message. */
+  | { type: 'snapshot'; layers: LayerRaster[] | null; sequence: number }
+  | { type: 'render-snapshot'; requestId: number; maxSequence: number }
+  | { type: 'export'; requestId: number; format: string; quality?: number };
+
+/** Replies to the requests that carry a `requestId`. */
+export type RenderResponse =
+  | { type: 'snapshot-rendered'; requestId: number; layers: LayerSnapshot[] }
+  | { type: 'exported'; requestId: number; dataUrl: string }
+  | { type: 'failed'; requestId: number; message: string };
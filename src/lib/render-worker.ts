@@ -0,0 +1,92 @@
+import { CanvasEngine } from './canvas-engine';
+import type { RenderRequest, RenderResponse } from './render-protocol';
+import type { DrawingOperation } from '@/types/canvas';
+
+// The DOM lib types `self` as a Window; only these worker members are used.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<RenderRequest>) => void) | null;
+  postMessage(message: RenderResponse): void;
+};
+
+let engine: CanvasEngine | null = null;
+let operations: DrawingOperation[] = [];
+
+function reply(requestId: number, run: () => Promise<RenderResponse>): void {
+  run().then(
+    response => scope.postMessage(response),
+    (error: unknown) => scope.postMessage({
+      type: 'failed',
+      requestId,
+      message: error instanceof Error ? error.message : String(error),
+    })
+  );
+}
+
+scope.onmessage = ({ data: message }) => {
+  if (message.type === 'init') {
+    engine = new CanvasEngine(message.canvas, message.dpr);
+    return;
+  }
+  if (!engine) return;
+  const current = engine;
+
+  switch (message.type) {
+    case 'resize':
+      current.resize(message.width, message.height);
+      break;
+    case 'logical-size':
+      current.setLogicalSize(message.size);
+      break;
+    case 'viewport':
+      current.setViewport(message.viewport);
+      break;
+    case 'operations':
+      operations = [...operations.slice(0, message.keep), ...message.append];
+      current.setOperations(operations);
+      break;
+    case 'current-stroke':
+      current.setCurrentStroke(message.stroke);
+      break;
+    case 'current-shape':
+      current.setCurrentShape(message.shape);
+      break;
+    case 'editing-text':
+      current.setEditingText(message.textId);
+      break;
+    case 'transform-preview':
+      current.setTransformPreview(message.preview);
+      break;
+    case 'erasing':
+      current.setErasing(message.targetIds);
+      break;
+    case 'pending-stroke':
+      current.setPendingStroke(message.stroke);
+      break;
+    case 'pending-points':
+      current.appendPendingPoints(message.strokeId, message.points);
+      break;
+    case 'remove-pending-stroke':
+      current.removePendingStroke(message.strokeId);
+      break;
+    case 'prune-pending-strokes':
+      current.prunePendingStrokes(new Set(message.activeUserIds));
+      break;
+    case 'snapshot':
+      current.setSnapshot(message.layers, message.sequence);
+      break;
+    case 'render-snapshot':
+      reply(message.requestId, async () => ({
+        type: 'snapshot-rendered',
+        requestId: message.requestId,
+        layers: await current.renderSnapshot(message.maxSequence),
+      }));
+      break;
+    case 'export':
+      reply(message.requestId, async () => ({
+        type: 'exported',
+        requestId: message.requestId,
+        dataUrl: await current.toDataURL(message.format, message.quality),
+      }));
+      break;
+  }
+};
@@ -0,0 +1,299 @@
+import type { DrawableOperation, DrawingOperation, Layer, Matrix, Rect } from '@/types/canvas';
+import { getStrokePath, unionRects } from './canvas-engine';
+import { layerOf } from './layers';
+import { shapeOutline } from './shapes';
+import { applyTextEdit, layoutText, measureTextWidth, resolveTextEdits, type MeasureText } from './texts';
+import {
+  applyMatrix,
+  matrixScale,
+  operationKey,
+  resolveTransforms,
+  rotationAbout,
+  scalingAbout,
+  translation,
+} from './transforms';
+
+type XY = { x: number; y: number };
+
+// Screen pixels of slack when clicking a line or grabbing a handle
+export const HIT_SLOP = 6;
+export const HANDLE_SIZE = 8;
+// Screen pixels from the top of the transform box to its rotation handle
+export const ROTATE_HANDLE_OFFSET = 24;
+const ROTATE_SNAP = Math.PI / 12;
+// Scaling past zero would flip the selection through a degenerate matrix
+const MIN_SCALE = 0.05;
+
+/** A stroke, shape or text the selection tool can pick, in world space after its transforms. */
+export interface SelectableItem {
+  key: string;
+  op: DrawableOperation;
+  /** The polylines it is drawn with: a stroke's smoothed path, a shape's outline, a text's box. */
+  outlines: XY[][];
+  /** Texts are picked anywhere inside their box; strokes and shapes only near their lines. */
+  filled: boolean;
+  /** Line width as drawn. */
+  width: number;
+  bounds: Rect;
+}
+
+export type CornerHandle = 'nw' | 'ne' | 'se' | 'sw';
+export type TransformHandle = CornerHandle | 'rotate';
+
+/** A drag with the selection tool, from where the pointer went down. */
+export type SelectionGesture =
+  | { kind: 'lasso'; points: XY[] }
+  | { kind: 'move'; origin: XY; bounds: Rect }
+  | { kind: 'scale'; origin: XY; bounds: Rect; handle: CornerHandle }
+  | { kind: 'rotate'; origin: XY; bounds: Rect };
+
+export type TransformGesture = Exclude<SelectionGesture, { kind: 'lasso' }>;
+
+// Smoothing long strokes is the expensive part, and committed ones never change
+const outlineCache = new WeakMap<DrawableOperation, XY[][]>();
+
+function boxOutline({ x, y, width, height }: Rect): XY[] {
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+    { x, y },
+  ];
+}
+
+function outlineBounds(outlines: XY[][], width: number): Rect {
+  const points = outlines.flat();
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX - width / 2,
+    y: minY - width / 2,
+    width: Math.max(...xs) - minX + width,
+    height: Math.max(...ys) - minY + width,
+  };
+}
+
+function distanceToSegment(p: XY, a: XY, b: XY): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+export function distanceToPolyline(p: XY, line: XY[]): number {
+  if (line.length === 1) return Math.hypot(p.x - line[0].x, p.y - line[0].y);
+  let nearest = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    nearest = Math.min(nearest, distanceToSegment(p, line[i - 1], line[i]));
+  }
+  return nearest;
+}
+
+function segmentsCross(a: XY, b: XY, c: XY, d: XY): boolean {
+  const side = (p: XY, q: XY, r: XY) => (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+  const d1 = side(c, d, a);
+  const d2 = side(c, d, b);
+  const d3 = side(a, b, c);
+  const d4 = side(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+function distanceBetweenSegments(a: XY, b: XY, c: XY, d: XY): number {
+  if (segmentsCross(a, b, c, d)) return 0;
+  return Math.min(
+    distanceToSegment(a, c, d),
+    distanceToSegment(b, c, d),
+    distanceToSegment(c, a, b),
+    distanceToSegment(d, a, b)
+  );
+}
+
+/** Even-odd rule, so a self-crossing lasso behaves like one drawn on paper. */
+export function pointInPolygon(p: XY, polygon: XY[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Everything the selection tool can pick, bottom to top: operations after
+ * the last clear on visible, unlocked layers, with their edits and
+ * transforms applied. Deleted operations and eraser strokes are left out.
+ */
+export function selectableItems(
+  operations: DrawingOperation[],
+  layers: Layer[],
+  measure: MeasureText = measureTextWidth
+): SelectableItem[] {
+  const lastClear = operations.map(op => op.type).lastIndexOf('clear');
+  const edits = resolveTextEdits(operations);
+  const { matrices, deleted } = resolveTransforms(operations);
+  const stacked: { layerIndex: number; item: SelectableItem }[] = [];
+
+  for (const op of operations.slice(lastClear + 1)) {
+    if (op.type !== 'stroke' && op.type !== 'shape' && op.type !== 'text') continue;
+    if (op.type === 'stroke' && (op.tool === 'eraser' || op.points.length === 0)) continue;
+
+    const key = operationKey(op);
+    const layerIndex = layers.findIndex(layer => layer.id === layerOf(op));
+    const layer = layers[layerIndex];
+    if (!layer || !layer.visible || layer.locked || deleted.has(key)) continue;
+
+    let outlines: XY[][];
+    if (op.type === 'text') {
+      outlines = [boxOutline(layoutText(applyTextEdit(op, edits.get(key)), measure).bounds)];
+    } else {
+      outlines = outlineCache.get(op);
+      if (!outlines) {
+        outlines = op.type === 'stroke' ? [getStrokePath(op)] : shapeOutline(op);
+        outlineCache.set(op, outlines);
+      }
+    }
+
+    let width = op.type === 'text' ? 0 : op.width;
+    const matrix = matrices.get(key);
+    if (matrix) {
+      outlines = outlines.map(line => line.map(p => applyMatrix(matrix, p)));
+      width *= matrixScale(matrix);
+    }
+
+    stacked.push({
+      layerIndex,
+      item: { key, op, outlines, filled: op.type === 'text', width, bounds: outlineBounds(outlines, width) },
+    });
+  }
+
+  return stacked
+    .sort((a, b) => a.layerIndex - b.layerIndex)
+    .map(({ item }) => item);
+}
+
+/** The topmost item within `slop` world units of `point`. */
+export function itemAt(items: SelectableItem[], point: XY, slop: number): SelectableItem | null {
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i];
+    const { x, y, width, height } = item.bounds;
+    if (point.x < x - slop || point.x > x + width + slop || point.y < y - slop || point.y > y + height + slop) {
+      continue;
+    }
+    if (item.filled && pointInPolygon(point, item.outlines[0])) return item;
+    const reach = item.width / 2 + slop;
+    if (item.outlines.some(line => distanceToPolyline(point, line) <= reach)) return item;
+  }
+  return null;
+}
+
+/**
+ * Keys of the items a pointer sweeping from `from` to `to` with the given
+ * `radius` touches, for the object eraser. Texts are touched anywhere inside
+ * their box.
+ */
+export function itemsAlongSegment(items: SelectableItem[], from: XY, to: XY, radius: number): string[] {
+  const left = Math.min(from.x, to.x) - radius;
+  const top = Math.min(from.y, to.y) - radius;
+  const right = Math.max(from.x, to.x) + radius;
+  const bottom = Math.max(from.y, to.y) + radius;
+
+  return items
+    .filter(({ bounds, outlines, filled, width }) => {
+      if (bounds.x > right || bounds.x + bounds.width < left || bounds.y > bottom || bounds.y + bounds.height < top) {
+        return false;
+      }
+      if (filled && (pointInPolygon(from, outlines[0]) || pointInPolygon(to, outlines[0]))) return true;
+      const reach = width / 2 + radius;
+      return outlines.some(line => (line.length === 1
+        ? distanceToSegment(line[0], from, to) <= reach
+        : line.slice(1).some((p, i) => distanceBetweenSegments(from, to, line[i], p) <= reach)));
+    })
+    .map(item => item.key);
+}
+
+/** Keys of the items lying entirely inside the lasso. */
+export function itemsInLasso(items: SelectableItem[], lasso: XY[]): string[] {
+  if (lasso.length < 3) return [];
+  return items
+    .filter(item => item.outlines.every(line => line.every(p => pointInPolygon(p, lasso))))
+    .map(item => item.key);
+}
+
+/** Bounds of the selected items that are still there, or null if none are. */
+export function selectionBounds(items: SelectableItem[], keys: string[]): Rect | null {
+  const selected = new Set(keys);
+  return items.reduce<Rect | null>(
+    (bounds, item) => (selected.has(item.key) ? unionRects(bounds, item.bounds) : bounds),
+    null
+  );
+}
+
+/** Where the handles of the box around `bounds` sit, in world space at zoom `scale`. */
+export function handlePositions(bounds: Rect, scale: number): Record<TransformHandle, XY> {
+  const { x, y, width, height } = bounds;
+  return {
+    nw: { x, y },
+    ne: { x: x + width, y },
+    se: { x: x + width, y: y + height },
+    sw: { x, y: y + height },
+    rotate: { x: x + width / 2, y: y - ROTATE_HANDLE_OFFSET / scale },
+  };
+}
+
+export function handleAt(bounds: Rect, point: XY, scale: number): TransformHandle | null {
+  const positions = handlePositions(bounds, scale);
+  const reach = HANDLE_SIZE / scale;
+  const handles = Object.keys(positions) as TransformHandle[];
+  return handles.find(handle => (
+    Math.abs(point.x - positions[handle].x) <= reach && Math.abs(point.y - positions[handle].y) <= reach
+  )) ?? null;
+}
+
+function clampScale(scale: number): number {
+  return Math.abs(scale) < MIN_SCALE ? (scale < 0 ? -MIN_SCALE : MIN_SCALE) : scale;
+}
+
+/**
+ * The transform a drag has made so far. `constrain` (Shift) locks moves to
+ * an axis, keeps the aspect ratio when scaling and snaps rotation to 15°.
+ */
+export function gestureMatrix(gesture: TransformGesture, point: XY, constrain: boolean): Matrix {
+  const { origin, bounds } = gesture;
+
+  switch (gesture.kind) {
+    case 'move': {
+      const dx = point.x - origin.x;
+      const dy = point.y - origin.y;
+      if (!constrain) return translation(dx, dy);
+      return Math.abs(dx) >= Math.abs(dy) ? translation(dx, 0) : translation(0, dy);
+    }
+    case 'scale': {
+      const corners = handlePositions(bounds, 1);
+      const opposite: Record<CornerHandle, CornerHandle> = { nw: 'se', ne: 'sw', se: 'nw', sw: 'ne' };
+      const anchor = corners[opposite[gesture.handle]];
+      const corner = corners[gesture.handle];
+      let sx = (point.x - anchor.x) / (corner.x - anchor.x || 1);
+      let sy = (point.y - anchor.y) / (corner.y - anchor.y || 1);
+      if (constrain) {
+        sx = sy = Math.abs(sx) >= Math.abs(sy) ? sx : sy;
+      }
+      return scalingAbout(anchor, clampScale(sx), clampScale(sy));
+    }
+    case 'rotate': {
+      const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+      let angle = Math.atan2(point.y - center.y, point.x - center.x)
+        - Math.atan2(origin.y - center.y, origin.x - center.x);
+      if (constrain) angle = Math.round(angle / ROTATE_SNAP) * ROTATE_SNAP;
+      return rotationAbout(center, angle);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import type { Point, ShapeKind } from '@/types/canvas';
+import { distanceToPolyline } from './selection';
+import { shapeOutline, type ShapeGeometry } from './shapes';
+import { simplifyPoints } from './simplify';
+
+type XY = { x: number; y: number };
+
+/** A clean shape that a stroke looks like, and how sure we are of it. */
+export interface RecognizedShape {
+  shape: ShapeKind;
+  start: XY;
+  end: XY;
+  vertices?: XY[];
+  /** 0..1: how closely the ink follows the shape. */
+  confidence: number;
+}
+
+// Screen pixels below which a stroke is handwriting rather than a diagram
+const MIN_SIZE = 24;
+// Ends closer than this, as a fraction of the stroke's size, close it
+const CLOSED_GAP = 0.2;
+// Closed shapes thinner than this, relative to their length, are lines drawn twice
+const MIN_ASPECT = 0.15;
+// Corners are found by simplifying to within this fraction of the size
+const CORNER_TOLERANCE = 0.08;
+// Interior angles wider than this are a wobble along an edge, not a corner
+const MAX_CORNER_ANGLE = (150 * Math.PI) / 180;
+// An arrow head's barbs are at most this long relative to its shaft
+const MAX_HEAD_RATIO = 0.5;
+// Mean distance between ink and shape, relative to the size, at which confidence reaches zero
+const MAX_ERROR = 0.1;
+export const MIN_CONFIDENCE = 0.7;
+
+function sizeOf(points: XY[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+/** `line` with extra points every `step`, so distances to it can be averaged fairly. */
+function densify(line: XY[], step: number): XY[] {
+  const dense: XY[] = [line[0]];
+  for (let i = 1; i < line.length; i++) {
+    const a = line[i - 1];
+    const b = line[i];
+    const count = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / step));
+    for (let j = 1; j <= count; j++) {
+      dense.push({ x: a.x + ((b.x - a.x) * j) / count, y: a.y + ((b.y - a.y) * j) / count });
+    }
+  }
+  return dense;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * How far apart `ink` and the shape's outline are, both ways round so a
+ * half-drawn circle doesn't match a whole one, as a fraction of `size`.
+ */
+function fitError(ink: XY[], outlines: XY[][], size: number): number {
+  const shape = outlines.flatMap(line => densify(line, size / 50));
+  const inkToShape = mean(ink.map(p => Math.min(...outlines.map(line => distanceToPolyline(p, line)))));
+  const shapeToInk = mean(shape.map(p => distanceToPolyline(p, ink)));
+  return (inkToShape + shapeToInk) / 2 / size;
+}
+
+function angleAt(previous: XY, corner: XY, next: XY): number {
+  const a = Math.atan2(previous.y - corner.y, previous.x - corner.x);
+  const b = Math.atan2(next.y - corner.y, next.x - corner.x);
+  const angle = Math.abs(a - b);
+  return angle > Math.PI ? Math.PI * 2 - angle : angle;
+}
+
+/** Corners of a closed stroke: its simplified outline without points along straight edges. */
+function closedCorners(ink: Point[], size: number): XY[] {
+  const corners: XY[] = simplifyPoints(ink, size * CORNER_TOLERANCE).slice(0, -1);
+  let removed = true;
+  while (removed && corners.length > 3) {
+    removed = false;
+    for (let i = 0; i < corners.length; i++) {
+      const previous = corners[(i + corners.length - 1) % corners.length];
+      const next = corners[(i + 1) % corners.length];
+      if (angleAt(previous, corners[i], next) > MAX_CORNER_ANGLE) {
+        corners.splice(i, 1);
+        removed = true;
+        break;
+      }
+    }
+  }
+  return corners;
+}
+
+/**
+ * An arrow drawn in one go: a straight shaft, then a head of short strokes
+ * back and forth around its tip with barbs on both sides. Returns the shaft.
+ */
+function arrowShaft(ink: Point[], size: number): { start: Point; tip: Point } | null {
+  const vertices = simplifyPoints(ink, size * CORNER_TOLERANCE);
+  if (vertices.length < 4) return null;
+
+  const [start, tip] = vertices;
+  const shaftLength = Math.hypot(tip.x - start.x, tip.y - start.y);
+  const direction = { x: (tip.x - start.x) / shaftLength, y: (tip.y - start.y) / shaftLength };
+  const sides = new Set<number>();
+
+  for (const vertex of vertices.slice(2)) {
+    const dx = vertex.x - tip.x;
+    const dy = vertex.y - tip.y;
+    const length = Math.hypot(dx, dy);
+    if (length > shaftLength * MAX_HEAD_RATIO) return null;
+    // Barbs sweep back along the shaft; points back at the tip don't count
+    if (length < size * CORNER_TOLERANCE) continue;
+    if (dx * direction.x + dy * direction.y >= 0) return null;
+    sides.add(Math.sign(direction.x * dy - direction.y * dx));
+  }
+  return sides.has(1) && sides.has(-1) ? { start, tip } : null;
+}
+
+/**
+ * The clean shape a stroke resembles: a line or arrow for open strokes, a
+ * rectangle, ellipse or triangle for closed ones. Each candidate is scored
+ * by how closely ink and outline follow each other; the best one is
+ * returned if its confidence reaches MIN_CONFIDENCE. `scale` is the zoom
+ * the stroke was drawn at, so tiny scribbles are left alone.
+ */
+export function recognizeShape(ink: Point[], scale = 1): RecognizedShape | null {
+  if (ink.length < 3) return null;
+
+  const { minX, minY, maxX, maxY } = sizeOf(ink);
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const size = Math.hypot(width, height);
+  if (size * scale < MIN_SIZE) return null;
+
+  const first = ink[0];
+  const last = ink[ink.length - 1];
+  const closed = Math.hypot(last.x - first.x, last.y - first.y) <= size * CLOSED_GAP;
+  const candidates: { geometry: ShapeGeometry; ink: XY[] }[] = [];
+  const geometry = (shape: ShapeKind, start: XY, end: XY, vertices?: XY[]): ShapeGeometry => ({
+    shape,
+    start,
+    end,
+    vertices,
+    width: 0,
+  });
+
+  if (closed) {
+    if (Math.min(width, height) < Math.max(width, height) * MIN_ASPECT) return null;
+    const start = { x: minX, y: minY };
+    const end = { x: maxX, y: maxY };
+    candidates.push({ geometry: geometry('rectangle', start, end), ink });
+    candidates.push({ geometry: geometry('ellipse', start, end), ink });
+
+    const corners = closedCorners(ink, size);
+    if (corners.length === 3) {
+      const box = sizeOf(corners);
+      const vertices = corners.map(({ x, y }) => ({ x, y }));
+      candidates.push({
+        geometry: geometry('triangle', { x: box.minX, y: box.minY }, { x: box.maxX, y: box.maxY }, vertices),
+        ink,
+      });
+    }
+  } else {
+    candidates.push({ geometry: geometry('line', first, last), ink });
+
+    const shaft = arrowShaft(ink, size);
+    if (shaft) {
+      // Only the shaft is scored: the drawn head is rarely the size of ours
+      const shaftInk = ink.slice(0, ink.indexOf(shaft.tip) + 1);
+      candidates.push({ geometry: geometry('arrow', shaft.start, shaft.tip), ink: shaftInk });
+    }
+  }
+
+  let best: RecognizedShape | null = null;
+  for (const candidate of candidates) {
+    const outlines = candidate.geometry.shape === 'arrow'
+      ? [[candidate.geometry.start, candidate.geometry.end]]
+      : shapeOutline(candidate.geometry);
+    const confidence = 1 - fitError(candidate.ink, outlines, size) / MAX_ERROR;
+    if (!best || confidence > best.confidence) {
+      const { shape, start, end, vertices } = candidate.geometry;
+      best = { shape, start: { x: start.x, y: start.y }, end: { x: end.x, y: end.y }, confidence };
+      if (vertices) best.vertices = vertices;
+    }
+  }
+
+  return best && best.confidence >= MIN_CONFIDENCE ? best : null;
+}
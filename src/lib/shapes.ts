@@ -0,0 +1,124 @@
+import type { Rect, ShapeKind, ShapeOperation, ShapeTool, ToolType } from '@/types/canvas';
+
+type XY = { x: number; y: number };
+
+const SHAPE_TOOLS: readonly ShapeTool[] = ['line', 'rectangle', 'ellipse', 'arrow'];
+const ARROW_HEAD_ANGLE = Math.PI / 7;
+const MIN_ARROW_HEAD = 10;
+const CONSTRAIN_STEP = Math.PI / 4;
+const ELLIPSE_SEGMENTS = 48;
+
+export function isShapeTool(tool: ToolType): tool is ShapeTool {
+  return (SHAPE_TOOLS as readonly ToolType[]).includes(tool);
+}
+
+/**
+ * Where a Shift-drag ends: boxes become squares (so ellipses become circles)
+ * and lines and arrows snap to the nearest 45° at the same length.
+ */
+export function constrainShapeEnd(kind: ShapeKind, start: XY, end: XY): XY {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+
+  if (kind === 'rectangle' || kind === 'ellipse') {
+    const size = Math.max(Math.abs(dx), Math.abs(dy));
+    return {
+      x: start.x + (dx < 0 ? -size : size),
+      y: start.y + (dy < 0 ? -size : size),
+    };
+  }
+
+  const angle = Math.round(Math.atan2(dy, dx) / CONSTRAIN_STEP) * CONSTRAIN_STEP;
+  const length = Math.hypot(dx, dy);
+  return {
+    x: start.x + Math.cos(angle) * length,
+    y: start.y + Math.sin(angle) * length,
+  };
+}
+
+/** What a shape's geometry depends on, for shapes that aren't operations yet. */
+export type ShapeGeometry = Pick<ShapeOperation, 'shape' | 'start' | 'end' | 'width' | 'vertices'>;
+
+/** The two barb tips of an arrow's head, swept back from its end. */
+export function arrowHead(shape: ShapeGeometry): [XY, XY] {
+  const { start, end } = shape;
+  const length = Math.max(MIN_ARROW_HEAD, shape.width * 3);
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const barb = (side: number): XY => ({
+    x: end.x - length * Math.cos(angle + side * ARROW_HEAD_ANGLE),
+    y: end.y - length * Math.sin(angle + side * ARROW_HEAD_ANGLE),
+  });
+  return [barb(-1), barb(1)];
+}
+
+/** True if dragging from `start` to `end` drew nothing, e.g. a click. */
+export function isEmptyShape(shape: ShapeOperation): boolean {
+  return shape.start.x === shape.end.x && shape.start.y === shape.end.y;
+}
+
+/** A triangle's corners; without `vertices`, the isosceles one pointing up in its box. */
+export function triangleVertices(shape: ShapeGeometry): XY[] {
+  if (shape.vertices && shape.vertices.length === 3) return shape.vertices;
+  const { start, end } = shape;
+  return [
+    { x: (start.x + end.x) / 2, y: Math.min(start.y, end.y) },
+    { x: Math.max(start.x, end.x), y: Math.max(start.y, end.y) },
+    { x: Math.min(start.x, end.x), y: Math.max(start.y, end.y) },
+  ];
+}
+
+/** World-space bounds of a shape, including its outline width and arrow head. */
+export function getShapeBounds(shape: ShapeOperation): Rect {
+  const extra = shape.shape === 'arrow' ? arrowHead(shape) : shape.shape === 'triangle' ? triangleVertices(shape) : [];
+  const points = [shape.start, shape.end, ...extra];
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const pad = shape.width / 2;
+
+  return {
+    x: minX - pad,
+    y: minY - pad,
+    width: Math.max(...xs) - minX + shape.width,
+    height: Math.max(...ys) - minY + shape.width,
+  };
+}
+
+/** The polylines a shape is drawn with, for hit-testing, lasso selection and smart ink. */
+export function shapeOutline(shape: ShapeGeometry): XY[][] {
+  const { start, end } = shape;
+
+  switch (shape.shape) {
+    case 'line':
+      return [[start, end]];
+    case 'arrow': {
+      const [left, right] = arrowHead(shape);
+      return [[start, end], [left, end, right]];
+    }
+    case 'rectangle':
+      return [[
+        start,
+        { x: end.x, y: start.y },
+        end,
+        { x: start.x, y: end.y },
+        start,
+      ]];
+    case 'ellipse': {
+      const cx = (start.x + end.x) / 2;
+      const cy = (start.y + end.y) / 2;
+      const rx = Math.abs(end.x - start.x) / 2;
+      const ry = Math.abs(end.y - start.y) / 2;
+      const points: XY[] = [];
+      for (let i = 0; i <= ELLIPSE_SEGMENTS; i++) {
+        const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+        points.push({ x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) });
+      }
+      return [points];
+    }
+    case 'triangle': {
+      const vertices = triangleVertices(shape);
+      return [[...vertices, vertices[0]]];
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import type { Point } from '@/types/canvas';
+import { pressureWidth } from './stroke-outline';
+
+// Deviation a simplified stroke may show, in screen pixels: a tenth of the
+// stroke's width, but never less than half a pixel
+const WIDTH_TOLERANCE = 0.1;
+const MIN_TOLERANCE = 0.5;
+
+/** World-space tolerance for simplifying a stroke of `width` drawn at zoom `scale`. */
+export function simplifyTolerance(width: number, scale: number): number {
+  return Math.max(MIN_TOLERANCE, width * WIDTH_TOLERANCE) / scale;
+}
+
+/**
+ * How far dropping `p` would move the edges of the drawn stroke, were it
+ * replaced by the straight run from `a` to `b`: its distance to that run,
+ * plus the change in half-width where its pressure differs from what the
+ * run would interpolate.
+ */
+function deviation(p: Point, a: Point, b: Point, width: number): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  const offset = Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+
+  if (p.pressure === undefined || a.pressure === undefined || b.pressure === undefined) return offset;
+  const pressure = a.pressure + (b.pressure - a.pressure) * t;
+  return offset + Math.abs(pressureWidth(width, p.pressure) - pressureWidth(width, pressure)) / 2;
+}
+
+/**
+ * Ramer–Douglas–Peucker: keeps the fewest points such that no dropped point
+ * deviates more than `tolerance` from the simplified stroke. `width` weighs
+ * pressure changes, so a taper survives along a straight line. The first and
+ * last points are always kept.
+ */
+export function simplifyPoints(points: Point[], tolerance: number, width = 0): Point[] {
+  if (points.length < 3) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  // Explicit stack: long strokes would overflow a recursive split
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let worst = -1;
+    let worstDeviation = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = deviation(points[i], points[first], points[last], width);
+      if (d > worstDeviation) {
+        worst = i;
+        worstDeviation = d;
+      }
+    }
+    if (worst !== -1) {
+      keep[worst] = 1;
+      stack.push([first, worst], [worst, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i] === 1);
+}
@@ -0,0 +1,163 @@
+import type { Rect } from '@/types/canvas';
+
+const MAX_ENTRIES = 8;
+const MAX_DEPTH = 16;
+const INITIAL_BOUNDS: Rect = { x: -4096, y: -4096, width: 8192, height: 8192 };
+
+interface Entry {
+  id: string;
+  bounds: Rect;
+}
+
+interface QuadNode {
+  bounds: Rect;
+  entries: Entry[];
+  children: QuadNode[] | null;
+}
+
+export function intersects(a: Rect, b: Rect): boolean {
+  return a.x <= b.x + b.width
+    && b.x <= a.x + a.width
+    && a.y <= b.y + b.height
+    && b.y <= a.y + a.height;
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return inner.x >= outer.x
+    && inner.y >= outer.y
+    && inner.x + inner.width <= outer.x + outer.width
+    && inner.y + inner.height <= outer.y + outer.height;
+}
+
+function createNode(bounds: Rect): QuadNode {
+  return { bounds, entries: [], children: null };
+}
+
+/**
+ * Loose quadtree of rectangles keyed by id. Each entry lives in the smallest
+ * node that fully contains it. The board is unbounded, so the root doubles
+ * in size (and the tree is rebuilt) whenever an entry falls outside it.
+ */
+export class Quadtree {
+  private root: QuadNode;
+  private nodes = new Map<string, QuadNode>();
+
+  constructor(bounds: Rect = INITIAL_BOUNDS) {
+    this.root = createNode(bounds);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  insert(id: string, bounds: Rect): void {
+    this.remove(id);
+
+    if (!contains(this.root.bounds, bounds)) {
+      this.grow(bounds);
+    }
+    this.insertInto(this.root, { id, bounds }, 0);
+  }
+
+  remove(id: string): void {
+    const node = this.nodes.get(id);
+    if (!node) return;
+
+    node.entries = node.entries.filter(entry => entry.id !== id);
+    this.nodes.delete(id);
+  }
+
+  clear(): void {
+    this.root = createNode(this.root.bounds);
+    this.nodes.clear();
+  }
+
+  /** Ids of every entry whose bounds intersect `area`, in no particular order. */
+  query(area: Rect): string[] {
+    const result: string[] = [];
+    const stack = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!intersects(node.bounds, area)) continue;
+
+      for (const entry of node.entries) {
+        if (intersects(entry.bounds, area)) result.push(entry.id);
+      }
+      if (node.children) stack.push(...node.children);
+    }
+
+    return result;
+  }
+
+  private insertInto(node: QuadNode, entry: Entry, depth: number): void {
+    let target = node;
+    let level = depth;
+
+    for (;;) {
+      if (!target.children) {
+        if (target.entries.length < MAX_ENTRIES || level >= MAX_DEPTH) break;
+        this.split(target, level);
+      }
+
+      const child = target.children!.find(c => contains(c.bounds, entry.bounds));
+      if (!child) break;
+      target = child;
+      level++;
+    }
+
+    target.entries.push(entry);
+    this.nodes.set(entry.id, target);
+  }
+
+  private split(node: QuadNode, depth: number): void {
+    const { x, y, width, height } = node.bounds;
+    const w = width / 2;
+    const h = height / 2;
+    node.children = [
+      createNode({ x, y, width: w, height: h }),
+      createNode({ x: x + w, y, width: w, height: h }),
+      createNode({ x, y: y + h, width: w, height: h }),
+      createNode({ x: x + w, y: y + h, width: w, height: h }),
+    ];
+
+    const entries = node.entries;
+    node.entries = [];
+    for (const entry of entries) {
+      const child = node.children.find(c => contains(c.bounds, entry.bounds));
+      if (child) {
+        this.insertInto(child, entry, depth + 1);
+      } else {
+        node.entries.push(entry);
+      }
+    }
+  }
+
+  private grow(bounds: Rect): void {
+    const entries: Entry[] = [];
+    const stack = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      entries.push(...node.entries);
+      if (node.children) stack.push(...node.children);
+    }
+
+    let next = this.root.bounds;
+    while (!contains(next, bounds)) {
+      next = {
+        x: next.x - next.width / 2,
+        y: next.y - next.height / 2,
+        width: next.width * 2,
+        height: next.height * 2,
+      };
+    }
+
+    this.root = createNode(next);
+    this.nodes.clear();
+    for (const entry of entries) this.insertInto(this.root, entry, 0);
+  }
+}
@@ -0,0 +1,93 @@
+import type { Point } from '@/types/canvas';
+
+type XY = { x: number; y: number };
+
+// Width at zero pressure and at full pressure, as a multiple of the brush
+// width; half pressure draws the brush width itself.
+const MIN_WIDTH_FACTOR = 0.25;
+const MAX_WIDTH_FACTOR = 1.75;
+// World units per millisecond at which simulated pressure bottoms out
+const MAX_SIMULATED_SPEED = 2;
+const MIN_SIMULATED_PRESSURE = 0.1;
+// How quickly simulated pressure follows the speed, per point
+const SIMULATED_SMOOTHING = 0.3;
+const CAP_SEGMENTS = 8;
+
+export function pressureWidth(width: number, pressure = 0.5): number {
+  return width * (MIN_WIDTH_FACTOR + (MAX_WIDTH_FACTOR - MIN_WIDTH_FACTOR) * pressure);
+}
+
+/**
+ * Fills in pressure for points that have none (mouse and touch input) from
+ * how fast the pointer moved: slow strokes swell, fast ones thin out like a
+ * pen. Points with real pressure are kept as they are.
+ */
+export function simulatePressure(points: Point[]): Point[] {
+  let pressure = 0.5;
+  return points.map((point, i) => {
+    if (point.pressure !== undefined) {
+      pressure = point.pressure;
+      return point;
+    }
+    if (i > 0) {
+      const previous = points[i - 1];
+      const speed = Math.hypot(point.x - previous.x, point.y - previous.y)
+        / Math.max(1, point.timestamp - previous.timestamp);
+      const target = Math.max(MIN_SIMULATED_PRESSURE, 1 - speed / MAX_SIMULATED_SPEED);
+      pressure += (target - pressure) * SIMULATED_SMOOTHING;
+    }
+    return { ...point, pressure };
+  });
+}
+
+/** Points on the arc around `center` from angle `from` to `to`, excluding both ends. */
+function arc(center: XY, radius: number, from: number, to: number): XY[] {
+  const points: XY[] = [];
+  for (let i = 1; i < CAP_SEGMENTS; i++) {
+    const angle = from + ((to - from) * i) / CAP_SEGMENTS;
+    points.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+  }
+  return points;
+}
+
+/**
+ * The filled polygon of a stroke along `path` whose width follows each
+ * point's pressure: both edges offset along the path's normals, joined by
+ * round caps. A single point is a dot.
+ */
+export function strokeOutline(path: Point[], width: number): XY[] {
+  if (path.length === 0) return [];
+  const radii = path.map(point => pressureWidth(width, point.pressure) / 2);
+
+  if (path.length === 1) {
+    return arc(path[0], radii[0], 0, Math.PI * 2);
+  }
+
+  const left: XY[] = [];
+  const right: XY[] = [];
+  let normal = { x: 0, y: -1 };
+
+  path.forEach((point, i) => {
+    const before = path[Math.max(0, i - 1)];
+    const after = path[Math.min(path.length - 1, i + 1)];
+    const dx = after.x - before.x;
+    const dy = after.y - before.y;
+    const length = Math.hypot(dx, dy);
+    // Repeated points keep the previous direction
+    if (length > 0) normal = { x: -dy / length, y: dx / length };
+
+    left.push({ x: point.x + normal.x * radii[i], y: point.y + normal.y * radii[i] });
+    right.push({ x: point.x - normal.x * radii[i], y: point.y - normal.y * radii[i] });
+  });
+
+  const last = path.length - 1;
+  const startAngle = Math.atan2(left[0].y - path[0].y, left[0].x - path[0].x);
+  const endAngle = Math.atan2(left[last].y - path[last].y, left[last].x - path[last].x);
+
+  return [
+    ...left,
+    ...arc(path[last], radii[last], endAngle, endAngle - Math.PI),
+    ...right.reverse(),
+    ...arc(path[0], radii[0], startAngle + Math.PI, startAngle),
+  ];
+}
@@ -0,0 +1,288 @@
+import { supabase } from '@/integrations/supabase/client';
+import { RejectedWriteError } from './sync-transport';
+import type {
+  SyncTransport,
+  OperationRow,
+  OperationInsert,
+  InsertOptions,
+  OperationHandlers,
+  SnapshotRow,
+  SnapshotInsert,
+  RoomRow,
+  RoomInsert,
+  PresenceState,
+  PresenceHandle,
+  BroadcastHandle,
+} from './sync-transport';
+import type { WSMessage } from '@/types/canvas';
+
+// Postgres error classes a retry can't fix (bad data, constraints, permissions)
+// and PostgREST request errors; PGRST0xx are connection failures
+const REJECTED_CODE = /^(22|23|42|PGRST[1-9])/;
+
+function writeError(error: { code?: string; message: string }): unknown {
+  return REJECTED_CODE.test(error.code ?? '') ? new RejectedWriteError(error.message) : error;
+}
+
+export class SupabaseTransport implements SyncTransport {
+  async fetchRoom(roomId: string): Promise<RoomRow | null> {
+    const { data, error } = await supabase
+      .from('rooms')
+      .select('*')
+      .eq('id', roomId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async createRoom(row: RoomInsert): Promise<RoomRow> {
+    const { data, error } = await supabase
+      .from('rooms')
+      .insert(row)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async fetchOperations(
+    roomId: string,
+    afterSequence?: number,
+    limit?: number
+  ): Promise<OperationRow[]> {
+    let query = supabase
+      .from('operations')
+      .select('*')
+      .eq('room_id', roomId);
+
+    if (afterSequence !== undefined) {
+      query = query.gt('sequence', afterSequence);
+    }
+
+    let ordered = query.order('sequence', { ascending: true });
+    if (limit !== undefined) {
+      ordered = ordered.limit(limit);
+    }
+
+    const { data, error } = await ordered;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async countOperations(roomId: string, afterSequence?: number): Promise<number> {
+    let query = supabase
+      .from('operations')
+      .select('*', { count: 'exact', head: true })
+      .eq('room_id', roomId);
+
+    if (afterSequence !== undefined) {
+      query = query.gt('sequence', afterSequence);
+    }
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async insertOperation(row: OperationInsert, options?: InsertOptions): Promise<OperationRow> {
+    if (options?.clearRedo) {
+      const { data, error } = await supabase
+        .rpc('commit_operation', {
+          p_room_id: row.room_id,
+          p_user_id: row.user_id,
+          p_user_name: row.user_name,
+          p_user_color: row.user_color,
+          p_type: row.type,
+          p_data: row.data,
+        })
+        .single();
+
+      if (error) throw writeError(error);
+      return data;
+    }
+
+    const { data, error } = await supabase
+      .from('operations')
+      .insert(row)
+      .select('*')
+      .single();
+
+    if (error) throw writeError(error);
+    return data;
+  }
+
+  async findOperation(roomId: string, clientId: string): Promise<OperationRow | null> {
+    const { data, error } = await supabase
+      .from('operations')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('data->>id', clientId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteOperation(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('operations')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async undoLast(roomId: string, userId?: string): Promise<OperationRow | null> {
+    const { data, error } = await supabase
+      .rpc('undo_last', { p_room_id: roomId, p_user_id: userId })
+      .maybeSingle();
+
+    if (error) throw writeError(error);
+    return data;
+  }
+
+  async redoLast(roomId: string, userId?: string): Promise<OperationRow | null> {
+    const { data, error } = await supabase
+      .rpc('redo_last', { p_room_id: roomId, p_user_id: userId })
+      .maybeSingle();
+
+    if (error) throw writeError(error);
+    return data;
+  }
+
+  async countRedo(roomId: string, userId?: string): Promise<number> {
+    let query = supabase
+      .from('redo_stack')
+      .select('*', { count: 'exact', head: true })
+      .eq('room_id', roomId);
+
+    if (userId) {
+      query = query.eq('operation_data->>user_id', userId);
+    }
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async fetchLatestSnapshot(roomId: string): Promise<SnapshotRow | null> {
+    const { data, error } = await supabase
+      .from('snapshots')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('sequence', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async insertSnapshot(row: SnapshotInsert): Promise<SnapshotRow> {
+    const { data, error } = await supabase
+      .from('snapshots')
+      .insert(row)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  subscribeOperations(roomId: string, handlers: OperationHandlers): () => Promise<void> {
+    const channel = supabase
+      .channel(`room:${roomId}:operations`)
+      .on<OperationRow>(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'operations',
+          filter: `room_id=eq.${roomId}`,
+        },
+        (payload) => {
+          handlers.onInsert(payload.new);
+        }
+      )
+      .on<OperationRow>(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'operations',
+          filter: `room_id=eq.${roomId}`,
+        },
+        (payload) => {
+          const deletedId = payload.old?.id;
+          if (deletedId) {
+            handlers.onDelete(deletedId);
+          }
+        }
+      )
+      .subscribe((status) => {
+        handlers.onStatusChange?.(status === 'SUBSCRIBED');
+      });
+
+    return async () => {
+      await supabase.removeChannel(channel);
+    };
+  }
+
+  joinPresence(
+    roomId: string,
+    initialState: PresenceState,
+    onSync: (states: PresenceState[]) => void
+  ): PresenceHandle {
+    const channel = supabase.channel(`room:${roomId}:presence`, {
+      config: {
+        presence: { key: initialState.userId },
+      },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresenceState>();
+        onSync(Object.values(state).flat());
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track(initialState);
+        }
+      });
+
+    return {
+      track: async (state) => {
+        await channel.track(state);
+      },
+      leave: async () => {
+        await supabase.removeChannel(channel);
+      },
+    };
+  }
+
+  joinBroadcast(roomId: string, onMessage: (message: WSMessage) => void): BroadcastHandle {
+    const channel = supabase.channel(`room:${roomId}:strokes`, {
+      config: {
+        broadcast: { self: false },
+      },
+    });
+
+    channel
+      .on('broadcast', { event: 'message' }, ({ payload }) => {
+        onMessage(payload as WSMessage);
+      })
+      .subscribe();
+
+    return {
+      send: async (message) => {
+        await channel.send({ type: 'broadcast', event: 'message', payload: message });
+      },
+      leave: async () => {
+        await supabase.removeChannel(channel);
+      },
+    };
+  }
+}
@@ -1,13 +1,58 @@
-import { supabase } from '@/integrations/supabase/client';
 import type { 
   DrawingOperation, 
   StrokeOperation,
+  ShapeOperation,
+  TextOperation,
+  TextEditOperation,
+  TransformOperation,
+  DeleteOperation,
+  ClearOperation,
+  LayerOperation,
+  LayerSnapshot,
   UserPresence,
   Point,
+  WSMessage,
+  WSMessageType,
+  StrokeStartPayload,
+  StrokeMovePayload,
+  StrokeEndPayload,
+  StrokeCancelPayload,
+  SnapshotCommitPayload,
+  UndoScope,
+  HistoryResult,
+  CanvasSnapshot,
+  RoomState,
+  LoadProgress,
+  CanvasSize,
 } from '@/types/canvas';
-import { RealtimeChannel } from '@supabase/supabase-js';
+import { DEFAULT_CANVAS_SIZE, DEFAULT_LAYER } from '@/types/canvas';
+import { Outbox, MemoryOutboxStore } from './outbox';
+import { encodePoints, decodePoints, encodeCoordinates, decodeCoordinates } from './point-codec';
+import { DEFAULT_TEXT_WIDTH } from './texts';
+import { operationTargets } from './transforms';
+import type { OutboxStore, OutboxIntent, OutboxEntry } from './outbox';
+import type {
+  SyncTransport,
+  OperationRow,
+  OperationInsert,
+  SnapshotRow,
+  PresenceHandle,
+  PresenceState,
+  BroadcastHandle,
+} from './sync-transport';
 
 const DEFAULT_ROOM_ID = '00000000-0000-0000-0000-000000000001';
+const SNAPSHOT_INTERVAL = 500;
+// Matches Supabase's default max rows per request.
+const PAGE_SIZE = 1000;
+// Retrying a queue that failed to flush while connected backs off from the
+// first delay, doubling up to the last
+const RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+type OperationEvent =
+  | { kind: 'insert'; row: OperationRow }
+  | { kind: 'delete'; id: string };
 
 function rowToOperation(row: any): DrawingOperation {
   if (row.type === 'stroke') {
@@ -18,10 +63,88 @@ function rowToOperation(row: any): DrawingOperation {
       color: row.data?.color || '#000000',
       width: row.data?.width || 4,
       tool: row.data?.tool || 'brush',
-      points: row.data?.points || [],
+      points: decodePoints(row.data?.points),
+      controls: row.data?.controls ? decodeCoordinates(row.data.controls) : undefined,
       startTime: new Date(row.created_at).getTime(),
       sequence: Number(row.sequence),
+      layerId: row.data?.layerId,
+      clientId: row.data?.id,
     } as StrokeOperation;
+  } else if (row.type === 'shape') {
+    return {
+      id: row.id,
+      type: 'shape',
+      userId: row.user_id,
+      shape: row.data?.shape,
+      color: row.data?.color || '#000000',
+      width: row.data?.width || 4,
+      start: row.data?.start,
+      end: row.data?.end,
+      vertices: row.data?.vertices,
+      timestamp: new Date(row.created_at).getTime(),
+      sequence: Number(row.sequence),
+      layerId: row.data?.layerId,
+      clientId: row.data?.id,
+    } as ShapeOperation;
+  } else if (row.type === 'text') {
+    return {
+      id: row.id,
+      type: 'text',
+      userId: row.user_id,
+      content: row.data?.content ?? '',
+      fontSize: row.data?.fontSize || 18,
+      color: row.data?.color || '#000000',
+      x: row.data?.x ?? 0,
+      y: row.data?.y ?? 0,
+      width: row.data?.width || DEFAULT_TEXT_WIDTH,
+      timestamp: new Date(row.created_at).getTime(),
+      sequence: Number(row.sequence),
+      layerId: row.data?.layerId,
+      clientId: row.data?.id,
+    } as TextOperation;
+  } else if (row.type === 'text-edit') {
+    return {
+      id: row.id,
+      type: 'text-edit',
+      userId: row.user_id,
+      textId: row.data?.textId,
+      content: row.data?.content ?? '',
+      width: row.data?.width || DEFAULT_TEXT_WIDTH,
+      timestamp: new Date(row.created_at).getTime(),
+      sequence: Number(row.sequence),
+      clientId: row.data?.id,
+    } as TextEditOperation;
+  } else if (row.type === 'transform') {
+    return {
+      id: row.id,
+      type: 'transform',
+      userId: row.user_id,
+      targetIds: row.data?.targetIds ?? [],
+      matrix: row.data?.matrix,
+      timestamp: new Date(row.created_at).getTime(),
+      sequence: Number(row.sequence),
+      clientId: row.data?.id,
+    } as TransformOperation;
+  } else if (row.type === 'delete') {
+    return {
+      id: row.id,
+      type: 'delete',
+      userId: row.user_id,
+      targetIds: row.data?.targetIds ?? [],
+      timestamp: new Date(row.created_at).getTime(),
+      sequence: Number(row.sequence),
+      clientId: row.data?.id,
+    } as DeleteOperation;
+  } else if (row.type === 'layer') {
+    return {
+      id: row.id,
+      type: 'layer',
+      userId: row.user_id,
+      timestamp: new Date(row.created_at).getTime(),
+      sequence: Number(row.sequence),
+      change: row.data?.change,
+      clientId: row.data?.id,
+    } as LayerOperation;
   } else {
     return {
       id: row.id,
@@ -29,34 +152,140 @@ function rowToOperation(row: any): DrawingOperation {
       userId: row.user_id,
       timestamp: new Date(row.created_at).getTime(),
       sequence: Number(row.sequence),
+      clientId: row.data?.id,
     };
   }
 }
 
+/** The `data` column of an operation's row: what `rowToOperation` reads back. */
+function operationData(op: DrawingOperation): OperationInsert['data'] {
+  let data: object;
+  switch (op.type) {
+    case 'stroke':
+      data = {
+        id: op.id,
+        color: op.color,
+        width: op.width,
+        tool: op.tool,
+        points: encodePoints(op.points),
+        controls: op.controls && encodeCoordinates(op.controls),
+        layerId: op.layerId,
+      };
+      break;
+    case 'shape':
+      data = {
+        id: op.id,
+        shape: op.shape,
+        color: op.color,
+        width: op.width,
+        start: op.start,
+        end: op.end,
+        vertices: op.vertices,
+        layerId: op.layerId,
+      };
+      break;
+    case 'text':
+      data = {
+        id: op.id,
+        content: op.content,
+        fontSize: op.fontSize,
+        color: op.color,
+        x: op.x,
+        y: op.y,
+        width: op.width,
+        layerId: op.layerId,
+      };
+      break;
+    case 'text-edit':
+      data = { id: op.id, textId: op.textId, content: op.content, width: op.width };
+      break;
+    case 'transform':
+      data = { id: op.id, targetIds: op.targetIds, matrix: op.matrix };
+      break;
+    case 'delete':
+      data = { id: op.id, targetIds: op.targetIds };
+      break;
+    case 'layer':
+      data = { id: op.id, change: op.change };
+      break;
+    case 'clear':
+      data = { id: op.id };
+      break;
+  }
+  // Drops undefined fields, which JSON columns can't hold
+  return JSON.parse(JSON.stringify(data));
+}
+
+function clientIdOf(row: OperationRow): string | undefined {
+  return (row.data as { id?: string } | null)?.id;
+}
+
+function rowToSnapshot(row: SnapshotRow): CanvasSnapshot {
+  // Snapshots from before layers hold a single image of the default layer
+  const layers = Array.isArray(row.layers)
+    ? (row.layers as unknown as LayerSnapshot[])
+    : [{ ...DEFAULT_LAYER, image: row.image, x: row.x, y: row.y, width: row.width, height: row.height }];
+
+  return {
+    id: row.id,
+    sequence: Number(row.sequence),
+    layers,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
 export class SyncService {
+  private transport: SyncTransport;
   private roomId: string;
   private userId: string;
   private userName: string;
   private userColor: string;
-  private operationsChannel: RealtimeChannel | null = null;
-  private presenceChannel: RealtimeChannel | null = null;
+  private unsubscribeOperations: (() => Promise<void>) | null = null;
+  private presence: PresenceHandle | null = null;
+  private broadcast: BroadcastHandle | null = null;
   private onOperationReceived: ((op: DrawingOperation) => void) | null = null;
   private onOperationDeleted: ((id: string) => void) | null = null;
   private onPresenceChanged: ((users: UserPresence[]) => void) | null = null;
+  private onStrokeMessage: ((message: WSMessage) => void) | null = null;
+  private onConnectionChanged: ((connected: boolean) => void) | null = null;
+  private onResync: ((state: RoomState) => void) | null = null;
+  private onLoadProgress: ((progress: LoadProgress) => void) | null = null;
+  private onSnapshot: ((snapshot: CanvasSnapshot) => void) | null = null;
+  private outbox: Outbox;
   private isConnected: boolean = false;
+  private isFlushing: boolean = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempts = 0;
+  private undoScope: UndoScope = 'global';
+  private snapshot: CanvasSnapshot | null = null;
+  private liveSequences: Map<string, number> = new Map();
+  // The same operations by client id, which is how later operations target them
+  private liveClientIds: Map<string, number> = new Map();
+  // Client ids of our own inserts whose realtime echo hasn't arrived yet
+  private ownInserts: Set<string> = new Set();
+  private loadBuffer: OperationEvent[] | null = null;
+  private roomSize: CanvasSize = DEFAULT_CANVAS_SIZE;
 
   constructor(
+    transport: SyncTransport,
     userId: string,
     userName: string,
     userColor: string,
-    roomId: string = DEFAULT_ROOM_ID
+    roomId: string = DEFAULT_ROOM_ID,
+    outboxStore: OutboxStore = new MemoryOutboxStore()
   ) {
+    this.transport = transport;
     this.userId = userId;
     this.userName = userName;
     this.userColor = userColor;
     this.roomId = roomId;
+    this.outbox = new Outbox(outboxStore, roomId);
   }
 
+  /**
+   * Called for every committed operation except the ones this client
+   * inserted itself, including redos of our operations by someone else.
+   */
   setOnOperationReceived(callback: (op: DrawingOperation) => void) {
     this.onOperationReceived = callback;
   }
@@ -69,65 +298,98 @@ export class SyncService {
     this.onPresenceChanged = callback;
   }
 
-  async connect(): Promise<DrawingOperation[]> {
-    const { data: existingOps, error: fetchError } = await supabase
-      .from('operations')
-      .select('*')
-      .eq('room_id', this.roomId)
-      .order('sequence', { ascending: true });
-
-    if (fetchError) {
-      throw fetchError;
-    }
-
-    const operations = (existingOps || []).map(rowToOperation);
-
-    this.operationsChannel = supabase
-      .channel(`room:${this.roomId}:operations`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'operations',
-          filter: `room_id=eq.${this.roomId}`,
-        },
-        (payload) => {
-          const op = rowToOperation(payload.new);
-          if (op.userId !== this.userId) {
-            this.onOperationReceived?.(op);
-          }
+  setOnStrokeMessage(callback: (message: WSMessage) => void) {
+    this.onStrokeMessage = callback;
+  }
+
+  setUndoScope(scope: UndoScope) {
+    this.undoScope = scope;
+  }
+
+  setOnConnectionChanged(callback: (connected: boolean) => void) {
+    this.onConnectionChanged = callback;
+  }
+
+  setOnResync(callback: (state: RoomState) => void) {
+    this.onResync = callback;
+  }
+
+  setOnOutboxChanged(callback: (pendingCount: number) => void) {
+    this.outbox.setOnChange(callback);
+  }
+
+  setOnLoadProgress(callback: (progress: LoadProgress) => void) {
+    this.onLoadProgress = callback;
+  }
+
+  /**
+   * Called when a snapshot newer than ours is committed mid-session, by us or
+   * another client. Operations it covers are no longer delivered.
+   */
+  setOnSnapshot(callback: (snapshot: CanvasSnapshot) => void) {
+    this.onSnapshot = callback;
+  }
+
+  async connect(): Promise<RoomState> {
+    try {
+      await this.outbox.load();
+    } catch {
+      // Start with an empty queue if persisted intents can't be read.
+    }
+
+    this.roomSize = await this.loadRoomSize();
+
+    // Subscribe before loading so nothing committed mid-load is missed; events
+    // are held until the last page is in.
+    this.loadBuffer = [];
+    this.unsubscribeOperations = this.transport.subscribeOperations(this.roomId, {
+      onInsert: (row) => {
+        if (this.loadBuffer) {
+          this.loadBuffer.push({ kind: 'insert', row });
+        } else {
+          this.handleInsert(row);
         }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'DELETE',
-          schema: 'public',
-          table: 'operations',
-          filter: `room_id=eq.${this.roomId}`,
-        },
-        (payload) => {
-          const deletedId = (payload.old as any)?.id;
-          if (deletedId) {
-            this.onOperationDeleted?.(deletedId);
-          }
+      },
+      onDelete: (id) => {
+        if (this.loadBuffer) {
+          this.loadBuffer.push({ kind: 'delete', id });
+        } else {
+          this.handleDelete(id);
+        }
+      },
+      onStatusChange: (connected) => {
+        const wasConnected = this.isConnected;
+        this.isConnected = connected;
+        this.onConnectionChanged?.(connected);
+        if (connected && !wasConnected && !this.loadBuffer) {
+          void this.flushOutbox();
         }
-      )
-      .subscribe((status) => {
-        this.isConnected = status === 'SUBSCRIBED';
-      });
-
-    this.presenceChannel = supabase.channel(`room:${this.roomId}:presence`, {
-      config: {
-        presence: { key: this.userId },
       },
     });
 
-    this.presenceChannel
-      .on('presence', { event: 'sync' }, () => {
-        const state = this.presenceChannel?.presenceState() || {};
-        const users: UserPresence[] = Object.values(state).flat().map((p: any) => ({
+    let state: RoomState;
+    try {
+      state = await this.fetchRoomState((progress) => this.onLoadProgress?.(progress));
+    } catch (error) {
+      this.loadBuffer = null;
+      await this.disconnect();
+      throw error;
+    }
+
+    const needsResync = this.applyLoadBuffer(state);
+    this.loadBuffer = null;
+    if (needsResync) {
+      void this.resync();
+    }
+    if (this.isConnected) {
+      void this.flushOutbox();
+    }
+
+    this.presence = this.transport.joinPresence(
+      this.roomId,
+      this.presenceState(null, false),
+      (states) => {
+        const users: UserPresence[] = states.map((p) => ({
           id: p.userId,
           name: p.userName,
           color: p.userColor,
@@ -136,173 +398,567 @@ export class SyncService {
           lastSeen: p.lastSeen || Date.now(),
         }));
         this.onPresenceChanged?.(users);
-      })
-      .subscribe(async (status) => {
-        if (status === 'SUBSCRIBED') {
-          await this.presenceChannel?.track({
-            userId: this.userId,
-            userName: this.userName,
-            userColor: this.userColor,
-            cursor: null,
-            isDrawing: false,
-            lastSeen: Date.now(),
-          });
+      }
+    );
+
+    this.broadcast = this.transport.joinBroadcast(this.roomId, (message) => {
+      if (message.userId === this.userId) return;
+      if (message.type === 'snapshot:commit') {
+        void this.loadLatestSnapshot();
+      } else {
+        this.onStrokeMessage?.(message);
+      }
+    });
+
+    return state;
+  }
+
+  /**
+   * Reads the room's logical size, creating the room with the default size on
+   * first use. Falls back to the default if the room can't be read or made.
+   */
+  private async loadRoomSize(): Promise<CanvasSize> {
+    try {
+      const room = await this.transport.fetchRoom(this.roomId)
+        ?? await this.transport.createRoom({ id: this.roomId, ...DEFAULT_CANVAS_SIZE });
+      return { width: room.width, height: room.height };
+    } catch {
+      return DEFAULT_CANVAS_SIZE;
+    }
+  }
+
+  private handleInsert(row: OperationRow) {
+    // Already part of the snapshot we adopted
+    if (this.snapshot && Number(row.sequence) <= this.snapshot.sequence) return;
+
+    const op = rowToOperation(row);
+    if (this.reachesIntoSnapshot(op)) {
+      // The server has dropped our snapshot; rebuild from an older one.
+      void this.resync();
+      return;
+    }
+    this.trackLive(row);
+    // Only our own inserts are already on our canvas; a redo restores a row
+    // under its original author, who still has to hear of it.
+    const clientId = clientIdOf(row);
+    if (clientId && this.ownInserts.delete(clientId)) return;
+    this.onOperationReceived?.(op);
+  }
+
+  /**
+   * True if `op` changes an operation baked into our snapshot. Clients keep
+   * baked operations out of reach, but one may commit before it hears of
+   * the snapshot; the server then invalidates the snapshot.
+   */
+  private reachesIntoSnapshot(op: DrawingOperation): boolean {
+    if (!this.snapshot) return false;
+    return operationTargets(op).some(key => !this.liveClientIds.has(key) && !this.liveSequences.has(key));
+  }
+
+  private handleDelete(id: string) {
+    if (this.snapshot && !this.liveSequences.has(id)) {
+      // The operation is baked into our snapshot; the server has already
+      // invalidated that snapshot, so rebuild from an older one.
+      void this.resync();
+      return;
+    }
+    this.liveSequences.delete(id);
+    this.onOperationDeleted?.(id);
+  }
+
+  /**
+   * Folds realtime events received during the initial load into `state`.
+   * Returns true if a delete reached behind the snapshot.
+   */
+  private applyLoadBuffer(state: RoomState): boolean {
+    let needsResync = false;
+
+    for (const event of this.loadBuffer ?? []) {
+      if (event.kind === 'insert') {
+        const sequence = Number(event.row.sequence);
+        const behindSnapshot = state.snapshot && sequence <= state.snapshot.sequence;
+        if (!this.liveSequences.has(event.row.id) && !behindSnapshot) {
+          this.trackLive(event.row);
+          state.operations.push(rowToOperation(event.row));
         }
+      } else if (this.liveSequences.delete(event.id)) {
+        state.operations = state.operations.filter(op => op.id !== event.id);
+      } else if (state.snapshot) {
+        needsResync = true;
+      }
+    }
+
+    state.operations.sort((a, b) => a.sequence - b.sequence);
+    return needsResync;
+  }
+
+  /**
+   * Loads the latest snapshot and then the operations after it, a page at a
+   * time. Falls back to the full log if snapshots can't be read.
+   */
+  private async fetchRoomState(
+    onProgress?: (progress: LoadProgress) => void
+  ): Promise<RoomState> {
+    let snapshot: CanvasSnapshot | null = null;
+    try {
+      const row = await this.transport.fetchLatestSnapshot(this.roomId);
+      snapshot = row ? rowToSnapshot(row) : null;
+    } catch {
+      snapshot = null;
+    }
+
+    const total = onProgress
+      ? await this.transport.countOperations(this.roomId, snapshot?.sequence)
+      : 0;
+    const liveSequences = new Map<string, number>();
+    const liveClientIds = new Map<string, number>();
+    const operations: DrawingOperation[] = [];
+    let after = snapshot?.sequence;
+
+    for (;;) {
+      const page = await this.transport.fetchOperations(this.roomId, after, PAGE_SIZE);
+      const pageOperations = page.map(rowToOperation);
+      page.forEach(row => {
+        liveSequences.set(row.id, Number(row.sequence));
+        const clientId = clientIdOf(row);
+        if (clientId) liveClientIds.set(clientId, Number(row.sequence));
+      });
+      operations.push(...pageOperations);
+      onProgress?.({
+        size: this.roomSize,
+        snapshot,
+        operations: pageOperations,
+        loaded: operations.length,
+        total: Math.max(total, operations.length),
       });
 
-    return operations;
+      if (page.length < PAGE_SIZE) break;
+      after = Number(page[page.length - 1].sequence);
+    }
+
+    this.snapshot = snapshot;
+    this.liveSequences = liveSequences;
+    this.liveClientIds = liveClientIds;
+
+    return { size: this.roomSize, snapshot, operations };
+  }
+
+  private async resync(): Promise<void> {
+    try {
+      const state = await this.fetchRoomState();
+      this.onResync?.(state);
+    } catch {
+      // Keep the current view; the next resync or reload will correct it.
+    }
+  }
+
+  /** True once enough operations have piled up past the latest snapshot. */
+  shouldSnapshot(): boolean {
+    return this.liveSequences.size >= SNAPSHOT_INTERVAL;
+  }
+
+  /**
+   * Stores the layer stack and a rendered image of each layer as of
+   * `sequence`. Callers must only include confirmed operations with a
+   * sequence at or below it.
+   */
+  async commitSnapshot(
+    sequence: number,
+    layers: LayerSnapshot[]
+  ): Promise<CanvasSnapshot | null> {
+    try {
+      const row = await this.transport.insertSnapshot({
+        room_id: this.roomId,
+        sequence,
+        layers: JSON.parse(JSON.stringify(layers)),
+        created_by: this.userId,
+      });
+      const snapshot = rowToSnapshot(row);
+      if (this.adoptSnapshot(snapshot)) {
+        this.onSnapshot?.(snapshot);
+        const payload: SnapshotCommitPayload = { sequence: snapshot.sequence };
+        await this.sendMessage('snapshot:commit', payload);
+      }
+      return snapshot;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Picks up the snapshot another client announced, if it is newer than ours. */
+  private async loadLatestSnapshot(): Promise<void> {
+    try {
+      const row = await this.transport.fetchLatestSnapshot(this.roomId);
+      const snapshot = row ? rowToSnapshot(row) : null;
+      if (snapshot && this.adoptSnapshot(snapshot)) {
+        this.onSnapshot?.(snapshot);
+      }
+    } catch {
+      // Keep the current snapshot; operations stay live until the next one.
+    }
+  }
+
+  /** Makes `snapshot` ours if it is newer, forgetting the operations it covers. */
+  private adoptSnapshot(snapshot: CanvasSnapshot): boolean {
+    if (this.snapshot && snapshot.sequence <= this.snapshot.sequence) return false;
+
+    this.snapshot = snapshot;
+    for (const live of [this.liveSequences, this.liveClientIds]) {
+      for (const [id, seq] of live) {
+        if (seq <= snapshot.sequence) live.delete(id);
+      }
+    }
+    return true;
   }
 
   async disconnect() {
-    if (this.operationsChannel) {
-      await supabase.removeChannel(this.operationsChannel);
-      this.operationsChannel = null;
+    if (this.unsubscribeOperations) {
+      await this.unsubscribeOperations();
+      this.unsubscribeOperations = null;
+    }
+    if (this.presence) {
+      await this.presence.leave();
+      this.presence = null;
     }
-    if (this.presenceChannel) {
-      await supabase.removeChannel(this.presenceChannel);
-      this.presenceChannel = null;
+    if (this.broadcast) {
+      await this.broadcast.leave();
+      this.broadcast = null;
     }
     this.isConnected = false;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
   }
 
-  async commitStroke(stroke: StrokeOperation): Promise<number | null> {
-    await this.clearRedoStack();
-
-    const strokeData = JSON.parse(JSON.stringify({
+  async broadcastStrokeStart(stroke: StrokeOperation): Promise<void> {
+    const payload: StrokeStartPayload = {
       id: stroke.id,
+      type: 'stroke',
+      userId: stroke.userId,
       color: stroke.color,
       width: stroke.width,
       tool: stroke.tool,
       points: stroke.points,
-    }));
+      startTime: stroke.startTime,
+      layerId: stroke.layerId,
+    };
+    await this.sendMessage('stroke:start', payload);
+  }
+
+  async broadcastStrokeMove(strokeId: string, points: Point[]): Promise<void> {
+    const payload: StrokeMovePayload = { strokeId, points };
+    await this.sendMessage('stroke:move', payload);
+  }
+
+  async broadcastStrokeEnd(strokeId: string): Promise<void> {
+    const payload: StrokeEndPayload = { strokeId };
+    await this.sendMessage('stroke:end', payload);
+  }
+
+  async broadcastStrokeCancel(strokeId: string): Promise<void> {
+    const payload: StrokeCancelPayload = { strokeId };
+    await this.sendMessage('stroke:cancel', payload);
+  }
+
+  private async sendMessage(type: WSMessageType, payload: unknown): Promise<void> {
+    if (!this.broadcast) return;
+
+    try {
+      await this.broadcast.send({
+        type,
+        payload,
+        userId: this.userId,
+        timestamp: Date.now(),
+      });
+    } catch {
+      // Broadcasts are best-effort; committed operations and snapshots are authoritative.
+    }
+  }
+
+  /**
+   * Returns the confirmed operation, carrying the server id and sequence, or
+   * null if the stroke was queued for later.
+   */
+  async commitStroke(stroke: StrokeOperation): Promise<StrokeOperation | null> {
+    return this.commitOperation(stroke, { kind: 'stroke', stroke });
+  }
+
+  /** Commits a finished shape like a stroke; returns the confirmed operation or null if queued. */
+  async commitShape(shape: ShapeOperation): Promise<ShapeOperation | null> {
+    return this.commitOperation(shape, { kind: 'shape', shape });
+  }
+
+  /** Commits a new text; returns the confirmed operation or null if queued. */
+  async commitText(text: TextOperation): Promise<TextOperation | null> {
+    return this.commitOperation(text, { kind: 'text', text });
+  }
+
+  /**
+   * Appends an edit of an existing text rather than rewriting its row, so
+   * other clients pick it up live and undo restores the previous content.
+   */
+  async commitTextEdit(edit: TextEditOperation): Promise<TextEditOperation | null> {
+    return this.commitOperation(edit, { kind: 'text-edit', edit });
+  }
 
-    const { data, error } = await supabase
-      .from('operations')
-      .insert({
+  /**
+   * Appends a move, scale or rotation of earlier operations; their own rows
+   * never change, so undo puts them back.
+   */
+  async commitTransform(transform: TransformOperation): Promise<TransformOperation | null> {
+    return this.commitOperation(transform, { kind: 'transform', transform });
+  }
+
+  /** Appends a delete of earlier operations, which undo brings back. */
+  async commitDelete(deletion: DeleteOperation): Promise<DeleteOperation | null> {
+    return this.commitOperation(deletion, { kind: 'delete', deletion });
+  }
+
+  /**
+   * Appends a clear to the log rather than deleting rows, so it renders as a
+   * wipe and can be undone like any stroke.
+   */
+  async commitClear(clear: ClearOperation): Promise<ClearOperation | null> {
+    return this.commitOperation(clear, { kind: 'clear', clear });
+  }
+
+  /** Appends a change to the layer stack; returns the confirmed operation or null if queued. */
+  async commitLayer(layer: LayerOperation): Promise<LayerOperation | null> {
+    return this.commitOperation(layer, { kind: 'layer', layer });
+  }
+
+  /**
+   * Inserts `operation`, or queues `intent` if we're offline, earlier intents
+   * are still queued, or the insert fails.
+   */
+  private async commitOperation<T extends DrawingOperation>(
+    operation: T,
+    intent: OutboxIntent
+  ): Promise<T | null> {
+    if (!this.isConnected || this.outbox.size() > 0) {
+      await this.queue(intent);
+      return null;
+    }
+
+    try {
+      const row = await this.insertOperation(operation, true);
+      this.trackLive(row);
+      return rowToOperation(row) as T;
+    } catch {
+      await this.queue(intent);
+      this.scheduleFlush();
+      return null;
+    }
+  }
+
+  /**
+   * Inserts `operation` as ours. A new commit also drops our own redo entries
+   * in the same write; a replay of a queued one must not, as entries undone
+   * since it was queued are still redoable.
+   */
+  private async insertOperation(operation: DrawingOperation, clearRedo: boolean): Promise<OperationRow> {
+    // The echo may arrive before the insert returns
+    this.ownInserts.add(operation.id);
+    try {
+      return await this.transport.insertOperation({
         room_id: this.roomId,
         user_id: this.userId,
         user_name: this.userName,
         user_color: this.userColor,
-        type: 'stroke',
-        data: strokeData,
-      })
-      .select('id, sequence')
-      .single();
+        type: operation.type,
+        data: operationData(operation),
+      }, { clearRedo });
+    } catch (error) {
+      this.ownInserts.delete(operation.id);
+      throw error;
+    }
+  }
 
-    if (error) {
-      return null;
+  /** Undoes the latest operation in scope; the result carries the removed row's id. */
+  async undoLast(): Promise<HistoryResult<string>> {
+    const intent: OutboxIntent = { kind: 'undo', scope: this.undoScope };
+    if (!this.isConnected || this.outbox.size() > 0) {
+      await this.queue(intent);
+      return { status: 'queued' };
     }
 
-    return data?.sequence || null;
+    try {
+      const id = await this.applyUndo(this.undoScope);
+      return id ? { status: 'applied', value: id } : { status: 'empty' };
+    } catch {
+      await this.queue(intent);
+      this.scheduleFlush();
+      return { status: 'queued' };
+    }
   }
 
-  async commitClear(): Promise<void> {
-    await supabase
-      .from('operations')
-      .delete()
-      .eq('room_id', this.roomId);
+  private async applyUndo(scope: UndoScope): Promise<string | null> {
+    const undone = await this.transport.undoLast(this.roomId, this.scopeUserId(scope));
+    return undone?.id ?? null;
   }
 
-  async undoLast(): Promise<string | null> {
-    const { data: lastOp, error: fetchError } = await supabase
-      .from('operations')
-      .select('*')
-      .eq('room_id', this.roomId)
-      .order('sequence', { ascending: false })
-      .limit(1)
-      .single();
+  /** Restores the latest undone operation in scope; the result carries it. */
+  async redoLast(): Promise<HistoryResult<DrawingOperation>> {
+    const intent: OutboxIntent = { kind: 'redo', scope: this.undoScope };
+    if (!this.isConnected || this.outbox.size() > 0) {
+      await this.queue(intent);
+      return { status: 'queued' };
+    }
 
-    if (fetchError || !lastOp) {
-      return null;
+    try {
+      const operation = await this.applyRedo(this.undoScope);
+      return operation ? { status: 'applied', value: operation } : { status: 'empty' };
+    } catch {
+      await this.queue(intent);
+      this.scheduleFlush();
+      return { status: 'queued' };
     }
+  }
 
-    await supabase
-      .from('redo_stack')
-      .insert({
-        room_id: this.roomId,
-        original_id: lastOp.id,
-        operation_data: JSON.parse(JSON.stringify(lastOp)),
-      });
+  private async applyRedo(scope: UndoScope): Promise<DrawingOperation | null> {
+    const restored = await this.transport.redoLast(this.roomId, this.scopeUserId(scope));
+    if (!restored) return null;
+    this.trackLive(restored);
+    return rowToOperation(restored);
+  }
 
-    const { error: deleteError } = await supabase
-      .from('operations')
-      .delete()
-      .eq('id', lastOp.id);
+  /** Records an operation newer than the current snapshot. */
+  private trackLive(row: OperationRow) {
+    this.liveSequences.set(row.id, Number(row.sequence));
+    const clientId = clientIdOf(row);
+    if (clientId) this.liveClientIds.set(clientId, Number(row.sequence));
+  }
 
-    if (deleteError) {
-      return null;
+  private async queue(intent: OutboxIntent): Promise<void> {
+    try {
+      await this.outbox.enqueue(intent);
+    } catch {
+      // The in-memory queue still holds the intent if persisting it failed.
     }
-
-    return lastOp.id;
   }
 
-  async redoLast(): Promise<DrawingOperation | null> {
-    const { data: redoItem, error: fetchError } = await supabase
-      .from('redo_stack')
-      .select('*')
-      .eq('room_id', this.roomId)
-      .order('deleted_at', { ascending: false })
-      .limit(1)
-      .single();
+  /**
+   * Replays queued intents in order, then re-fetches the room log so local
+   * state picks up the sequences the server assigned to them. Whatever is
+   * still queued afterwards is retried with backoff.
+   */
+  async flushOutbox(): Promise<void> {
+    if (this.isFlushing || !this.isConnected || this.outbox.size() === 0) return;
+    this.isFlushing = true;
+
+    try {
+      const removed = await this.outbox.flush((entry) => this.applyOutboxEntry(entry));
+      if (removed > 0) {
+        await this.resync();
+      }
+    } catch {
+      // Whatever is still queued is retried below.
+    } finally {
+      this.isFlushing = false;
+    }
 
-    if (fetchError || !redoItem) {
-      return null;
+    if (this.outbox.size() > 0) {
+      this.scheduleFlush();
+    } else {
+      this.retryAttempts = 0;
     }
+  }
 
-    const opData = redoItem.operation_data as any;
+  /**
+   * Flushes again after a delay. Without this an insert that failed while
+   * connected would hold every later commit in the queue until a reconnect.
+   */
+  private scheduleFlush() {
+    if (this.retryTimer || !this.isConnected) return;
+    const delay = Math.min(MAX_RETRY_DELAY, RETRY_DELAY * 2 ** this.retryAttempts++);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flushOutbox();
+    }, delay);
+  }
 
-    const { data: newOp, error: insertError } = await supabase
-      .from('operations')
-      .insert({
-        room_id: this.roomId,
-        user_id: opData.user_id,
-        user_name: opData.user_name,
-        user_color: opData.user_color,
-        type: opData.type,
-        data: opData.data,
-      })
-      .select('*')
-      .single();
-
-    if (insertError || !newOp) {
-      return null;
+  private async applyOutboxEntry(entry: OutboxEntry): Promise<void> {
+    switch (entry.kind) {
+      case 'stroke':
+        await this.replayOperation(entry.stroke);
+        break;
+      case 'shape':
+        await this.replayOperation(entry.shape);
+        break;
+      case 'text':
+        await this.replayOperation(entry.text);
+        break;
+      case 'text-edit':
+        await this.replayOperation(entry.edit);
+        break;
+      case 'transform':
+        await this.replayOperation(entry.transform);
+        break;
+      case 'delete':
+        await this.replayOperation(entry.deletion);
+        break;
+      case 'undo':
+        await this.applyUndo(entry.scope);
+        break;
+      case 'redo':
+        await this.applyRedo(entry.scope);
+        break;
+      case 'clear':
+        await this.replayOperation(entry.clear);
+        break;
+      case 'layer':
+        await this.replayOperation(entry.layer);
+        break;
     }
+  }
 
-    await supabase
-      .from('redo_stack')
-      .delete()
-      .eq('id', redoItem.id);
+  /**
+   * Inserts a queued operation unless an earlier attempt already did, which
+   * happens when the insert went through but its response was lost.
+   */
+  private async replayOperation(operation: DrawingOperation): Promise<void> {
+    const existing = await this.transport.findOperation(this.roomId, operation.id);
+    if (!existing) {
+      await this.insertOperation(operation, false);
+    }
+  }
 
-    return rowToOperation(newOp);
+  getPendingCount(): number {
+    return this.outbox.size();
   }
 
   async hasRedoAvailable(): Promise<boolean> {
-    const { count } = await supabase
-      .from('redo_stack')
-      .select('*', { count: 'exact', head: true })
-      .eq('room_id', this.roomId);
-
-    return (count || 0) > 0;
+    try {
+      const count = await this.transport.countRedo(
+        this.roomId,
+        this.scopeUserId(this.undoScope)
+      );
+      return count > 0;
+    } catch {
+      return false;
+    }
   }
 
-  async clearRedoStack(): Promise<void> {
-    await supabase
-      .from('redo_stack')
-      .delete()
-      .eq('room_id', this.roomId);
+  private scopeUserId(scope: UndoScope): string | undefined {
+    return scope === 'user' ? this.userId : undefined;
   }
 
   async updateCursor(cursor: Point | null, isDrawing: boolean = false) {
-    if (!this.presenceChannel) return;
+    if (!this.presence) return;
 
-    await this.presenceChannel.track({
+    await this.presence.track(this.presenceState(cursor, isDrawing));
+  }
+
+  private presenceState(cursor: Point | null, isDrawing: boolean): PresenceState {
+    return {
       userId: this.userId,
       userName: this.userName,
       userColor: this.userColor,
       cursor,
       isDrawing,
       lastSeen: Date.now(),
-    });
+    };
   }
 
   getIsConnected(): boolean {
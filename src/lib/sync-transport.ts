@@ -0,0 +1,109 @@
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { Point, WSMessage } from '@/types/canvas';
+import { SupabaseTransport } from './supabase-transport';
+import { LocalTransport } from './local-transport';
+
+export type OperationRow = Tables<'operations'>;
+export type OperationInsert = TablesInsert<'operations'>;
+export type RedoRow = Tables<'redo_stack'>;
+export type SnapshotRow = Tables<'snapshots'>;
+export type SnapshotInsert = TablesInsert<'snapshots'>;
+export type RoomRow = Tables<'rooms'>;
+export type RoomInsert = TablesInsert<'rooms'>;
+
+export interface PresenceState {
+  userId: string;
+  userName: string;
+  userColor: string;
+  cursor: Point | null;
+  isDrawing: boolean;
+  lastSeen: number;
+}
+
+export interface OperationHandlers {
+  onInsert: (row: OperationRow) => void;
+  onDelete: (id: string) => void;
+  onStatusChange?: (connected: boolean) => void;
+}
+
+export interface InsertOptions {
+  clearRedo?: boolean;
+}
+
+export interface BroadcastHandle {
+  send: (message: WSMessage) => Promise<void>;
+  leave: () => Promise<void>;
+}
+
+export interface PresenceHandle {
+  track: (state: PresenceState) => Promise<void>;
+  leave: () => Promise<void>;
+}
+
+/**
+ * Thrown by transports for a write the backend refused, such as one that
+ * breaks a constraint. Unlike a network failure, retrying it can't succeed.
+ */
+export class RejectedWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RejectedWriteError';
+  }
+}
+
+/**
+ * Storage and realtime backend used by SyncService. Implementations throw on
+ * failure; SyncService decides which failures are fatal.
+ */
+export interface SyncTransport {
+  fetchRoom(roomId: string): Promise<RoomRow | null>;
+  createRoom(row: RoomInsert): Promise<RoomRow>;
+
+  /**
+   * Operations in sequence order, optionally only those after `afterSequence`
+   * and at most `limit` of them.
+   */
+  fetchOperations(roomId: string, afterSequence?: number, limit?: number): Promise<OperationRow[]>;
+  countOperations(roomId: string, afterSequence?: number): Promise<number>;
+  /**
+   * Appends an operation. With `clearRedo` the inserting user's redo entries
+   * are dropped in the same transaction, since new work supersedes them.
+   */
+  insertOperation(row: OperationInsert, options?: InsertOptions): Promise<OperationRow>;
+  /** The operation the client committed as `clientId` (its `data.id`), if it is in the log. */
+  findOperation(roomId: string, clientId: string): Promise<OperationRow | null>;
+  deleteOperation(id: string): Promise<void>;
+
+  /**
+   * Atomically moves the room's latest operation (optionally only `userId`'s)
+   * onto the redo stack and returns it, or null if there is nothing to undo.
+   */
+  undoLast(roomId: string, userId?: string): Promise<OperationRow | null>;
+  /** Atomically re-inserts the latest redo entry and returns the new row. */
+  redoLast(roomId: string, userId?: string): Promise<OperationRow | null>;
+  countRedo(roomId: string, userId?: string): Promise<number>;
+
+  fetchLatestSnapshot(roomId: string): Promise<SnapshotRow | null>;
+  insertSnapshot(row: SnapshotInsert): Promise<SnapshotRow>;
+
+  /** Returns an unsubscribe function. */
+  subscribeOperations(roomId: string, handlers: OperationHandlers): () => Promise<void>;
+
+  /** Joins the room's presence set and tracks `initialState` once joined. */
+  joinPresence(
+    roomId: string,
+    initialState: PresenceState,
+    onSync: (states: PresenceState[]) => void
+  ): PresenceHandle;
+
+  /** Ephemeral fan-out to other clients in the room; nothing is stored. */
+  joinBroadcast(roomId: string, onMessage: (message: WSMessage) => void): BroadcastHandle;
+
+  close?(): void;
+}
+
+export type TransportKind = 'supabase' | 'local';
+
+export function createSyncTransport(kind: TransportKind = 'supabase'): SyncTransport {
+  return kind === 'local' ? new LocalTransport() : new SupabaseTransport();
+}
@@ -0,0 +1,141 @@
+import type {
+  DrawingOperation,
+  Layer,
+  Rect,
+  TextEditOperation,
+  TextOperation,
+} from '@/types/canvas';
+import { BRUSH_WIDTHS } from '@/types/canvas';
+import { layerOf } from './layers';
+import { operationKey } from './transforms';
+
+export const TEXT_FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+export const TEXT_LINE_HEIGHT = 1.25;
+export const DEFAULT_TEXT_WIDTH = 320;
+// Font size for each brush width, so the size buttons drive both
+const TEXT_SIZES = [14, 18, 24, 32, 48];
+// Rough advance per character when no canvas is available to measure with
+const FALLBACK_CHAR_WIDTH = 0.6;
+
+export type MeasureText = (text: string, fontSize: number) => number;
+
+export interface TextLayout {
+  lines: string[];
+  lineHeight: number;
+  bounds: Rect;
+}
+
+export function textFont(fontSize: number): string {
+  return `${fontSize}px ${TEXT_FONT_FAMILY}`;
+}
+
+export function fontSizeForWidth(width: number): number {
+  const index = BRUSH_WIDTHS.indexOf(width as typeof BRUSH_WIDTHS[number]);
+  return TEXT_SIZES[index === -1 ? 1 : index];
+}
+
+let measureContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null | undefined;
+
+/** Measures with a shared detached canvas, in a worker or on the main thread. */
+export const measureTextWidth: MeasureText = (text, fontSize) => {
+  if (measureContext === undefined) {
+    const canvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(1, 1)
+      : document.createElement('canvas');
+    measureContext = (canvas as HTMLCanvasElement).getContext('2d');
+  }
+  if (!measureContext) return text.length * fontSize * FALLBACK_CHAR_WIDTH;
+
+  measureContext.font = textFont(fontSize);
+  return measureContext.measureText(text).width;
+};
+
+/** The latest edit of each text, by text key, among `operations` in order. */
+export function resolveTextEdits(operations: DrawingOperation[]): Map<string, TextEditOperation> {
+  const edits = new Map<string, TextEditOperation>();
+  for (const op of operations) {
+    if (op.type === 'text-edit') edits.set(op.textId, op);
+  }
+  return edits;
+}
+
+export function applyTextEdit(text: TextOperation, edit: TextEditOperation | undefined): TextOperation {
+  return edit ? { ...text, content: edit.content, width: edit.width } : text;
+}
+
+/** Splits a word wider than `width` wherever it overflows. */
+function breakWord(word: string, width: number, fontSize: number, measure: MeasureText): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+  for (const char of word) {
+    if (piece && measure(piece + char, fontSize) > width) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += char;
+  }
+  pieces.push(piece);
+  return pieces;
+}
+
+/** Wraps `text` at word boundaries to its width; explicit newlines always break. */
+export function layoutText(text: TextOperation, measure: MeasureText = measureTextWidth): TextLayout {
+  const { content, fontSize, width } = text;
+  const lines: string[] = [];
+
+  for (const paragraph of content.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate, fontSize) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      const pieces = breakWord(word, width, fontSize, measure);
+      lines.push(...pieces.slice(0, -1));
+      line = pieces[pieces.length - 1];
+    }
+    lines.push(line);
+  }
+
+  const lineHeight = fontSize * TEXT_LINE_HEIGHT;
+  return {
+    lines,
+    lineHeight,
+    bounds: { x: text.x, y: text.y, width, height: lines.length * lineHeight },
+  };
+}
+
+/**
+ * The topmost text under `point` on a visible, unlocked layer, with its
+ * latest edit applied. Texts before the last clear are gone and never match.
+ */
+export function findTextAt(
+  operations: DrawingOperation[],
+  layers: Layer[],
+  point: { x: number; y: number },
+  measure: MeasureText = measureTextWidth
+): TextOperation | null {
+  const lastClear = operations.map(op => op.type).lastIndexOf('clear');
+  const edits = resolveTextEdits(operations);
+  let found: TextOperation | null = null;
+  let foundLayer = -1;
+
+  for (const op of operations.slice(lastClear + 1)) {
+    if (op.type !== 'text') continue;
+
+    const layerIndex = layers.findIndex(layer => layer.id === layerOf(op));
+    const layer = layers[layerIndex];
+    if (!layer || !layer.visible || layer.locked || layerIndex < foundLayer) continue;
+
+    const text = applyTextEdit(op, edits.get(operationKey(op)));
+    const { x, y, width, height } = layoutText(text, measure).bounds;
+    if (point.x >= x && point.x <= x + width && point.y >= y && point.y <= y + height) {
+      found = text;
+      foundLayer = layerIndex;
+    }
+  }
+
+  return found;
+}
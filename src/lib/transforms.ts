@@ -0,0 +1,128 @@
+import type { DrawingOperation, Matrix, Rect } from '@/types/canvas';
+
+type XY = { x: number; y: number };
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * How later operations refer to `op`: its client id, which survives
+ * confirmation, or its id if it never had one.
+ */
+export function operationKey(op: { id: string; clientId?: string }): string {
+  return op.clientId ?? op.id;
+}
+
+/** `m` applied after `n`. */
+export function multiply(m: Matrix, n: Matrix): Matrix {
+  const [a, b, c, d, e, f] = m;
+  const [a2, b2, c2, d2, e2, f2] = n;
+  return [
+    a * a2 + c * b2,
+    b * a2 + d * b2,
+    a * c2 + c * d2,
+    b * c2 + d * d2,
+    a * e2 + c * f2 + e,
+    b * e2 + d * f2 + f,
+  ];
+}
+
+export function applyMatrix(m: Matrix, point: XY): XY {
+  const [a, b, c, d, e, f] = m;
+  return { x: a * point.x + c * point.y + e, y: b * point.x + d * point.y + f };
+}
+
+export function isIdentity(m: Matrix): boolean {
+  return m.every((value, i) => Math.abs(value - IDENTITY[i]) < 1e-9);
+}
+
+export function sameMatrix(a: Matrix | undefined, b: Matrix | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.every((value, i) => value === b[i]);
+}
+
+export function translation(dx: number, dy: number): Matrix {
+  return [1, 0, 0, 1, dx, dy];
+}
+
+/** Scales by (sx, sy) keeping `origin` in place. */
+export function scalingAbout(origin: XY, sx: number, sy: number): Matrix {
+  return [sx, 0, 0, sy, origin.x - sx * origin.x, origin.y - sy * origin.y];
+}
+
+/** Rotates by `angle` radians (clockwise on screen) keeping `origin` in place. */
+export function rotationAbout(origin: XY, angle: number): Matrix {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    cos,
+    sin,
+    -sin,
+    cos,
+    origin.x - cos * origin.x + sin * origin.y,
+    origin.y - sin * origin.x - cos * origin.y,
+  ];
+}
+
+/** How much the matrix scales lengths on average, for line widths and hit slop. */
+export function matrixScale(m: Matrix): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+/** Bounds of `rect` after transforming its corners. */
+export function transformRect(m: Matrix, rect: Rect): Rect {
+  const corners = [
+    applyMatrix(m, { x: rect.x, y: rect.y }),
+    applyMatrix(m, { x: rect.x + rect.width, y: rect.y }),
+    applyMatrix(m, { x: rect.x, y: rect.y + rect.height }),
+    applyMatrix(m, { x: rect.x + rect.width, y: rect.y + rect.height }),
+  ];
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+export interface ResolvedTransforms {
+  /** Composed matrix per operation key, for operations that were transformed. */
+  matrices: Map<string, Matrix>;
+  /** Keys of deleted operations. */
+  deleted: Set<string>;
+}
+
+/**
+ * Keys of the earlier operations that `op` changes. Once those are baked
+ * into a snapshot, `op` can't be replayed over its pixels.
+ */
+export function operationTargets(op: DrawingOperation): string[] {
+  switch (op.type) {
+    case 'transform':
+    case 'delete':
+      return op.targetIds;
+    case 'text-edit':
+      return [op.textId];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Folds `transform` and `delete` operations, in order, into where each
+ * target ended up. Operations that are never transformed have no entry.
+ */
+export function resolveTransforms(operations: DrawingOperation[]): ResolvedTransforms {
+  const matrices = new Map<string, Matrix>();
+  const deleted = new Set<string>();
+
+  for (const op of operations) {
+    if (op.type === 'transform') {
+      for (const key of op.targetIds) {
+        matrices.set(key, multiply(op.matrix, matrices.get(key) ?? IDENTITY));
+      }
+    } else if (op.type === 'delete') {
+      op.targetIds.forEach(key => deleted.add(key));
+    }
+  }
+
+  return { matrices, deleted };
+}
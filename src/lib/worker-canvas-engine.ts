@@ -0,0 +1,237 @@
+import {
+  CanvasEngine,
+  fitToViewport,
+  panViewport,
+  zoomViewport,
+  screenToWorld,
+  eventToWorld,
+  type CanvasRenderer,
+  type LayerRaster,
+} from './canvas-engine';
+import type { RenderRequest, RenderResponse } from './render-protocol';
+import type {
+  Point,
+  StrokeOperation,
+  ShapeOperation,
+  TransformPreview,
+  DrawingOperation,
+  CanvasSize,
+  ViewportTransform,
+  LayerSnapshot,
+} from '@/types/canvas';
+import { DEFAULT_CANVAS_SIZE } from '@/types/canvas';
+
+interface PendingRequest {
+  resolve: (response: RenderResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Main-thread stand-in for a `CanvasEngine` running in a worker on the
+ * canvas's OffscreenCanvas. Viewport state is kept here so coordinate
+ * lookups stay synchronous; everything that draws is posted to the worker.
+ */
+export class WorkerCanvasEngine implements CanvasRenderer {
+  private canvas: HTMLCanvasElement;
+  private worker: Worker;
+  private width = 800;
+  private height = 600;
+  private logicalSize: CanvasSize = DEFAULT_CANVAS_SIZE;
+  private viewport: ViewportTransform = { scale: 1, offsetX: 0, offsetY: 0 };
+  private viewportMoved = false;
+  // The list last sent, compared by reference to post only what changed
+  private operations: DrawingOperation[] = [];
+  private snapshotVersion = 0;
+  private nextRequestId = 0;
+  private requests: Map<number, PendingRequest> = new Map();
+
+  constructor(canvas: HTMLCanvasElement, worker: Worker) {
+    this.canvas = canvas;
+    this.worker = worker;
+    this.worker.onmessage = (event: MessageEvent<RenderResponse>) => this.handleResponse(event.data);
+
+    const offscreen = canvas.transferControlToOffscreen();
+    this.post({ type: 'init', canvas: offscreen, dpr: window.devicePixelRatio || 1 }, [offscreen]);
+  }
+
+  resize(width: number, height: number): void {
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+    this.width = width;
+    this.height = height;
+    this.post({ type: 'resize', width, height });
+
+    if (this.viewportMoved) {
+      this.post({ type: 'viewport', viewport: this.viewport });
+    } else {
+      this.fitView();
+    }
+  }
+
+  setLogicalSize(size: CanvasSize): void {
+    this.logicalSize = size;
+    this.post({ type: 'logical-size', size });
+    this.fitView();
+  }
+
+  getViewport(): ViewportTransform {
+    return this.viewport;
+  }
+
+  fitView(): void {
+    this.setViewport(fitToViewport(this.logicalSize, this.getDimensions()), false);
+  }
+
+  panBy(dx: number, dy: number): void {
+    this.setViewport(panViewport(this.viewport, dx, dy), true);
+  }
+
+  zoomAt(factor: number, x: number, y: number): void {
+    this.setViewport(zoomViewport(this.viewport, factor, x, y), true);
+  }
+
+  toWorld(x: number, y: number): { x: number; y: number } {
+    return screenToWorld(this.viewport, x, y);
+  }
+
+  getDimensions(): { width: number; height: number } {
+    return { width: this.width, height: this.height };
+  }
+
+  getEventCoordinates(e: PointerEvent | MouseEvent): Point {
+    return eventToWorld(this.canvas, this.viewport, e);
+  }
+
+  setOperations(operations: DrawingOperation[]): void {
+    const previous = this.operations;
+    const limit = Math.min(operations.length, previous.length);
+    let keep = 0;
+    while (keep < limit && operations[keep] === previous[keep]) keep++;
+
+    this.operations = operations;
+    if (keep === operations.length && keep === previous.length) return;
+    this.post({ type: 'operations', keep, append: operations.slice(keep) });
+  }
+
+  setCurrentStroke(stroke: StrokeOperation | null): void {
+    this.post({ type: 'current-stroke', stroke });
+  }
+
+  setCurrentShape(shape: ShapeOperation | null): void {
+    this.post({ type: 'current-shape', shape });
+  }
+
+  setEditingText(textId: string | null): void {
+    this.post({ type: 'editing-text', textId });
+  }
+
+  setTransformPreview(preview: TransformPreview | null): void {
+    this.post({ type: 'transform-preview', preview });
+  }
+
+  setErasing(targetIds: string[] | null): void {
+    this.post({ type: 'erasing', targetIds });
+  }
+
+  setPendingStroke(stroke: StrokeOperation): void {
+    this.post({ type: 'pending-stroke', stroke });
+  }
+
+  appendPendingPoints(strokeId: string, points: Point[]): void {
+    this.post({ type: 'pending-points', strokeId, points });
+  }
+
+  removePendingStroke(strokeId: string): void {
+    this.post({ type: 'remove-pending-stroke', strokeId });
+  }
+
+  prunePendingStrokes(activeUserIds: Set<string>): void {
+    this.post({ type: 'prune-pending-strokes', activeUserIds: [...activeUserIds] });
+  }
+
+  /** Images can't cross to a worker, so snapshot layers are sent as ImageBitmaps. */
+  setSnapshot(layers: LayerRaster[] | null, sequence = 0): void {
+    const version = ++this.snapshotVersion;
+    if (!layers) {
+      this.post({ type: 'snapshot', layers: null, sequence: 0 });
+      return;
+    }
+
+    Promise.all(layers.map(async layer => ({
+      ...layer,
+      image: layer.image ? await createImageBitmap(layer.image) : null,
+    }))).then(bitmapLayers => {
+      const bitmaps = bitmapLayers.flatMap(layer => (layer.image ? [layer.image] : []));
+      if (version !== this.snapshotVersion) {
+        bitmaps.forEach(bitmap => bitmap.close());
+        return;
+      }
+      this.post({ type: 'snapshot', layers: bitmapLayers, sequence }, bitmaps);
+    });
+  }
+
+  async renderSnapshot(maxSequence: number): Promise<LayerSnapshot[]> {
+    const response = await this.request(requestId => ({ type: 'render-snapshot', requestId, maxSequence }));
+    if (response.type !== 'snapshot-rendered') throw new Error('Unexpected render worker response');
+    return response.layers;
+  }
+
+  async toDataURL(type: string = 'image/png', quality?: number): Promise<string> {
+    const response = await this.request(requestId => ({ type: 'export', requestId, format: type, quality }));
+    if (response.type !== 'exported') throw new Error('Unexpected render worker response');
+    return response.dataUrl;
+  }
+
+  destroy(): void {
+    this.worker.terminate();
+    for (const { reject } of this.requests.values()) {
+      reject(new Error('Render worker terminated'));
+    }
+    this.requests.clear();
+  }
+
+  private setViewport(viewport: ViewportTransform, moved: boolean): void {
+    this.viewport = viewport;
+    this.viewportMoved = moved;
+    this.post({ type: 'viewport', viewport });
+  }
+
+  private post(message: RenderRequest, transfer: Transferable[] = []): void {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private request(build: (requestId: number) => RenderRequest): Promise<RenderResponse> {
+    const requestId = ++this.nextRequestId;
+    return new Promise((resolve, reject) => {
+      this.requests.set(requestId, { resolve, reject });
+      this.post(build(requestId));
+    });
+  }
+
+  private handleResponse(response: RenderResponse): void {
+    const pending = this.requests.get(response.requestId);
+    if (!pending) return;
+
+    this.requests.delete(response.requestId);
+    if (response.type === 'failed') {
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response);
+    }
+  }
+}
+
+/**
+ * Renders in a worker when asked to and the browser can hand the canvas over,
+ * otherwise on the main thread.
+ */
+export function createCanvasRenderer(
+  canvas: HTMLCanvasElement,
+  options: { worker?: boolean } = {}
+): CanvasRenderer {
+  if (options.worker && typeof canvas.transferControlToOffscreen === 'function') {
+    const worker = new Worker(new URL('./render-worker.ts', import.meta.url), { type: 'module' });
+    return new WorkerCanvasEngine(canvas, worker);
+  }
+  return new CanvasEngine(canvas);
+}
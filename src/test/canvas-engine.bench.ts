@@ -0,0 +1,84 @@
+import { bench, describe, beforeAll, afterAll, vi } from "vitest";
+import { CanvasEngine } from "@/lib/canvas-engine";
+import type { StrokeOperation } from "@/types/canvas";
+
+// jsdom has no 2D canvas; a no-op context isolates the engine's own per-frame
+// work (culling, ordering, path iteration) from actual rasterization.
+function createStubContext(): CanvasRenderingContext2D {
+  return new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => (key in target ? target[key] : () => {}),
+    set: (target, key, value) => {
+      target[key] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+}
+
+const STROKE_COUNT = 10_000;
+const WORLD_SIZE = 10_000;
+
+function makeStrokes(): StrokeOperation[] {
+  let seed = 42;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+  return Array.from({ length: STROKE_COUNT }, (_, i) => {
+    const x = random() * WORLD_SIZE - WORLD_SIZE / 2;
+    const y = random() * WORLD_SIZE - WORLD_SIZE / 2;
+    return {
+      id: `stroke-${i}`,
+      type: "stroke",
+      userId: "bench",
+      color: "#000000",
+      width: 4,
+      tool: "brush",
+      points: Array.from({ length: 24 }, (_, j) => ({
+        x: x + j * 6,
+        y: y + Math.sin(j / 3) * 20,
+        timestamp: j * 16,
+      })),
+      startTime: 0,
+      sequence: i + 1,
+    };
+  });
+}
+
+let engine: CanvasEngine;
+const liveStroke: StrokeOperation = { ...makeStrokes()[0], id: "live", sequence: 0 };
+
+beforeAll(() => {
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(
+    () => createStubContext() as unknown as RenderingContext
+  );
+  engine = new CanvasEngine(document.createElement("canvas"));
+  engine.resize(1280, 800);
+  engine.setOperations(makeStrokes());
+});
+
+afterAll(() => {
+  engine.destroy();
+  vi.restoreAllMocks();
+});
+
+describe(`render frame with ${STROKE_COUNT.toLocaleString()} operations`, () => {
+  bench("home frame in view (~2% of strokes visible)", () => {
+    engine.fitView();
+    engine.render();
+  });
+
+  bench("drawing a live stroke over the cached layer", () => {
+    engine.setCurrentStroke(liveStroke);
+    engine.render();
+  }, {
+    setup: () => {
+      engine.fitView();
+      engine.zoomAt(0.001, 640, 400);
+      engine.render();
+    },
+  });
+
+  bench("zoomed out to 10% (nearly every stroke visible)", () => {
+    engine.fitView();
+    engine.zoomAt(0.001, 640, 400);
+    engine.render();
+  });
+});
@@ -0,0 +1,298 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  CanvasEngine,
+  sortOperations,
+  fitToViewport,
+  getStrokeBounds,
+  unionRects,
+} from "@/lib/canvas-engine";
+import type { DrawingOperation, LayerOperation, ShapeOperation, StrokeOperation } from "@/types/canvas";
+import { DEFAULT_LAYER } from "@/types/canvas";
+
+function stroke(id: string, sequence: number, pending = false): StrokeOperation {
+  return {
+    id,
+    type: "stroke",
+    userId: "user",
+    color: "#000000",
+    width: 4,
+    tool: "brush",
+    points: [],
+    startTime: 0,
+    sequence,
+    pending,
+  };
+}
+
+describe("sortOperations", () => {
+  it("orders confirmed operations by sequence and keeps pending ones last", () => {
+    const ops: DrawingOperation[] = [
+      stroke("local-1", 0, true),
+      stroke("b", 3),
+      stroke("local-2", 0, true),
+      stroke("a", 1),
+    ];
+
+    expect(sortOperations(ops).map((op) => op.id)).toEqual(["a", "b", "local-1", "local-2"]);
+  });
+
+  it("converges with a remote client once the local stroke is confirmed", () => {
+    const author = sortOperations([stroke("remote", 3), stroke("mine", 2)]);
+    const observer = sortOperations([stroke("mine", 2), stroke("remote", 3)]);
+
+    expect(author.map((op) => op.id)).toEqual(observer.map((op) => op.id));
+  });
+});
+
+describe("fitToViewport", () => {
+  it("letterboxes a wide logical canvas into a tall viewport", () => {
+    expect(fitToViewport({ width: 1920, height: 1080 }, { width: 960, height: 1000 })).toEqual({
+      scale: 0.5,
+      offsetX: 0,
+      offsetY: 230,
+    });
+  });
+
+  it("pillarboxes when the viewport is wider than the canvas", () => {
+    expect(fitToViewport({ width: 1920, height: 1080 }, { width: 2560, height: 1080 })).toEqual({
+      scale: 1,
+      offsetX: 320,
+      offsetY: 0,
+    });
+  });
+});
+
+describe("getStrokeBounds", () => {
+  it("covers every point plus half the stroke width, including negative world coordinates", () => {
+    const bounds = getStrokeBounds({
+      ...stroke("s", 1),
+      width: 10,
+      points: [
+        { x: -50, y: 20, timestamp: 0 },
+        { x: 30, y: -40, timestamp: 1 },
+      ],
+    });
+
+    expect(bounds).toEqual({ x: -55, y: -45, width: 90, height: 70 });
+    expect(unionRects(bounds, { x: 0, y: 0, width: 100, height: 100 })).toEqual({
+      x: -55,
+      y: -45,
+      width: 155,
+      height: 145,
+    });
+  });
+});
+
+describe("CanvasEngine committed layer", () => {
+  // Each context records the strokes drawn on it. The engine creates the
+  // visible canvas context, then a scratch surface, then one surface per
+  // layer on first render.
+  function recordingContexts() {
+    const contexts: { strokes: number }[] = [];
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(() => {
+      const record = { strokes: 0 };
+      contexts.push(record);
+      return new Proxy(record as Record<string | symbol, unknown>, {
+        get: (target, key) => {
+          // Brush strokes fill their outline; eraser strokes still stroke a line
+          if (key === "stroke" || key === "fill") return () => record.strokes++;
+          return key in target ? target[key] : () => {};
+        },
+        set: (target, key, value) => {
+          target[key] = value;
+          return true;
+        },
+      }) as unknown as RenderingContext;
+    });
+    return contexts;
+  }
+
+  function line(id: string, sequence: number): StrokeOperation {
+    return {
+      ...stroke(id, sequence),
+      points: [
+        { x: 100, y: 100, timestamp: 0 },
+        { x: 200, y: 150, timestamp: 1 },
+      ],
+    };
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("appends new strokes to the layer and rebuilds it only when operations are removed", () => {
+    const contexts = recordingContexts();
+    const engine = new CanvasEngine(document.createElement("canvas"));
+    engine.resize(800, 600);
+
+    const ops = [line("a", 1), line("b", 2)];
+    engine.setOperations(ops);
+    engine.render();
+    const layer = contexts[2];
+    expect(layer.strokes).toBe(2);
+
+    layer.strokes = 0;
+    engine.setOperations([...ops, line("c", 3)]);
+    engine.render();
+    expect(layer.strokes).toBe(1);
+
+    layer.strokes = 0;
+    engine.setCurrentStroke(line("live", 0));
+    engine.render();
+    expect(layer.strokes).toBe(0);
+
+    engine.setCurrentStroke(null);
+    engine.removeLastOperation();
+    engine.render();
+    expect(layer.strokes).toBe(2);
+
+    engine.destroy();
+  });
+
+  it("keeps the layer when a pending stroke is confirmed in place", () => {
+    const contexts = recordingContexts();
+    const engine = new CanvasEngine(document.createElement("canvas"));
+    engine.resize(800, 600);
+
+    const pending = { ...line("local-1", 0), pending: true };
+    engine.setOperations([line("a", 1), pending]);
+    engine.render();
+    const layer = contexts[2];
+
+    layer.strokes = 0;
+    const confirmed = { ...pending, id: "server-1", clientId: "local-1", sequence: 2, pending: false };
+    engine.setOperations([line("a", 1), confirmed]);
+    engine.render();
+    expect(layer.strokes).toBe(0);
+
+    engine.destroy();
+  });
+
+  it("stops drawing operations once a snapshot covers them", () => {
+    const contexts = recordingContexts();
+    const engine = new CanvasEngine(document.createElement("canvas"));
+    engine.resize(800, 600);
+
+    engine.setOperations([line("a", 1), line("b", 2)]);
+    engine.render();
+    const layer = contexts[2];
+    expect(layer.strokes).toBe(2);
+
+    layer.strokes = 0;
+    engine.setSnapshot([{ ...DEFAULT_LAYER, image: null, bounds: { x: 0, y: 0, width: 0, height: 0 } }], 1);
+    engine.addOperation(line("a", 1));
+    engine.render();
+    expect(layer.strokes).toBe(1);
+
+    engine.destroy();
+  });
+
+  it("draws each stroke on its own layer's surface and skips hidden layers", () => {
+    const contexts = recordingContexts();
+    const engine = new CanvasEngine(document.createElement("canvas"));
+    engine.resize(800, 600);
+
+    const createInk: LayerOperation = {
+      id: "layer-1",
+      type: "layer",
+      userId: "user-1",
+      change: { action: "create", layerId: "ink", name: "Ink", index: 1 },
+      timestamp: 0,
+      sequence: 1,
+    };
+    const ops: DrawingOperation[] = [
+      createInk,
+      line("a", 2),
+      { ...line("b", 3), layerId: "ink" },
+      { ...line("c", 4), layerId: "ink" },
+    ];
+    engine.setOperations(ops);
+    engine.render();
+    const [base, ink] = [contexts[2], contexts[3]];
+    expect(engine.getLayers().map((layer) => layer.id)).toEqual(["default", "ink"]);
+    expect(base.strokes).toBe(1);
+    expect(ink.strokes).toBe(2);
+
+    // Hiding a layer only changes compositing
+    base.strokes = 0;
+    ink.strokes = 0;
+    engine.setOperations([
+      ...ops,
+      { ...createInk, id: "layer-2", sequence: 5, change: { action: "visibility", layerId: "ink", visible: false } },
+    ]);
+    engine.render();
+    expect(base.strokes + ink.strokes).toBe(0);
+
+    engine.destroy();
+  });
+
+  it("draws committed shapes on their layer and previews the current one over it", () => {
+    const contexts = recordingContexts();
+    const engine = new CanvasEngine(document.createElement("canvas"));
+    engine.resize(800, 600);
+
+    const rectangle: ShapeOperation = {
+      id: "shape-1",
+      type: "shape",
+      userId: "user",
+      shape: "rectangle",
+      color: "#000000",
+      width: 4,
+      start: { x: 100, y: 100 },
+      end: { x: 300, y: 200 },
+      timestamp: 0,
+      sequence: 1,
+    };
+    engine.setOperations([rectangle]);
+    engine.render();
+    const [scratch, layer] = [contexts[1], contexts[2]];
+    expect(layer.strokes).toBe(1);
+
+    layer.strokes = 0;
+    engine.setCurrentShape({ ...rectangle, id: "live", shape: "arrow", sequence: 0 });
+    engine.render();
+    expect(layer.strokes).toBe(0);
+    expect(scratch.strokes).toBe(1);
+
+    engine.destroy();
+  });
+
+  it("replays transforms and deletes, and draws a drag in progress over the layer", () => {
+    const contexts = recordingContexts();
+    const engine = new CanvasEngine(document.createElement("canvas"));
+    engine.resize(800, 600);
+
+    const moved: DrawingOperation[] = [
+      line("a", 1),
+      line("b", 2),
+      { id: "t", type: "transform", userId: "user", targetIds: ["a"], matrix: [1, 0, 0, 1, 50, 0], timestamp: 0, sequence: 3 },
+    ];
+    engine.setOperations(moved);
+    engine.render();
+    const [scratch, layer] = [contexts[1], contexts[2]];
+    expect(layer.strokes).toBe(2);
+
+    layer.strokes = 0;
+    engine.setOperations([
+      ...moved,
+      { id: "d", type: "delete", userId: "user", targetIds: ["b"], timestamp: 0, sequence: 4 },
+    ]);
+    engine.render();
+    expect(layer.strokes).toBe(1);
+
+    // The dragged stroke leaves the cached layer and is drawn live instead
+    layer.strokes = 0;
+    engine.setTransformPreview({ targetIds: ["a"], matrix: [1, 0, 0, 1, 10, 10] });
+    engine.render();
+    expect(layer.strokes).toBe(0);
+    expect(scratch.strokes).toBe(1);
+
+    engine.setTransformPreview({ targetIds: ["a"], matrix: [1, 0, 0, 1, 20, 20] });
+    engine.render();
+    expect(layer.strokes).toBe(0);
+    expect(scratch.strokes).toBe(2);
+
+    engine.destroy();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { curveOutline, fitCurves, sampleCurves } from "@/lib/curve-fit";
+import { encodeCoordinates, encodePoints } from "@/lib/point-codec";
+import { simplifyPoints } from "@/lib/simplify";
+import { strokeOutline } from "@/lib/stroke-outline";
+import type { Point } from "@/types/canvas";
+
+type XY = { x: number; y: number };
+
+function distanceToPolyline(p: XY, line: XY[]): number {
+  let nearest = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    const a = line[i - 1];
+    const b = line[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    nearest = Math.min(nearest, Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy)));
+  }
+  return nearest;
+}
+
+function wave(count: number): Point[] {
+  return Array.from({ length: count }, (_, i) => ({
+    x: i * 2,
+    y: Math.sin(i / 40) * 60 + Math.sin(i / 11) * 6,
+    timestamp: i * 16,
+  }));
+}
+
+describe("fitCurves", () => {
+  it("fits a straight run with a single segment through its ends", () => {
+    const points: Point[] = Array.from({ length: 30 }, (_, i) => ({ x: i * 3, y: i, timestamp: i }));
+    const { points: knots, controls } = fitCurves(points, 0.5);
+
+    expect(knots).toEqual([points[0], points[29]]);
+    expect(controls).toHaveLength(2);
+  });
+
+  it("stays within the tolerance with far fewer, much smaller segments", () => {
+    const points = wave(500);
+    const tolerance = 0.5;
+    const { points: knots, controls } = fitCurves(points, tolerance);
+    const path = sampleCurves(knots, controls);
+
+    expect(controls).toHaveLength((knots.length - 1) * 2);
+    expect(knots.length).toBeLessThan(points.length / 10);
+    points.forEach(p => expect(distanceToPolyline(p, path)).toBeLessThanOrEqual(tolerance * 1.1));
+
+    const fittedSize = encodePoints(knots).length + encodeCoordinates(controls).length;
+    expect(fittedSize).toBeLessThan(encodePoints(points).length / 3);
+  });
+
+  it("stays within the whole tolerance when fitting simplified points on half of it each", () => {
+    const points = wave(500);
+    const half = 0.25;
+    const simplified = simplifyPoints(points, half);
+    const { points: knots, controls } = fitCurves(simplified, half);
+    const path = sampleCurves(knots, controls);
+
+    expect(simplified.length).toBeLessThan(points.length / 2);
+    points.forEach(p => expect(distanceToPolyline(p, path)).toBeLessThanOrEqual(half * 2 * 1.1));
+  });
+
+  it("keeps pressure changes as segment ends and blends between them", () => {
+    const points: Point[] = Array.from({ length: 40 }, (_, i) => ({
+      x: i * 2,
+      y: 0,
+      timestamp: i,
+      pressure: i < 20 ? 0.2 : 0.9,
+    }));
+    const { points: knots, controls } = fitCurves(points, 0.5, 8);
+
+    expect(knots.length).toBeGreaterThan(2);
+    const path = sampleCurves(knots, controls);
+    expect(path[0].pressure).toBe(0.2);
+    expect(path[path.length - 1].pressure).toBe(0.9);
+  });
+
+  it("leaves a dot as a single point", () => {
+    const dot: Point = { x: 5, y: 5, timestamp: 0 };
+
+    expect(fitCurves([dot, { ...dot, timestamp: 1 }], 0.5)).toEqual({ points: [dot], controls: [] });
+    expect(fitCurves([], 0.5)).toEqual({ points: [], controls: [] });
+  });
+});
+
+describe("curveOutline", () => {
+  it("keeps the brush outline as closed curves at the pressure width from the centerline", () => {
+    const points = wave(500).map(p => ({ ...p, pressure: 0.5 }));
+    const { points: knots, controls } = fitCurves(points, 0.5, 10);
+    const centerline = sampleCurves(knots, controls);
+    const outline = curveOutline(knots, controls, 10);
+    const edge = sampleCurves(outline.points.map(p => ({ ...p, timestamp: 0 })), outline.controls);
+
+    expect(outline.points[outline.points.length - 1]).toEqual(outline.points[0]);
+    expect(outline.controls).toHaveLength((outline.points.length - 1) * 2);
+    expect(outline.points.length).toBeLessThan(strokeOutline(centerline, 10).length / 4);
+    edge.forEach(p => expect(distanceToPolyline(p, centerline)).toBeCloseTo(5, 0));
+  });
+});
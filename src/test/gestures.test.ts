@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from "vitest";
+import { GestureTracker } from "@/lib/gestures";
+
+describe("gesture tracker", () => {
+  it("draws with one finger and pans and zooms with two", () => {
+    const gestures = new GestureTracker();
+
+    expect(gestures.down(1, "touch", 0, 0, 0)).toBe("draw");
+    expect(gestures.down(2, "touch", 100, 0, 500)).toBe("pan");
+    expect(gestures.roleOf(1)).toBe("pan");
+    expect(gestures.gesture()).toEqual({ x: 50, y: 0, distance: 100 });
+
+    gestures.move(2, 200, 0);
+    expect(gestures.gesture()).toEqual({ x: 100, y: 0, distance: 200 });
+
+    gestures.up(1, 600);
+    expect(gestures.gesture()).toEqual({ x: 200, y: 0, distance: null });
+    gestures.up(2, 700);
+    expect(gestures.gesture()).toBeNull();
+  });
+
+  it("ignores touches while a pen is down and just after it lifts", () => {
+    const gestures = new GestureTracker();
+
+    expect(gestures.down(1, "touch", 0, 0, 0)).toBe("draw");
+    expect(gestures.down(2, "pen", 10, 10, 100)).toBe("draw");
+    // The palm that landed first stops drawing
+    expect(gestures.roleOf(1)).toBe("ignore");
+    expect(gestures.down(3, "touch", 50, 50, 200)).toBe("ignore");
+
+    gestures.up(2, 300);
+    expect(gestures.down(4, "touch", 50, 50, 400)).toBe("ignore");
+    gestures.up(1, 5000);
+    gestures.up(3, 5000);
+    gestures.up(4, 5000);
+    expect(gestures.down(5, "touch", 50, 50, 5000)).toBe("draw");
+  });
+
+  it("pans with one finger in pen mode", () => {
+    const gestures = new GestureTracker("pen");
+
+    expect(gestures.down(1, "touch", 0, 0, 0)).toBe("pan");
+    expect(gestures.down(2, "mouse", 0, 0, 0)).toBe("draw");
+    expect(gestures.down(3, "mouse", 0, 0, 0, true)).toBe("pan");
+  });
+
+  it("reports a quick two-finger tap but not a pinch", () => {
+    const onTap = vi.fn();
+    const gestures = new GestureTracker();
+    gestures.setOnTwoFingerTap(onTap);
+
+    gestures.down(1, "touch", 0, 0, 0);
+    gestures.down(2, "touch", 100, 0, 40);
+    gestures.up(1, 150);
+    gestures.up(2, 160);
+    expect(onTap).toHaveBeenCalledTimes(1);
+
+    gestures.down(1, "touch", 0, 0, 1000);
+    gestures.down(2, "touch", 100, 0, 1040);
+    gestures.move(2, 160, 0);
+    gestures.up(1, 1150);
+    gestures.up(2, 1160);
+
+    gestures.down(1, "touch", 0, 0, 2000);
+    gestures.down(2, "touch", 100, 0, 2040);
+    gestures.up(1, 2800);
+    gestures.up(2, 2810);
+    expect(onTap).toHaveBeenCalledTimes(1);
+  });
+});
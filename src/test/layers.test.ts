@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { applyLayerChange, resolveLayers, nextLayerName } from "@/lib/layers";
+import { DEFAULT_LAYER } from "@/types/canvas";
+import type { DrawingOperation, LayerChange, LayerOperation } from "@/types/canvas";
+
+function layerOp(change: LayerChange, sequence: number): LayerOperation {
+  return {
+    id: `layer-op-${sequence}`,
+    type: "layer",
+    userId: "user",
+    change,
+    timestamp: 0,
+    sequence,
+  };
+}
+
+describe("applyLayerChange", () => {
+  const base = [DEFAULT_LAYER];
+
+  it("creates layers at a clamped index", () => {
+    const top = applyLayerChange(base, { action: "create", layerId: "a", name: "A", index: 5 });
+    const bottom = applyLayerChange(top, { action: "create", layerId: "b", name: "B", index: -1 });
+    expect(bottom.map((layer) => layer.id)).toEqual(["b", "default", "a"]);
+    expect(bottom[0]).toMatchObject({ visible: true, locked: false });
+  });
+
+  it("moves, renames, hides and locks layers", () => {
+    let layers = applyLayerChange(base, { action: "create", layerId: "a", name: "A", index: 1 });
+    layers = applyLayerChange(layers, { action: "move", layerId: "a", index: 0 });
+    layers = applyLayerChange(layers, { action: "rename", layerId: "a", name: "Sketch" });
+    layers = applyLayerChange(layers, { action: "visibility", layerId: "a", visible: false });
+    layers = applyLayerChange(layers, { action: "lock", layerId: "default", locked: true });
+    expect(layers).toEqual([
+      { id: "a", name: "Sketch", visible: false, locked: false },
+      { ...DEFAULT_LAYER, locked: true },
+    ]);
+  });
+
+  it("ignores duplicate creates and changes to missing layers", () => {
+    expect(applyLayerChange(base, { action: "create", layerId: "default", name: "Again", index: 0 })).toBe(base);
+    expect(applyLayerChange(base, { action: "rename", layerId: "gone", name: "X" })).toBe(base);
+    expect(applyLayerChange(base, { action: "delete", layerId: "gone" })).toBe(base);
+  });
+});
+
+describe("resolveLayers", () => {
+  it("replays only layer operations over the base stack", () => {
+    const operations: DrawingOperation[] = [
+      layerOp({ action: "create", layerId: "a", name: "A", index: 1 }, 1),
+      { id: "clear", type: "clear", userId: "user", timestamp: 0, sequence: 2 },
+      layerOp({ action: "delete", layerId: "default" }, 3),
+    ];
+    expect(resolveLayers([DEFAULT_LAYER], operations).map((layer) => layer.id)).toEqual(["a"]);
+  });
+});
+
+describe("nextLayerName", () => {
+  it("skips names already in use", () => {
+    const layers = [DEFAULT_LAYER, { ...DEFAULT_LAYER, id: "b", name: "Layer 2" }];
+    expect(nextLayerName(layers)).toBe("Layer 3");
+    expect(nextLayerName([{ ...DEFAULT_LAYER, name: "Layer 2" }])).toBe("Layer 3");
+  });
+});
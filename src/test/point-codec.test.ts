@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { encodePoints, decodePoints, encodeCoordinates, decodeCoordinates } from "@/lib/point-codec";
+import type { Point } from "@/types/canvas";
+
+function expectClose(actual: Point[], expected: Point[]) {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((point, i) => {
+    expect(Math.abs(point.x - expected[i].x)).toBeLessThanOrEqual(0.05 + 1e-9);
+    expect(Math.abs(point.y - expected[i].y)).toBeLessThanOrEqual(0.05 + 1e-9);
+    expect(Math.abs(point.timestamp - expected[i].timestamp)).toBeLessThanOrEqual(0.5);
+    if (expected[i].pressure === undefined) {
+      expect(point.pressure).toBeUndefined();
+    } else {
+      expect(point.pressure).toBeCloseTo(expected[i].pressure!, 2);
+    }
+  });
+}
+
+describe("point codec", () => {
+  it("round-trips points to 0.1px and 1ms", () => {
+    const points: Point[] = [
+      { x: 120.34, y: 80.06, timestamp: 15234.567 },
+      { x: 121.9, y: 79.5, timestamp: 15250.1 },
+      { x: 98.25, y: 140.75, timestamp: 15266.9 },
+      { x: -4.5, y: 3000.04, timestamp: 15300 },
+    ];
+
+    expectClose(decodePoints(encodePoints(points)), points);
+  });
+
+  it("keeps pressure, including points without it", () => {
+    const points: Point[] = [
+      { x: 0, y: 0, timestamp: 1, pressure: 0 },
+      { x: 1, y: 1, timestamp: 2, pressure: 0.5 },
+      { x: 2, y: 2, timestamp: 3 },
+      { x: 3, y: 3, timestamp: 4, pressure: 1 },
+    ];
+
+    expectClose(decodePoints(encodePoints(points)), points);
+  });
+
+  it("keeps pen tilt to the degree", () => {
+    const points: Point[] = [
+      { x: 0, y: 0, timestamp: 1, pressure: 0.5, tiltX: -30, tiltY: 45 },
+      { x: 1, y: 1, timestamp: 2, pressure: 0.6, tiltX: 89.6, tiltY: -90 },
+    ];
+
+    const decoded = decodePoints(encodePoints(points));
+    expect(decoded.map(p => [p.tiltX, p.tiltY])).toEqual([[-30, 45], [90, -90]]);
+  });
+
+  it("decodes version 1 data", () => {
+    // version 1, no flags, one point at (0.1, 0.2), t = 0
+    const bytes = [1, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 2, 4, 0];
+
+    expect(decodePoints(btoa(String.fromCharCode(...bytes)))).toEqual([{ x: 0.1, y: 0.2, timestamp: 0 }]);
+  });
+
+  it("does not accumulate rounding drift over long strokes", () => {
+    const points: Point[] = Array.from({ length: 2000 }, (_, i) => ({
+      x: i * 0.33,
+      y: Math.sin(i / 10) * 50,
+      timestamp: 1000 + i * 16.4,
+    }));
+
+    expectClose(decodePoints(encodePoints(points)), points);
+  });
+
+  it("is much smaller than the JSON encoding", () => {
+    const points: Point[] = Array.from({ length: 200 }, (_, i) => ({
+      x: 100 + i * 1.7,
+      y: 200 + i * 0.9,
+      timestamp: 5000 + i * 16,
+    }));
+
+    expect(encodePoints(points).length).toBeLessThan(JSON.stringify(points).length / 4);
+  });
+
+  it("handles empty strokes", () => {
+    expect(decodePoints(encodePoints([]))).toEqual([]);
+  });
+
+  it("decodes legacy JSON arrays and missing data", () => {
+    const legacy = [{ x: 1, y: 2, timestamp: 3 }];
+
+    expect(decodePoints(legacy)).toBe(legacy);
+    expect(decodePoints(undefined)).toEqual([]);
+  });
+
+  it("round-trips bare coordinates such as control points", () => {
+    const controls = [{ x: 10.04, y: -3.5 }, { x: 250.96, y: 1200.1 }];
+    const decoded = decodeCoordinates(encodeCoordinates(controls));
+
+    expect(decoded).toHaveLength(2);
+    decoded.forEach((c, i) => {
+      expect(c.x).toBeCloseTo(controls[i].x, 1);
+      expect(c.y).toBeCloseTo(controls[i].y, 1);
+    });
+    expect(decodeCoordinates(undefined)).toEqual([]);
+  });
+
+  it("decodes unknown versions and corrupt data to no points, reporting why", () => {
+    const errors: unknown[] = [];
+    const onError = (error: unknown) => errors.push(error);
+    const truncated = encodePoints([{ x: 1, y: 2, timestamp: 3 }]).slice(0, 8);
+
+    expect(decodePoints(btoa(String.fromCharCode(99, 0, 0)), onError)).toEqual([]);
+    expect(decodePoints(truncated, onError)).toEqual([]);
+    expect(decodePoints("not base64!", onError)).toEqual([]);
+    expect(decodeCoordinates(btoa(String.fromCharCode(5, 2)), onError)).toEqual([]);
+    expect(decodeCoordinates(btoa(String.fromCharCode(1, 2)), onError)).toEqual([]);
+    expect(errors).toHaveLength(5);
+    expect(String(errors[0])).toMatch(/version 99/);
+    expect(String(errors[3])).toMatch(/version 5/);
+    expect(decodePoints(truncated)).toEqual([]);
+  });
+});
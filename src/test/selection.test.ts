@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  gestureMatrix,
+  itemAt,
+  itemsAlongSegment,
+  itemsInLasso,
+  selectableItems,
+  selectionBounds,
+} from "@/lib/selection";
+import { applyMatrix } from "@/lib/transforms";
+import { DEFAULT_LAYER } from "@/types/canvas";
+import type { DrawingOperation, Layer, StrokeOperation, TextOperation } from "@/types/canvas";
+
+// Every character is 10 units wide
+const measure = (text: string) => text.length * 10;
+
+function stroke(id: string, points: [number, number][], overrides: Partial<StrokeOperation> = {}): StrokeOperation {
+  return {
+    id,
+    type: "stroke",
+    userId: "user",
+    color: "#000000",
+    width: 4,
+    tool: "brush",
+    points: points.map(([x, y], timestamp) => ({ x, y, timestamp })),
+    startTime: 0,
+    sequence: 1,
+    ...overrides,
+  };
+}
+
+function text(id: string, content: string, x: number, y: number): TextOperation {
+  return {
+    id,
+    type: "text",
+    userId: "user",
+    content,
+    fontSize: 16,
+    color: "#000000",
+    x,
+    y,
+    width: 100,
+    timestamp: 0,
+    sequence: 1,
+  };
+}
+
+const layers: Layer[] = [DEFAULT_LAYER, { id: "locked", name: "Locked", visible: true, locked: true }];
+
+describe("selectableItems", () => {
+  it("skips erasers, deleted operations, locked layers and anything before a clear", () => {
+    const ops: DrawingOperation[] = [
+      stroke("gone", [[0, 0], [10, 0]]),
+      { id: "clear", type: "clear", userId: "user", timestamp: 0, sequence: 2 },
+      stroke("kept", [[0, 0], [10, 0]], { clientId: "local-kept" }),
+      stroke("eraser", [[0, 0], [10, 0]], { tool: "eraser" }),
+      stroke("locked", [[0, 0], [10, 0]], { layerId: "locked" }),
+      stroke("deleted", [[0, 0], [10, 0]]),
+      { id: "delete", type: "delete", userId: "user", targetIds: ["deleted"], timestamp: 0, sequence: 3 },
+    ];
+
+    expect(selectableItems(ops, layers, measure).map((item) => item.key)).toEqual(["local-kept"]);
+  });
+
+  it("places transformed operations where they were moved to", () => {
+    const ops: DrawingOperation[] = [
+      stroke("a", [[0, 0], [100, 0]]),
+      {
+        id: "move",
+        type: "transform",
+        userId: "user",
+        targetIds: ["a"],
+        matrix: [1, 0, 0, 1, 0, 50],
+        timestamp: 0,
+        sequence: 2,
+      },
+    ];
+
+    const [item] = selectableItems(ops, [DEFAULT_LAYER], measure);
+    expect(item.bounds).toEqual({ x: -2, y: 48, width: 104, height: 4 });
+  });
+});
+
+describe("itemAt", () => {
+  const items = selectableItems(
+    [
+      stroke("under", [[0, 0], [100, 100]]),
+      stroke("over", [[0, 100], [100, 0]]),
+      text("label", "hello", 200, 0),
+    ],
+    [DEFAULT_LAYER],
+    measure
+  );
+
+  it("picks the topmost stroke near its path, not just inside its bounds", () => {
+    expect(itemAt(items, { x: 50, y: 50 }, 2)?.key).toBe("over");
+    expect(itemAt(items, { x: 24, y: 26 }, 2)?.key).toBe("under");
+    expect(itemAt(items, { x: 90, y: 50 }, 2)).toBeNull();
+  });
+
+  it("picks texts anywhere inside their box", () => {
+    expect(itemAt(items, { x: 260, y: 10 }, 2)?.key).toBe("label");
+  });
+});
+
+describe("itemsInLasso", () => {
+  it("selects only items entirely inside the lasso", () => {
+    const items = selectableItems(
+      [stroke("inside", [[10, 10], [20, 20]]), stroke("across", [[10, 10], [80, 10]])],
+      [DEFAULT_LAYER],
+      measure
+    );
+    const lasso = [
+      { x: 0, y: 0 },
+      { x: 50, y: 0 },
+      { x: 50, y: 50 },
+      { x: 0, y: 50 },
+    ];
+
+    expect(itemsInLasso(items, lasso)).toEqual(["inside"]);
+    expect(selectionBounds(items, ["inside", "missing"])).toEqual({ x: 8, y: 8, width: 14, height: 14 });
+  });
+});
+
+describe("itemsAlongSegment", () => {
+  it("touches strokes the sweep crosses or passes within its radius of", () => {
+    const items = selectableItems(
+      [
+        stroke("crossed", [[0, 50], [100, 50]]),
+        stroke("grazed", [[0, 80], [100, 80]]),
+        stroke("missed", [[0, 120], [100, 120]]),
+        text("label", "hi", 200, 0),
+      ],
+      [DEFAULT_LAYER],
+      measure
+    );
+
+    // A fast sweep: neither end is near the first stroke, but the segment crosses it
+    expect(itemsAlongSegment(items, { x: 50, y: 0 }, { x: 50, y: 75 }, 5)).toEqual(["crossed", "grazed"]);
+    expect(itemsAlongSegment(items, { x: 210, y: 5 }, { x: 210, y: 5 }, 1)).toEqual(["label"]);
+  });
+});
+
+describe("gestureMatrix", () => {
+  const bounds = { x: 0, y: 0, width: 100, height: 50 };
+
+  it("scales about the corner opposite the dragged handle", () => {
+    const matrix = gestureMatrix({ kind: "scale", origin: { x: 100, y: 50 }, bounds, handle: "se" }, { x: 200, y: 75 }, false);
+    expect(applyMatrix(matrix, { x: 0, y: 0 })).toEqual({ x: 0, y: 0 });
+    expect(applyMatrix(matrix, { x: 100, y: 50 })).toEqual({ x: 200, y: 75 });
+
+    const uniform = gestureMatrix({ kind: "scale", origin: { x: 0, y: 0 }, bounds, handle: "nw" }, { x: -100, y: 25 }, true);
+    expect(applyMatrix(uniform, { x: 0, y: 0 })).toEqual({ x: -100, y: -50 });
+  });
+
+  it("locks moves to an axis and snaps rotation with Shift", () => {
+    const move = gestureMatrix({ kind: "move", origin: { x: 0, y: 0 }, bounds }, { x: 30, y: 10 }, true);
+    expect(applyMatrix(move, { x: 0, y: 0 })).toEqual({ x: 30, y: 0 });
+
+    // Dragging the rotation handle from above the center to slightly past its right
+    const rotate = gestureMatrix({ kind: "rotate", origin: { x: 50, y: -24 }, bounds }, { x: 150, y: 30 }, true);
+    const corner = applyMatrix(rotate, { x: 100, y: 25 });
+    expect(corner.x).toBeCloseTo(50);
+    expect(corner.y).toBeCloseTo(75);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { recognizeShape } from "@/lib/shape-recognition";
+import type { Point } from "@/types/canvas";
+
+type XY = { x: number; y: number };
+
+/** Points every couple of units along `corners`, wobbling like a hand would. */
+function ink(corners: XY[], wobble = 2): Point[] {
+  const points: Point[] = [];
+  for (let i = 1; i < corners.length; i++) {
+    const a = corners[i - 1];
+    const b = corners[i];
+    const steps = Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / 2);
+    for (let j = 0; j < steps; j++) {
+      const n = points.length;
+      points.push({
+        x: a.x + ((b.x - a.x) * j) / steps + Math.sin(n * 0.7) * wobble,
+        y: a.y + ((b.y - a.y) * j) / steps + Math.cos(n * 1.3) * wobble,
+        timestamp: n * 16,
+      });
+    }
+  }
+  points.push({ ...corners[corners.length - 1], timestamp: points.length * 16 });
+  return points;
+}
+
+function circle(cx: number, cy: number, rx: number, ry: number, turns = 1): Point[] {
+  const count = Math.round(120 * turns);
+  return Array.from({ length: count + 1 }, (_, i) => {
+    const angle = (i / 120) * Math.PI * 2 - 0.4;
+    const wobble = 1 + Math.sin(i * 0.9) * 0.03;
+    return { x: cx + Math.cos(angle) * rx * wobble, y: cy + Math.sin(angle) * ry * wobble, timestamp: i * 16 };
+  });
+}
+
+describe("recognizeShape", () => {
+  it("snaps a wobbly straight stroke to a line between its ends", () => {
+    const result = recognizeShape(ink([{ x: 0, y: 0 }, { x: 200, y: 80 }]));
+
+    expect(result?.shape).toBe("line");
+    expect(result?.end).toEqual({ x: 200, y: 80 });
+  });
+
+  it("recognizes closed boxes, ovals and triangles", () => {
+    const box = ink([{ x: 10, y: 10 }, { x: 210, y: 10 }, { x: 210, y: 110 }, { x: 10, y: 110 }, { x: 12, y: 14 }]);
+    expect(recognizeShape(box)?.shape).toBe("rectangle");
+
+    const oval = recognizeShape(circle(100, 100, 120, 60));
+    expect(oval?.shape).toBe("ellipse");
+    expect(oval?.start.x).toBeCloseTo(-20, -1);
+    expect(oval?.end.y).toBeCloseTo(160, -1);
+
+    const triangle = recognizeShape(ink([{ x: 0, y: 200 }, { x: 100, y: 0 }, { x: 220, y: 180 }, { x: 4, y: 196 }]));
+    expect(triangle?.shape).toBe("triangle");
+    expect(triangle?.vertices).toHaveLength(3);
+  });
+
+  it("recognizes a one-stroke arrow by its shaft", () => {
+    const arrow = recognizeShape(ink([
+      { x: 0, y: 100 },
+      { x: 200, y: 100 },
+      { x: 170, y: 80 },
+      { x: 200, y: 100 },
+      { x: 170, y: 120 },
+    ]));
+
+    expect(arrow?.shape).toBe("arrow");
+    expect(arrow?.start.x).toBeCloseTo(0, -1);
+    expect(arrow?.end.x).toBeCloseTo(200, -1);
+  });
+
+  it("leaves scribbles, open curves and tiny strokes as ink", () => {
+    const scribble = ink([{ x: 0, y: 0 }, { x: 100, y: 80 }, { x: 20, y: 90 }, { x: 120, y: 10 }, { x: 60, y: 120 }]);
+    expect(recognizeShape(scribble)).toBeNull();
+    expect(recognizeShape(circle(100, 100, 80, 80, 0.5))).toBeNull();
+    expect(recognizeShape(ink([{ x: 0, y: 0 }, { x: 10, y: 4 }], 0.2))).toBeNull();
+    expect(recognizeShape(ink([{ x: 0, y: 0 }, { x: 10, y: 4 }], 0.2), 8)?.shape).toBe("line");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { constrainShapeEnd, getShapeBounds, isShapeTool, isEmptyShape } from "@/lib/shapes";
+import type { ShapeKind, ShapeOperation } from "@/types/canvas";
+
+function shape(kind: ShapeKind, end: { x: number; y: number }, width = 4): ShapeOperation {
+  return {
+    id: "shape",
+    type: "shape",
+    userId: "user",
+    shape: kind,
+    color: "#000000",
+    width,
+    start: { x: 0, y: 0 },
+    end,
+    timestamp: 0,
+    sequence: 1,
+  };
+}
+
+describe("constrainShapeEnd", () => {
+  it("squares rectangles and ellipses in the drag direction", () => {
+    expect(constrainShapeEnd("rectangle", { x: 0, y: 0 }, { x: 30, y: -10 })).toEqual({ x: 30, y: -30 });
+    expect(constrainShapeEnd("ellipse", { x: 10, y: 10 }, { x: 0, y: 50 })).toEqual({ x: -30, y: 50 });
+  });
+
+  it("snaps lines and arrows to 45 degree steps at the same length", () => {
+    const end = constrainShapeEnd("line", { x: 0, y: 0 }, { x: 100, y: 10 });
+    expect(end.x).toBeCloseTo(Math.hypot(100, 10));
+    expect(end.y).toBeCloseTo(0);
+
+    const diagonal = constrainShapeEnd("arrow", { x: 0, y: 0 }, { x: 50, y: 40 });
+    expect(diagonal.x).toBeCloseTo(diagonal.y);
+    expect(Math.hypot(diagonal.x, diagonal.y)).toBeCloseTo(Math.hypot(50, 40));
+  });
+});
+
+describe("getShapeBounds", () => {
+  it("pads the drag box by half the outline width", () => {
+    expect(getShapeBounds(shape("rectangle", { x: -20, y: 10 }))).toEqual({
+      x: -22,
+      y: -2,
+      width: 24,
+      height: 14,
+    });
+  });
+
+  it("includes the arrow head", () => {
+    const line = getShapeBounds(shape("line", { x: 100, y: 0 }));
+    const arrow = getShapeBounds(shape("arrow", { x: 100, y: 0 }));
+    expect(arrow.height).toBeGreaterThan(line.height);
+    expect(arrow.x + arrow.width).toBe(line.x + line.width);
+  });
+});
+
+describe("shape helpers", () => {
+  it("recognizes shape tools and empty drags", () => {
+    expect(isShapeTool("ellipse")).toBe(true);
+    expect(isShapeTool("eraser")).toBe(false);
+    expect(isEmptyShape(shape("line", { x: 0, y: 0 }))).toBe(true);
+    expect(isEmptyShape(shape("line", { x: 0, y: 1 }))).toBe(false);
+  });
+});
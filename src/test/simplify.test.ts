@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { filterNearbyPoints, getStrokePath } from "@/lib/canvas-engine";
+import { simplifyPoints, simplifyTolerance } from "@/lib/simplify";
+import { simulatePressure, strokeOutline } from "@/lib/stroke-outline";
+import type { Point, StrokeOperation } from "@/types/canvas";
+
+type XY = { x: number; y: number };
+
+function distanceToPolyline(p: XY, line: XY[]): number {
+  let nearest = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    const a = line[i - 1];
+    const b = line[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    nearest = Math.min(nearest, Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy)));
+  }
+  return nearest;
+}
+
+/** Furthest either polyline strays from the other. */
+function hausdorff(a: XY[], b: XY[]): number {
+  return Math.max(
+    ...a.map(p => distanceToPolyline(p, b)),
+    ...b.map(p => distanceToPolyline(p, a))
+  );
+}
+
+function brush(points: Point[], width: number): StrokeOperation {
+  return {
+    id: "s",
+    type: "stroke",
+    userId: "u",
+    color: "#000",
+    width,
+    tool: "brush",
+    points,
+    startTime: 0,
+    sequence: 1,
+  };
+}
+
+describe("simplifyPoints", () => {
+  it("keeps the ends and drops points on a straight run", () => {
+    const points: Point[] = Array.from({ length: 50 }, (_, i) => ({ x: i * 2, y: 10, timestamp: i }));
+
+    expect(simplifyPoints(points, 0.5)).toEqual([points[0], points[49]]);
+    expect(simplifyPoints(points.slice(0, 2), 0.5)).toEqual(points.slice(0, 2));
+  });
+
+  it("keeps a pressure taper along a straight line", () => {
+    const points: Point[] = Array.from({ length: 50 }, (_, i) => ({
+      x: i * 2,
+      y: 0,
+      timestamp: i,
+      pressure: i < 25 ? 0.2 : 0.9,
+    }));
+
+    expect(simplifyPoints(points, 0.5, 8).length).toBeGreaterThan(2);
+    expect(simplifyPoints(points, 0.5).length).toBe(2);
+  });
+
+  it("shrinks a long slow stroke without visibly changing how it renders", () => {
+    const width = 8;
+    const raw: Point[] = Array.from({ length: 2000 }, (_, i) => ({
+      x: i * 0.5,
+      y: Math.sin(i / 80) * 60 + Math.sin(i / 23) * 6,
+      timestamp: i * 8,
+    }));
+    const before = simulatePressure(filterNearbyPoints(raw, width / 4));
+    const tolerance = simplifyTolerance(width, 1);
+    const after = simplifyPoints(before, tolerance, width);
+
+    expect(after.length).toBeLessThan(before.length / 4);
+
+    const beforePath = getStrokePath(brush(before, width));
+    const afterPath = getStrokePath(brush(after, width));
+    // The curve through fewer points bends a little differently, so allow
+    // some slack beyond the tolerance; a quarter of the width is invisible
+    expect(hausdorff(beforePath, afterPath)).toBeLessThanOrEqual(tolerance * 1.5);
+    expect(hausdorff(strokeOutline(beforePath, width), strokeOutline(afterPath, width)))
+      .toBeLessThanOrEqual(width / 4);
+  });
+
+  it("tightens the tolerance as the view zooms in", () => {
+    expect(simplifyTolerance(8, 4)).toBeLessThan(simplifyTolerance(8, 1));
+    expect(simplifyTolerance(1, 1)).toBe(0.5);
+  });
+});
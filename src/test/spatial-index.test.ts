@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { Quadtree, intersects } from "@/lib/spatial-index";
+import type { Rect } from "@/types/canvas";
+
+function bruteForce(items: Map<string, Rect>, area: Rect): string[] {
+  return [...items].filter(([, bounds]) => intersects(bounds, area)).map(([id]) => id).sort();
+}
+
+describe("Quadtree", () => {
+  it("matches a brute-force scan across splits and root growth", () => {
+    const tree = new Quadtree({ x: 0, y: 0, width: 256, height: 256 });
+    const items = new Map<string, Rect>();
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+    for (let i = 0; i < 2000; i++) {
+      const bounds = {
+        x: (random() - 0.5) * 20000,
+        y: (random() - 0.5) * 20000,
+        width: random() * 300,
+        height: random() * 300,
+      };
+      items.set(`s${i}`, bounds);
+      tree.insert(`s${i}`, bounds);
+    }
+
+    for (let i = 0; i < 2000; i += 3) {
+      items.delete(`s${i}`);
+      tree.remove(`s${i}`);
+    }
+
+    expect(tree.size).toBe(items.size);
+    for (const area of [
+      { x: -500, y: -500, width: 1000, height: 800 },
+      { x: 4000, y: -9000, width: 3000, height: 3000 },
+      { x: -20000, y: -20000, width: 40000, height: 40000 },
+    ]) {
+      expect(tree.query(area).sort()).toEqual(bruteForce(items, area));
+    }
+  });
+
+  it("moves an entry when it is re-inserted with new bounds", () => {
+    const tree = new Quadtree();
+    tree.insert("a", { x: 0, y: 0, width: 10, height: 10 });
+    tree.insert("a", { x: 500, y: 500, width: 10, height: 10 });
+
+    expect(tree.query({ x: 0, y: 0, width: 20, height: 20 })).toEqual([]);
+    expect(tree.query({ x: 490, y: 490, width: 20, height: 20 })).toEqual(["a"]);
+    expect(tree.size).toBe(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { pressureWidth, simulatePressure, strokeOutline } from "@/lib/stroke-outline";
+import type { Point } from "@/types/canvas";
+
+describe("stroke outline", () => {
+  it("draws half pressure at the brush width and scales around it", () => {
+    expect(pressureWidth(8)).toBe(8);
+    expect(pressureWidth(8, 0.5)).toBe(8);
+    expect(pressureWidth(8, 0)).toBeLessThan(8);
+    expect(pressureWidth(8, 1)).toBeGreaterThan(8);
+  });
+
+  it("thins simulated pressure as the pointer speeds up and keeps real pressure", () => {
+    const slow = simulatePressure(
+      Array.from({ length: 10 }, (_, i): Point => ({ x: i, y: 0, timestamp: i * 16 }))
+    );
+    const fast = simulatePressure(
+      Array.from({ length: 10 }, (_, i): Point => ({ x: i * 40, y: 0, timestamp: i * 16 }))
+    );
+
+    expect(slow[9].pressure).toBeGreaterThan(0.5);
+    expect(fast[9].pressure).toBeLessThan(0.5);
+
+    const pen: Point[] = [
+      { x: 0, y: 0, timestamp: 0, pressure: 0.2 },
+      { x: 100, y: 0, timestamp: 1, pressure: 0.9 },
+    ];
+    expect(simulatePressure(pen)).toEqual(pen);
+  });
+
+  it("offsets both edges by the pressure width", () => {
+    const path: Point[] = [
+      { x: 0, y: 0, timestamp: 0, pressure: 0 },
+      { x: 50, y: 0, timestamp: 1, pressure: 0.5 },
+      { x: 100, y: 0, timestamp: 2, pressure: 1 },
+    ];
+    const outline = strokeOutline(path, 10);
+    const ys = (x: number) => outline.filter(p => Math.abs(p.x - x) < 1e-9).map(p => p.y);
+
+    expect(ys(50).sort((a, b) => a - b)).toEqual([-5, 5]);
+    const thin = Math.max(...ys(0)) - Math.min(...ys(0));
+    expect(thin).toBeCloseTo(pressureWidth(10, 0));
+    expect(Math.max(...outline.map(p => p.x))).toBeCloseTo(100 + pressureWidth(10, 1) / 2, 0);
+  });
+
+  it("turns a single point into a dot", () => {
+    const outline = strokeOutline([{ x: 10, y: 10, timestamp: 0 }], 4);
+
+    expect(outline.length).toBeGreaterThan(3);
+    outline.forEach(p => expect(Math.hypot(p.x - 10, p.y - 10)).toBeCloseTo(2));
+  });
+});
@@ -0,0 +1,776 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { SyncService } from "@/lib/sync-service";
+import { LocalTransport } from "@/lib/local-transport";
+import { RejectedWriteError } from "@/lib/sync-transport";
+import type {
+  DrawingOperation,
+  LoadProgress,
+  StrokeOperation,
+  UserPresence,
+  WSMessage,
+} from "@/types/canvas";
+import { DEFAULT_LAYER } from "@/types/canvas";
+
+const ROOM_ID = "00000000-0000-0000-0000-0000000000aa";
+
+let channelCounter = 0;
+const transports: LocalTransport[] = [];
+
+function createClients(count: number) {
+  const channelName = `sync-service-test-${channelCounter++}`;
+  return Array.from({ length: count }, (_, i) => {
+    const transport = new LocalTransport({ channelName, syncTimeout: 20 });
+    transports.push(transport);
+    return new SyncService(transport, `user-${i}`, `User ${i}`, "#000000", ROOM_ID);
+  });
+}
+
+function transportOf(index: number) {
+  return transports[transports.length - 2 + index];
+}
+
+function makeStroke(userId: string, x: number): StrokeOperation {
+  return {
+    id: `stroke-${x}`,
+    type: "stroke",
+    userId,
+    color: "#ff0000",
+    width: 4,
+    tool: "brush",
+    points: [
+      { x, y: 0, timestamp: 1 },
+      { x: x + 10, y: 10, timestamp: 2 },
+    ],
+    startTime: 1,
+    sequence: 0,
+  };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+afterEach(() => {
+  transports.splice(0).forEach((transport) => transport.close());
+});
+
+describe("SyncService over LocalTransport", () => {
+  it("delivers committed strokes to other clients but not the author", async () => {
+    const [alice, bob] = createClients(2);
+    const aliceReceived: DrawingOperation[] = [];
+    const bobReceived: DrawingOperation[] = [];
+    alice.setOnOperationReceived((op) => aliceReceived.push(op));
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+
+    await alice.connect();
+    await bob.connect();
+
+    const confirmed = await alice.commitStroke(makeStroke("user-0", 5));
+    await flush();
+
+    expect(confirmed).toMatchObject({ sequence: 1, clientId: "stroke-5" });
+    expect(confirmed?.id).toBe(bobReceived[0].id);
+    expect(aliceReceived).toHaveLength(0);
+    expect(bobReceived).toHaveLength(1);
+    expect(bobReceived[0]).toMatchObject({ type: "stroke", userId: "user-0", sequence: 1 });
+  });
+
+  it("keeps the fitted curves of committed strokes", async () => {
+    const [alice, bob] = createClients(2);
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+    await alice.connect();
+    await bob.connect();
+
+    const controls = [{ x: 8, y: 0 }, { x: 12, y: 6 }];
+    await alice.commitStroke({ ...makeStroke("user-0", 5), controls });
+    await alice.commitStroke(makeStroke("user-0", 6));
+    await flush();
+
+    expect((bobReceived[0] as StrokeOperation).controls).toEqual(controls);
+    expect((bobReceived[1] as StrokeOperation).controls).toBeUndefined();
+  });
+
+  it("gives late joiners the existing room log", async () => {
+    const [alice, bob] = createClients(2);
+    await alice.connect();
+    await alice.commitStroke(makeStroke("user-0", 1));
+    await alice.commitStroke(makeStroke("user-0", 2));
+
+    const { size, snapshot, operations } = await bob.connect();
+
+    expect(size).toEqual({ width: 1920, height: 1080 });
+    expect(snapshot).toBeNull();
+    expect(operations.map((op) => op.sequence)).toEqual([1, 2]);
+  });
+
+  it("propagates global undo and redo", async () => {
+    const [alice, bob] = createClients(2);
+    const bobDeleted: string[] = [];
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationDeleted((id) => bobDeleted.push(id));
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+
+    await alice.connect();
+    await bob.connect();
+    await alice.commitStroke(makeStroke("user-0", 1));
+    await flush();
+
+    const undone = await bob.undoLast();
+    await flush();
+    expect(undone).toEqual({ status: "applied", value: bobReceived[0].id });
+    expect(bobDeleted).toEqual([bobReceived[0].id]);
+    expect(await alice.hasRedoAvailable()).toBe(true);
+
+    const redone = await alice.redoLast();
+    await flush();
+    expect(redone).toMatchObject({ status: "applied", value: { type: "stroke", userId: "user-0" } });
+    expect(bobReceived).toHaveLength(2);
+    expect(await bob.hasRedoAvailable()).toBe(false);
+  });
+
+  it("delivers a redo of someone else's operation to its author", async () => {
+    const [alice, bob] = createClients(2);
+    // Each canvas as CollaborativeCanvas keeps it: row id to sequence
+    const canvases = [alice, bob].map((client) => {
+      const ops = new Map<string, number>();
+      client.setOnOperationReceived((op) => ops.set(op.id, op.sequence));
+      client.setOnOperationDeleted((id) => ops.delete(id));
+      return ops;
+    });
+    await alice.connect();
+    await bob.connect();
+
+    const stroke = await alice.commitStroke(makeStroke("user-0", 1));
+    canvases[0].set(stroke!.id, stroke!.sequence);
+    await flush();
+    expect(await bob.undoLast()).toEqual({ status: "applied", value: stroke!.id });
+    await flush();
+    const redone = await bob.redoLast();
+    if (redone.status === "applied") canvases[1].set(redone.value.id, redone.value.sequence);
+    await flush();
+
+    expect(redone).toMatchObject({ status: "applied", value: { userId: "user-0", clientId: "stroke-1" } });
+    expect([...canvases[0]]).toEqual([...canvases[1]]);
+    expect(canvases[0].size).toBe(1);
+  });
+
+  it("shares presence between clients", async () => {
+    const [alice, bob] = createClients(2);
+    let bobSees: UserPresence[] = [];
+    bob.setOnPresenceChanged((users) => (bobSees = users));
+
+    await alice.connect();
+    await bob.connect();
+    await alice.updateCursor({ x: 3, y: 4, timestamp: 0 }, true);
+    await flush();
+
+    const aliceAsSeen = bobSees.find((u) => u.id === "user-0");
+    expect(aliceAsSeen).toMatchObject({ cursor: { x: 3, y: 4 }, isDrawing: true });
+
+    await alice.disconnect();
+    await flush();
+    expect(bobSees.map((u) => u.id)).toEqual(["user-1"]);
+  });
+
+  it("streams in-progress strokes and tags the commit with the stroke id", async () => {
+    const [alice, bob] = createClients(2);
+    const messages: WSMessage[] = [];
+    const received: DrawingOperation[] = [];
+    bob.setOnStrokeMessage((message) => messages.push(message));
+    bob.setOnOperationReceived((op) => received.push(op));
+
+    await alice.connect();
+    await bob.connect();
+
+    const stroke = makeStroke("user-0", 7);
+    await alice.broadcastStrokeStart(stroke);
+    await alice.broadcastStrokeMove(stroke.id, [{ x: 20, y: 20, timestamp: 3 }]);
+    await alice.broadcastStrokeEnd(stroke.id);
+    await alice.commitStroke(stroke);
+    await flush();
+
+    expect(messages.map((m) => m.type)).toEqual(["stroke:start", "stroke:move", "stroke:end"]);
+    expect(messages[1].payload).toEqual({ strokeId: stroke.id, points: [{ x: 20, y: 20, timestamp: 3 }] });
+    expect(received[0]).toMatchObject({ clientId: stroke.id });
+  });
+
+  it("tells other clients when an in-progress stroke is abandoned", async () => {
+    const [alice, bob] = createClients(2);
+    const messages: WSMessage[] = [];
+    bob.setOnStrokeMessage((message) => messages.push(message));
+
+    await alice.connect();
+    await bob.connect();
+
+    const stroke = makeStroke("user-0", 7);
+    await alice.broadcastStrokeStart(stroke);
+    await alice.broadcastStrokeCancel(stroke.id);
+    await flush();
+
+    expect(messages.map((m) => m.type)).toEqual(["stroke:start", "stroke:cancel"]);
+    expect(messages[1].payload).toEqual({ strokeId: stroke.id });
+  });
+
+  it("queues intents while offline and replays them in order on reconnect", async () => {
+    const [alice, bob] = createClients(2);
+    const pending: number[] = [];
+    const resynced: DrawingOperation[][] = [];
+    const bobReceived: DrawingOperation[] = [];
+    alice.setOnOutboxChanged((count) => pending.push(count));
+    alice.setOnResync((state) => resynced.push(state.operations));
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+
+    await alice.connect();
+    await bob.connect();
+    await bob.commitStroke(makeStroke("user-1", 1));
+    await flush();
+
+    transportOf(0).setOnline(false);
+    expect(await alice.commitStroke(makeStroke("user-0", 2))).toBeNull();
+    expect(await alice.commitStroke(makeStroke("user-0", 3))).toBeNull();
+    expect(await alice.undoLast()).toEqual({ status: "queued" });
+    expect(alice.getPendingCount()).toBe(3);
+
+    transportOf(0).setOnline(true);
+    await flush();
+    await flush();
+    await flush();
+
+    expect(alice.getPendingCount()).toBe(0);
+    expect(pending.slice(-1)).toEqual([0]);
+    expect(bobReceived.map((op) => op.type === "stroke" && op.clientId)).toEqual(["stroke-2", "stroke-3"]);
+    expect(resynced).toHaveLength(1);
+    expect(resynced[0].map((op) => op.type === "stroke" && op.clientId)).toEqual(["stroke-1", "stroke-2"]);
+  });
+
+  it("retries a failed insert while connected instead of holding the queue until a reconnect", async () => {
+    const [alice, bob] = createClients(2);
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+    await alice.connect();
+    await bob.connect();
+
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    vi.spyOn(transportOf(0), "insertOperation").mockRejectedValueOnce(new Error("network"));
+    expect(await alice.commitStroke(makeStroke("user-0", 1))).toBeNull();
+    expect(await alice.commitStroke(makeStroke("user-0", 2))).toBeNull();
+    expect(alice.getPendingCount()).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    vi.useRealTimers();
+    await flush();
+
+    expect(alice.getPendingCount()).toBe(0);
+    expect(bobReceived.map((op) => op.type === "stroke" && op.clientId)).toEqual(["stroke-1", "stroke-2"]);
+  });
+
+  it("reports an undo or redo behind queued intents as queued while connected", async () => {
+    const [alice] = createClients(2);
+    await alice.connect();
+
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    vi.spyOn(transportOf(0), "insertOperation").mockRejectedValueOnce(new Error("network"));
+    expect(await alice.commitStroke(makeStroke("user-0", 1))).toBeNull();
+    expect(await alice.undoLast()).toEqual({ status: "queued" });
+    expect(await alice.redoLast()).toEqual({ status: "queued" });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    vi.useRealTimers();
+    await flush();
+
+    expect(alice.getPendingCount()).toBe(0);
+    expect(await alice.redoLast()).toEqual({ status: "empty" });
+  });
+
+  it("drops a queued intent the server rejects so the rest still replay", async () => {
+    const [alice, bob] = createClients(2);
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+    await alice.connect();
+    await bob.connect();
+
+    transportOf(0).setOnline(false);
+    await alice.commitStroke(makeStroke("user-0", 1));
+    await alice.commitStroke(makeStroke("user-0", 2));
+    vi.spyOn(transportOf(0), "insertOperation").mockRejectedValueOnce(new RejectedWriteError("check violation"));
+    transportOf(0).setOnline(true);
+    await flush();
+    await flush();
+    await flush();
+
+    expect(alice.getPendingCount()).toBe(0);
+    expect(bobReceived.map((op) => op.type === "stroke" && op.clientId)).toEqual(["stroke-2"]);
+  });
+
+  it("does not insert a queued operation twice when only the response was lost", async () => {
+    const [alice, bob] = createClients(2);
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+    await alice.connect();
+    await bob.connect();
+
+    const insert = transportOf(0).insertOperation.bind(transportOf(0));
+    vi.spyOn(transportOf(0), "insertOperation").mockImplementationOnce(async (row) => {
+      await insert(row);
+      throw new Error("timed out");
+    });
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    expect(await alice.commitStroke(makeStroke("user-0", 1))).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    vi.useRealTimers();
+    await flush();
+
+    expect(alice.getPendingCount()).toBe(0);
+    expect(bobReceived.map((op) => op.type === "stroke" && op.clientId)).toEqual(["stroke-1"]);
+  });
+
+  it("undoes and redoes only the local user's operations in user scope", async () => {
+    const [alice, bob] = createClients(2);
+    await alice.connect();
+    await bob.connect();
+
+    const mine = await alice.commitStroke(makeStroke("user-0", 1));
+    await flush();
+    await bob.commitStroke(makeStroke("user-1", 2));
+    await flush();
+
+    alice.setUndoScope("user");
+    expect(await alice.undoLast()).toEqual({ status: "applied", value: mine?.id });
+    expect(await alice.undoLast()).toEqual({ status: "empty" });
+    await flush();
+    expect(await bob.hasRedoAvailable()).toBe(true);
+
+    bob.setUndoScope("user");
+    expect(await bob.hasRedoAvailable()).toBe(false);
+    expect(await bob.redoLast()).toEqual({ status: "empty" });
+
+    const redone = await alice.redoLast();
+    expect(redone).toMatchObject({ status: "applied", value: { userId: "user-0", clientId: "stroke-1" } });
+    expect(await alice.hasRedoAvailable()).toBe(false);
+  });
+
+  it("redoes in the order of the undos even when their timestamps disagree", async () => {
+    const [alice] = createClients(2);
+    await alice.connect();
+    await alice.commitStroke(makeStroke("user-0", 1));
+    await alice.commitStroke(makeStroke("user-0", 2));
+
+    // The second undo's transaction started first
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(2000);
+    await alice.undoLast();
+    vi.setSystemTime(1000);
+    await alice.undoLast();
+    vi.useRealTimers();
+
+    const first = await alice.redoLast();
+    const second = await alice.redoLast();
+    expect(first).toMatchObject({ status: "applied", value: { clientId: "stroke-1" } });
+    expect(second).toMatchObject({ status: "applied", value: { clientId: "stroke-2" } });
+  });
+
+  it("clears only the committer's redo entries, and not when replaying a queued commit", async () => {
+    const [alice, bob] = createClients(2);
+    await alice.connect();
+    await bob.connect();
+    alice.setUndoScope("user");
+
+    await alice.commitStroke(makeStroke("user-0", 1));
+    await alice.undoLast();
+    // Bob draws in global mode; Alice's undone stroke is still hers to redo
+    await bob.commitStroke(makeStroke("user-1", 2));
+    expect(await alice.hasRedoAvailable()).toBe(true);
+    expect(await alice.redoLast()).toMatchObject({ status: "applied" });
+    await flush();
+
+    transportOf(0).setOnline(false);
+    expect(await alice.commitStroke(makeStroke("user-0", 3))).toBeNull();
+    await bob.undoLast();
+    await flush();
+
+    // Replaying what Alice drew offline keeps the entry Bob's undo made since
+    transportOf(0).setOnline(true);
+    await flush();
+    await flush();
+    expect(alice.getPendingCount()).toBe(0);
+    expect(await alice.hasRedoAvailable()).toBe(true);
+
+    await alice.commitStroke(makeStroke("user-0", 4));
+    expect(await alice.hasRedoAvailable()).toBe(false);
+  });
+
+  it("records clear as an undoable operation instead of deleting history", async () => {
+    const [alice, bob, carol] = createClients(3);
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+    await alice.connect();
+    await bob.connect();
+
+    await alice.commitStroke(makeStroke("user-0", 1));
+    const cleared = await alice.commitClear({
+      id: "clear-1",
+      type: "clear",
+      userId: "user-0",
+      timestamp: 0,
+      sequence: 0,
+    });
+    await flush();
+
+    expect(cleared).toMatchObject({ type: "clear", sequence: 2, clientId: "clear-1" });
+    expect(bobReceived.map((op) => op.type)).toEqual(["stroke", "clear"]);
+
+    expect(await bob.undoLast()).toEqual({ status: "applied", value: cleared?.id });
+    await flush();
+    const { operations } = await carol.connect();
+    expect(operations.map((op) => op.type)).toEqual(["stroke"]);
+  });
+
+  it("shares layer changes and tags strokes with their layer", async () => {
+    const [alice, bob] = createClients(2);
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+    await alice.connect();
+    await bob.connect();
+
+    await alice.commitLayer({
+      id: "layer-op-1",
+      type: "layer",
+      userId: "user-0",
+      change: { action: "create", layerId: "ink", name: "Ink", index: 1 },
+      timestamp: 0,
+      sequence: 0,
+    });
+    await alice.commitStroke({ ...makeStroke("user-0", 1), layerId: "ink" });
+    await flush();
+
+    expect(bobReceived).toMatchObject([
+      { type: "layer", clientId: "layer-op-1", change: { action: "create", layerId: "ink", name: "Ink" } },
+      { type: "stroke", layerId: "ink" },
+    ]);
+  });
+
+  it("commits shapes as undoable operations", async () => {
+    const [alice, bob, carol] = createClients(3);
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+    await alice.connect();
+    await bob.connect();
+
+    const confirmed = await alice.commitShape({
+      id: "shape-1",
+      type: "shape",
+      userId: "user-0",
+      shape: "arrow",
+      color: "#3b82f6",
+      width: 8,
+      start: { x: 10, y: 20 },
+      end: { x: 110, y: -20 },
+      timestamp: 0,
+      sequence: 0,
+      layerId: "default",
+    });
+    await flush();
+
+    expect(confirmed).toMatchObject({ type: "shape", sequence: 1, clientId: "shape-1" });
+    expect(bobReceived).toMatchObject([
+      { type: "shape", shape: "arrow", color: "#3b82f6", width: 8, start: { x: 10, y: 20 }, end: { x: 110, y: -20 } },
+    ]);
+
+    expect(await bob.undoLast()).toEqual({ status: "applied", value: confirmed?.id });
+    await flush();
+    const { operations } = await carol.connect();
+    expect(operations).toEqual([]);
+  });
+
+  it("shares text edits live and undoes them back to the previous content", async () => {
+    const [alice, bob, carol] = createClients(3);
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+    await alice.connect();
+    await bob.connect();
+
+    await alice.commitText({
+      id: "text-1",
+      type: "text",
+      userId: "user-0",
+      content: "Hello",
+      fontSize: 24,
+      color: "#1a1a2e",
+      x: 40,
+      y: 60,
+      width: 200,
+      timestamp: 0,
+      sequence: 0,
+    });
+    const edited = await alice.commitTextEdit({
+      id: "edit-1",
+      type: "text-edit",
+      userId: "user-0",
+      textId: "text-1",
+      content: "Hello, world",
+      width: 240,
+      timestamp: 0,
+      sequence: 0,
+    });
+    await flush();
+
+    expect(bobReceived).toMatchObject([
+      { type: "text", clientId: "text-1", content: "Hello", fontSize: 24, x: 40, y: 60, width: 200 },
+      { type: "text-edit", textId: "text-1", content: "Hello, world", width: 240 },
+    ]);
+
+    expect(await alice.undoLast()).toEqual({ status: "applied", value: edited?.id });
+    await flush();
+    const { operations } = await carol.connect();
+    expect(operations.map((op) => op.type)).toEqual(["text"]);
+  });
+
+  it("shares transforms and deletes of earlier strokes and undoes them", async () => {
+    const [alice, bob, carol] = createClients(3);
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+    await alice.connect();
+    await bob.connect();
+
+    await alice.commitStroke(makeStroke("user-0", 1));
+    await alice.commitTransform({
+      id: "transform-1",
+      type: "transform",
+      userId: "user-0",
+      targetIds: ["stroke-1"],
+      matrix: [1, 0, 0, 1, 40, -20],
+      timestamp: 0,
+      sequence: 0,
+    });
+    const deleted = await alice.commitDelete({
+      id: "delete-1",
+      type: "delete",
+      userId: "user-0",
+      targetIds: ["stroke-1"],
+      timestamp: 0,
+      sequence: 0,
+    });
+    await flush();
+
+    expect(bobReceived).toMatchObject([
+      { type: "stroke", clientId: "stroke-1" },
+      { type: "transform", clientId: "transform-1", targetIds: ["stroke-1"], matrix: [1, 0, 0, 1, 40, -20] },
+      { type: "delete", clientId: "delete-1", targetIds: ["stroke-1"] },
+    ]);
+
+    expect(await alice.undoLast()).toEqual({ status: "applied", value: deleted?.id });
+    await flush();
+    const { operations } = await carol.connect();
+    expect(operations.map((op) => op.type)).toEqual(["stroke", "transform"]);
+  });
+
+  it("starts late joiners from the latest snapshot and drops it when undone past", async () => {
+    const [alice, bob, carol] = createClients(3);
+    await alice.connect();
+    await alice.commitStroke(makeStroke("user-0", 1));
+    const second = await alice.commitStroke(makeStroke("user-0", 2));
+    await alice.commitSnapshot(second!.sequence, [
+      { ...DEFAULT_LAYER, image: "data:image/png;base64,", x: -10, y: 0, width: 100, height: 80 },
+    ]);
+    await alice.commitStroke(makeStroke("user-0", 3));
+    await flush();
+
+    const joined = await bob.connect();
+    expect(joined.snapshot).toMatchObject({
+      sequence: 2,
+      layers: [{ id: "default", x: -10, y: 0, width: 100, height: 80 }],
+    });
+    expect(joined.operations.map((op) => op.sequence)).toEqual([3]);
+
+    const resynced: (number | null)[] = [];
+    bob.setOnResync((state) => resynced.push(state.snapshot?.sequence ?? null));
+    await alice.undoLast();
+    await alice.undoLast();
+    await flush();
+
+    expect(resynced).toEqual([null]);
+    const { snapshot, operations } = await carol.connect();
+    expect(snapshot).toBeNull();
+    expect(operations.map((op) => op.sequence)).toEqual([1]);
+  });
+
+  it("hands a snapshot committed mid-session to connected clients", async () => {
+    const [alice, bob] = createClients(2);
+    await alice.connect();
+    await bob.connect();
+    const adopted: number[] = [];
+    bob.setOnSnapshot((snapshot) => adopted.push(snapshot.sequence));
+    const bobReceived: DrawingOperation[] = [];
+    bob.setOnOperationReceived((op) => bobReceived.push(op));
+
+    const first = await alice.commitStroke(makeStroke("user-0", 1));
+    await alice.commitSnapshot(first!.sequence, [
+      { ...DEFAULT_LAYER, image: "data:image/png;base64,", x: 0, y: 0, width: 10, height: 10 },
+    ]);
+    await flush();
+    expect(adopted).toEqual([1]);
+
+    await alice.commitStroke(makeStroke("user-0", 2));
+    await flush();
+    expect(bobReceived.map((op) => op.sequence)).toEqual([1, 2]);
+  });
+
+  it("drops a snapshot when an operation committed before it was heard of reaches into it", async () => {
+    const [alice, bob, carol] = createClients(3);
+    await alice.connect();
+    await bob.connect();
+    const first = await alice.commitStroke(makeStroke("user-0", 1));
+    await alice.commitSnapshot(first!.sequence, [
+      { ...DEFAULT_LAYER, image: "data:image/png;base64,", x: 0, y: 0, width: 10, height: 10 },
+    ]);
+    await flush();
+
+    const resynced: (number | null)[] = [];
+    alice.setOnResync((state) => resynced.push(state.snapshot?.sequence ?? null));
+    // Bob still had the stroke selected when the snapshot landed
+    await bob.commitTransform({
+      id: "transform-1",
+      type: "transform",
+      userId: "user-1",
+      targetIds: ["stroke-1"],
+      matrix: [1, 0, 0, 1, 40, -20],
+      timestamp: 0,
+      sequence: 0,
+    });
+    await flush();
+
+    expect(resynced).toEqual([null]);
+    const { snapshot, operations } = await carol.connect();
+    expect(snapshot).toBeNull();
+    expect(operations.map((op) => op.type)).toEqual(["stroke", "transform"]);
+  });
+
+  it("drops a snapshot when a text edit reaches into it", async () => {
+    const [alice, bob, carol] = createClients(3);
+    await alice.connect();
+    await bob.connect();
+    const text = await alice.commitText({
+      id: "text-1",
+      type: "text",
+      userId: "user-0",
+      content: "Hello",
+      fontSize: 24,
+      color: "#1a1a2e",
+      x: 40,
+      y: 60,
+      width: 200,
+      timestamp: 0,
+      sequence: 0,
+    });
+    await alice.commitSnapshot(text!.sequence, [
+      { ...DEFAULT_LAYER, image: "data:image/png;base64,", x: 0, y: 0, width: 10, height: 10 },
+    ]);
+    await flush();
+
+    const resynced: (number | null)[] = [];
+    alice.setOnResync((state) => resynced.push(state.snapshot?.sequence ?? null));
+    // Bob opened the text before the snapshot landed and finishes after
+    await bob.commitTextEdit({
+      id: "edit-1",
+      type: "text-edit",
+      userId: "user-1",
+      textId: "text-1",
+      content: "Hello, world",
+      width: 240,
+      timestamp: 0,
+      sequence: 0,
+    });
+    await flush();
+
+    expect(resynced).toEqual([null]);
+    const { snapshot, operations } = await carol.connect();
+    expect(snapshot).toBeNull();
+    expect(operations.map((op) => op.type)).toEqual(["text", "text-edit"]);
+  });
+
+  it("drops a snapshot when an erase reaches into it", async () => {
+    const [alice, bob, carol] = createClients(3);
+    await alice.connect();
+    await bob.connect();
+    const first = await alice.commitStroke(makeStroke("user-0", 1));
+    await alice.commitStroke(makeStroke("user-0", 2));
+    await alice.commitSnapshot(first!.sequence, [
+      { ...DEFAULT_LAYER, image: "data:image/png;base64,", x: 0, y: 0, width: 10, height: 10 },
+    ]);
+    await flush();
+
+    const resynced: (number | null)[] = [];
+    alice.setOnResync((state) => resynced.push(state.snapshot?.sequence ?? null));
+    // Bob's sweep crossed both strokes before the snapshot landed
+    await bob.commitDelete({
+      id: "delete-1",
+      type: "delete",
+      userId: "user-1",
+      targetIds: ["stroke-1", "stroke-2"],
+      timestamp: 0,
+      sequence: 0,
+    });
+    await flush();
+
+    expect(resynced).toEqual([null]);
+    const { snapshot, operations } = await carol.connect();
+    expect(snapshot).toBeNull();
+    expect(operations.map((op) => op.type)).toEqual(["stroke", "stroke", "delete"]);
+  });
+
+  it("still loads a room holding a stroke whose points can't be decoded", async () => {
+    const [alice, bob] = createClients(2);
+    await alice.connect();
+    await transportOf(0).insertOperation({
+      room_id: ROOM_ID,
+      user_id: "user-0",
+      type: "stroke",
+      data: { id: "stroke-corrupt", points: btoa(String.fromCharCode(99, 0, 0)) },
+    });
+    await alice.commitStroke(makeStroke("user-0", 1));
+
+    const { operations } = await bob.connect();
+
+    expect(operations).toMatchObject([
+      { type: "stroke", clientId: "stroke-corrupt", points: [] },
+      { type: "stroke", clientId: "stroke-1" },
+    ]);
+  });
+
+  it("loads large rooms in pages and folds in changes made mid-load", async () => {
+    const [alice, bob] = createClients(2);
+    await alice.connect();
+    for (let i = 0; i < 1050; i++) {
+      await transportOf(0).insertOperation({
+        room_id: ROOM_ID,
+        user_id: "user-0",
+        user_name: "User 0",
+        user_color: "#000000",
+        type: "clear",
+        data: { id: `clear-${i}` },
+      });
+    }
+
+    const fetchOperations = transportOf(1).fetchOperations.bind(transportOf(1));
+    let pages = 0;
+    vi.spyOn(transportOf(1), "fetchOperations").mockImplementation(async (...args) => {
+      const rows = await fetchOperations(...args);
+      if (pages++ === 0) {
+        await alice.commitStroke(makeStroke("user-0", 1));
+        await alice.commitStroke(makeStroke("user-0", 2));
+        await alice.undoLast();
+        await flush();
+      }
+      return rows;
+    });
+
+    const progress: LoadProgress[] = [];
+    bob.setOnLoadProgress((p) => progress.push(p));
+    const { operations } = await bob.connect();
+
+    expect(progress.map((p) => [p.loaded, p.total])).toEqual([[1000, 1050], [1051, 1051]]);
+    expect(operations).toHaveLength(1051);
+    expect(operations.slice(-2).map((op) => op.type)).toEqual(["clear", "stroke"]);
+    expect(new Set(operations.map((op) => op.id)).size).toBe(1051);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { findTextAt, layoutText, resolveTextEdits, applyTextEdit, fontSizeForWidth } from "@/lib/texts";
+import { DEFAULT_LAYER } from "@/types/canvas";
+import type { DrawingOperation, TextEditOperation, TextOperation } from "@/types/canvas";
+
+// Every character is 10 units wide
+const measure = (text: string) => text.length * 10;
+
+function text(id: string, content: string, overrides: Partial<TextOperation> = {}): TextOperation {
+  return {
+    id,
+    type: "text",
+    userId: "user",
+    content,
+    fontSize: 16,
+    color: "#000000",
+    x: 0,
+    y: 0,
+    width: 100,
+    timestamp: 0,
+    sequence: 1,
+    clientId: `client-${id}`,
+    ...overrides,
+  };
+}
+
+function edit(textId: string, content: string, sequence: number): TextEditOperation {
+  return {
+    id: `edit-${sequence}`,
+    type: "text-edit",
+    userId: "user",
+    textId,
+    content,
+    width: 100,
+    timestamp: 0,
+    sequence,
+  };
+}
+
+describe("layoutText", () => {
+  it("wraps at word boundaries and keeps explicit line breaks", () => {
+    const layout = layoutText(text("a", "one two three\nfour"), measure);
+    expect(layout.lines).toEqual(["one two", "three", "four"]);
+    expect(layout.lineHeight).toBe(20);
+    expect(layout.bounds).toEqual({ x: 0, y: 0, width: 100, height: 60 });
+  });
+
+  it("breaks words longer than the width", () => {
+    expect(layoutText(text("a", "abcdefghijklmn ok"), measure).lines).toEqual(["abcdefghij", "klmn ok"]);
+  });
+});
+
+describe("text edits", () => {
+  it("applies the latest edit of each text by client id", () => {
+    const original = text("a", "draft");
+    const edits = resolveTextEdits([original, edit("client-a", "first", 2), edit("client-a", "final", 3)]);
+    expect(applyTextEdit(original, edits.get("client-a")).content).toBe("final");
+  });
+
+  it("maps brush widths to font sizes", () => {
+    expect(fontSizeForWidth(2)).toBe(14);
+    expect(fontSizeForWidth(20)).toBe(48);
+    expect(fontSizeForWidth(7)).toBe(18);
+  });
+});
+
+describe("findTextAt", () => {
+  const layers = [DEFAULT_LAYER, { ...DEFAULT_LAYER, id: "top", name: "Top" }];
+
+  it("finds the topmost text under the point with its edits applied", () => {
+    const operations: DrawingOperation[] = [
+      text("top", "upper", { layerId: "top" }),
+      text("low", "lower"),
+      edit("client-top", "edited", 3),
+    ];
+    expect(findTextAt(operations, layers, { x: 5, y: 5 }, measure)).toMatchObject({
+      id: "top",
+      content: "edited",
+    });
+    expect(findTextAt(operations, layers, { x: 5, y: 50 }, measure)).toBeNull();
+  });
+
+  it("skips locked layers and texts before a clear", () => {
+    const locked = [{ ...DEFAULT_LAYER, locked: true }];
+    expect(findTextAt([text("a", "hi")], locked, { x: 5, y: 5 }, measure)).toBeNull();
+
+    const cleared: DrawingOperation[] = [
+      text("a", "hi"),
+      { id: "clear", type: "clear", userId: "user", timestamp: 0, sequence: 2 },
+    ];
+    expect(findTextAt(cleared, layers, { x: 5, y: 5 }, measure)).toBeNull();
+  });
+});
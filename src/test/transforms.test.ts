@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyMatrix,
+  isIdentity,
+  multiply,
+  resolveTransforms,
+  rotationAbout,
+  scalingAbout,
+  transformRect,
+  translation,
+} from "@/lib/transforms";
+import type { DeleteOperation, Matrix, TransformOperation } from "@/types/canvas";
+
+function transform(id: string, targetIds: string[], matrix: Matrix): TransformOperation {
+  return { id, type: "transform", userId: "user", targetIds, matrix, timestamp: 0, sequence: 1 };
+}
+
+function deletion(id: string, targetIds: string[]): DeleteOperation {
+  return { id, type: "delete", userId: "user", targetIds, timestamp: 0, sequence: 1 };
+}
+
+describe("matrices", () => {
+  it("applies the right-hand matrix first", () => {
+    const moveThenDouble = multiply(scalingAbout({ x: 0, y: 0 }, 2, 2), translation(10, 0));
+    expect(applyMatrix(moveThenDouble, { x: 5, y: 5 })).toEqual({ x: 30, y: 10 });
+  });
+
+  it("keeps the origin of a scale or rotation in place", () => {
+    const origin = { x: 40, y: -20 };
+    expect(applyMatrix(scalingAbout(origin, 3, 0.5), origin)).toEqual(origin);
+
+    const quarterTurn = rotationAbout(origin, Math.PI / 2);
+    const center = applyMatrix(quarterTurn, origin);
+    expect(center.x).toBeCloseTo(40);
+    expect(center.y).toBeCloseTo(-20);
+    // Clockwise on screen, where y points down
+    const right = applyMatrix(quarterTurn, { x: 50, y: -20 });
+    expect(right.x).toBeCloseTo(40);
+    expect(right.y).toBeCloseTo(-10);
+  });
+
+  it("bounds a rotated rectangle by its transformed corners", () => {
+    const rect = transformRect(rotationAbout({ x: 0, y: 0 }, Math.PI / 4), { x: 0, y: 0, width: 10, height: 10 });
+    expect(rect.width).toBeCloseTo(10 * Math.SQRT2);
+    expect(rect.height).toBeCloseTo(10 * Math.SQRT2);
+  });
+});
+
+describe("resolveTransforms", () => {
+  it("composes transforms of the same target in order and collects deletes", () => {
+    const { matrices, deleted } = resolveTransforms([
+      transform("t1", ["a", "b"], translation(10, 0)),
+      transform("t2", ["a"], scalingAbout({ x: 0, y: 0 }, 2, 2)),
+      deletion("d1", ["b"]),
+    ]);
+
+    expect(applyMatrix(matrices.get("a")!, { x: 1, y: 1 })).toEqual({ x: 22, y: 2 });
+    expect(matrices.get("b")).toEqual(translation(10, 0));
+    expect(matrices.has("c")).toBe(false);
+    expect([...deleted]).toEqual(["b"]);
+  });
+
+  it("recognises a drag that went nowhere", () => {
+    expect(isIdentity(multiply(translation(5, 5), translation(-5, -5)))).toBe(true);
+    expect(isIdentity(translation(0.5, 0))).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from "vitest";
+import { CanvasEngine } from "@/lib/canvas-engine";
+import { WorkerCanvasEngine, createCanvasRenderer } from "@/lib/worker-canvas-engine";
+import type { RenderRequest, RenderResponse } from "@/lib/render-protocol";
+import type { StrokeOperation } from "@/types/canvas";
+import { DEFAULT_LAYER } from "@/types/canvas";
+
+function stroke(id: string, sequence: number): StrokeOperation {
+  return {
+    id,
+    type: "stroke",
+    userId: "user",
+    color: "#000000",
+    width: 4,
+    tool: "brush",
+    points: [{ x: 0, y: 0, timestamp: 0 }],
+    startTime: 0,
+    sequence,
+  };
+}
+
+function setup() {
+  const sent: RenderRequest[] = [];
+  const worker = {
+    onmessage: null as ((event: MessageEvent<RenderResponse>) => void) | null,
+    postMessage: vi.fn((message: RenderRequest) => sent.push(message)),
+    terminate: vi.fn(),
+  };
+  const canvas = document.createElement("canvas");
+  canvas.transferControlToOffscreen = () => ({}) as OffscreenCanvas;
+
+  const engine = new WorkerCanvasEngine(canvas, worker as unknown as Worker);
+  const respond = (response: RenderResponse) => worker.onmessage?.({ data: response } as MessageEvent);
+  return { engine, sent, worker, respond };
+}
+
+describe("WorkerCanvasEngine", () => {
+  it("hands the canvas to the worker and keeps the viewport on the main thread", () => {
+    const { engine, sent } = setup();
+    engine.resize(960, 1000);
+
+    expect(sent[0]).toMatchObject({ type: "init" });
+    expect(engine.getViewport()).toEqual({ scale: 0.5, offsetX: 0, offsetY: 230 });
+    expect(sent.at(-1)).toEqual({ type: "viewport", viewport: engine.getViewport() });
+
+    engine.zoomAt(2, 0, 230);
+    expect(engine.toWorld(0, 230)).toEqual({ x: 0, y: 0 });
+  });
+
+  it("posts only the operations that changed", () => {
+    const { engine, sent } = setup();
+    const a = stroke("a", 1);
+    const b = stroke("b", 2);
+    const local = { ...stroke("local-1", 0), pending: true };
+
+    engine.setOperations([a, b]);
+    engine.setOperations([a, b, local]);
+    const confirmed = { ...local, id: "c", sequence: 3, pending: false };
+    engine.setOperations([a, b, confirmed]);
+    engine.setOperations([a, b, confirmed]);
+    engine.setOperations([a]);
+
+    expect(sent.filter((message) => message.type === "operations")).toEqual([
+      { type: "operations", keep: 0, append: [a, b] },
+      { type: "operations", keep: 2, append: [local] },
+      { type: "operations", keep: 2, append: [confirmed] },
+      { type: "operations", keep: 1, append: [] },
+    ]);
+  });
+
+  it("resolves snapshot and export requests from worker replies", async () => {
+    const { engine, sent, respond } = setup();
+    const layers = [{ ...DEFAULT_LAYER, image: "data:snap", x: 0, y: 0, width: 10, height: 10 }];
+
+    const snapshot = engine.renderSnapshot(5);
+    const exported = engine.toDataURL();
+    const [snapshotRequest, exportRequest] = sent.filter(
+      (message): message is Extract<RenderRequest, { requestId: number }> => "requestId" in message
+    );
+    respond({ type: "exported", requestId: exportRequest.requestId, dataUrl: "data:export" });
+    respond({ type: "snapshot-rendered", requestId: snapshotRequest.requestId, layers });
+
+    await expect(snapshot).resolves.toEqual(layers);
+    await expect(exported).resolves.toBe("data:export");
+
+    const failing = engine.renderSnapshot(6);
+    respond({ type: "failed", requestId: (sent.at(-1) as { requestId: number }).requestId, message: "boom" });
+    await expect(failing).rejects.toThrow("boom");
+  });
+});
+
+describe("createCanvasRenderer", () => {
+  it("falls back to the in-thread engine without transferControlToOffscreen", () => {
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(
+      () => new Proxy({}, { get: () => () => {} }) as unknown as RenderingContext
+    );
+    const canvas = document.createElement("canvas");
+    const renderer = createCanvasRenderer(canvas, { worker: true });
+
+    expect(renderer).toBeInstanceOf(CanvasEngine);
+    renderer.destroy();
+    vi.restoreAllMocks();
+  });
+});
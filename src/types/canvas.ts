@@ -1,7 +1,11 @@
 export interface Point {
   x: number;
   y: number;
+  /** 0..1, from a pen; brush strokes simulate it for other input. */
   pressure?: number;
+  /** Pen tilt in degrees, -90..90, when the pen reports any. */
+  tiltX?: number;
+  tiltY?: number;
   timestamp: number;
 }
 
@@ -11,11 +15,125 @@ export interface StrokeOperation {
   userId: string;
   color: string;
   width: number;
-  tool: ToolType;
+  tool: StrokeTool;
   points: Point[];
+  /**
+   * Set on committed strokes fitted to cubic Béziers: two control points per
+   * segment between consecutive `points`. Without them the points are joined
+   * by a Catmull-Rom spline.
+   */
+  controls?: { x: number; y: number }[];
   startTime: number;
   endTime?: number;
   sequence: number;
+  /** Missing on strokes drawn before layers existed: those are on DEFAULT_LAYER. */
+  layerId?: string;
+  clientId?: string;
+  pending?: boolean;
+}
+
+export type ShapeKind = 'line' | 'rectangle' | 'ellipse' | 'arrow' | 'triangle';
+
+/**
+ * A geometric shape dragged out from `start` to `end` in world coordinates.
+ * Rectangles and ellipses fill the box between the two; lines and arrows
+ * run from one to the other, arrows pointing at `end`. Triangles come from
+ * smart ink and carry their corners in `vertices`, with `start` and `end`
+ * spanning their box.
+ */
+export interface ShapeOperation {
+  id: string;
+  type: 'shape';
+  userId: string;
+  shape: ShapeKind;
+  color: string;
+  width: number;
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  vertices?: { x: number; y: number }[];
+  timestamp: number;
+  sequence: number;
+  layerId?: string;
+  clientId?: string;
+  pending?: boolean;
+}
+
+/** A block of text, wrapped to `width` world units. */
+export interface TextOperation {
+  id: string;
+  type: 'text';
+  userId: string;
+  content: string;
+  fontSize: number;
+  color: string;
+  /** Top-left corner of the first line, in world coordinates. */
+  x: number;
+  y: number;
+  width: number;
+  timestamp: number;
+  sequence: number;
+  layerId?: string;
+  clientId?: string;
+  pending?: boolean;
+}
+
+/**
+ * Replaces a text's content and wrap width. The text keeps its place in the
+ * log; the latest edit in sequence order wins, and undoing it restores the
+ * one before.
+ */
+export interface TextEditOperation {
+  id: string;
+  type: 'text-edit';
+  userId: string;
+  /** The edited text's client id (see `operationKey`). */
+  textId: string;
+  content: string;
+  width: number;
+  timestamp: number;
+  sequence: number;
+  clientId?: string;
+  pending?: boolean;
+}
+
+/**
+ * A 2D affine matrix in canvas `setTransform` order: a point (x, y) maps to
+ * (a·x + c·y + e, b·x + d·y + f).
+ */
+export type Matrix = [a: number, b: number, c: number, d: number, e: number, f: number];
+
+/**
+ * Moves, scales or rotates earlier strokes, shapes and texts, named by
+ * client id. Transforms of the same target compose in sequence order.
+ */
+export interface TransformOperation {
+  id: string;
+  type: 'transform';
+  userId: string;
+  targetIds: string[];
+  matrix: Matrix;
+  timestamp: number;
+  sequence: number;
+  clientId?: string;
+  pending?: boolean;
+}
+
+/** Removes earlier strokes, shapes and texts, named by client id; undo brings them back. */
+export interface DeleteOperation {
+  id: string;
+  type: 'delete';
+  userId: string;
+  targetIds: string[];
+  timestamp: number;
+  sequence: number;
+  clientId?: string;
+  pending?: boolean;
+}
+
+/** Targets being dragged by the local selection tool, and the drag so far. */
+export interface TransformPreview {
+  targetIds: string[];
+  matrix: Matrix;
 }
 
 export interface ClearOperation {
@@ -24,11 +142,139 @@ export interface ClearOperation {
   userId: string;
   timestamp: number;
   sequence: number;
+  clientId?: string;
+  pending?: boolean;
+}
+
+/** One edit to the room's layer stack. `index` counts from the bottom. */
+export type LayerChange =
+  | { action: 'create'; layerId: string; name: string; index: number }
+  | { action: 'rename'; layerId: string; name: string }
+  | { action: 'move'; layerId: string; index: number }
+  | { action: 'visibility'; layerId: string; visible: boolean }
+  | { action: 'lock'; layerId: string; locked: boolean }
+  | { action: 'delete'; layerId: string };
+
+/**
+ * The layer stack is not stored separately: it is the fold of these
+ * operations, so it syncs, undoes and redoes like strokes do.
+ */
+export interface LayerOperation {
+  id: string;
+  type: 'layer';
+  userId: string;
+  timestamp: number;
+  sequence: number;
+  change: LayerChange;
+  clientId?: string;
+  pending?: boolean;
+}
+
+export type DrawingOperation =
+  | StrokeOperation
+  | ShapeOperation
+  | TextOperation
+  | TextEditOperation
+  | TransformOperation
+  | DeleteOperation
+  | ClearOperation
+  | LayerOperation;
+
+/** Operations that put marks on a layer. */
+export type DrawableOperation = StrokeOperation | ShapeOperation | TextOperation;
+
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+}
+
+export const DEFAULT_LAYER: Layer = { id: 'default', name: 'Layer 1', visible: true, locked: false };
+
+/** Axis-aligned rectangle in world coordinates. */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A layer as of a snapshot, with its strokes rasterized. The image is
+ * transparent outside strokes and spans `x, y, width, height` in world
+ * coordinates; it is null for a layer with nothing drawn on it.
+ */
+export interface LayerSnapshot extends Layer, Rect {
+  image: string | null;
+}
+
+/** Checkpoint of every operation up to and including `sequence`. */
+export interface CanvasSnapshot {
+  id: string;
+  sequence: number;
+  /** The layer stack at `sequence`, bottom first. */
+  layers: LayerSnapshot[];
+  createdAt: number;
+}
+
+/**
+ * A room's home frame in world coordinates, fitted to the viewport on load.
+ * Drawing may extend past it; the board itself is unbounded.
+ */
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+/** Maps world coordinates to CSS pixels in the local viewport. */
+export interface ViewportTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface RoomState {
+  size: CanvasSize;
+  snapshot: CanvasSnapshot | null;
+  operations: DrawingOperation[];
+}
+
+/** One page of the initial room load; `operations` holds only that page. */
+export interface LoadProgress {
+  size: CanvasSize;
+  snapshot: CanvasSnapshot | null;
+  operations: DrawingOperation[];
+  loaded: number;
+  total: number;
 }
 
-export type DrawingOperation = StrokeOperation | ClearOperation;
+export type StrokeTool = 'brush' | 'eraser';
+
+/** Shapes that can be dragged out with a tool; triangles only come from smart ink. */
+export type ShapeTool = Exclude<ShapeKind, 'triangle'>;
+
+/** 'object-eraser' deletes whole drawings rather than painting out pixels like 'eraser'. */
+export type ToolType = 'select' | StrokeTool | 'object-eraser' | ShapeTool | 'text';
 
-export type ToolType = 'brush' | 'eraser';
+/** 'user' undoes only the local user's operations; 'global' undoes anyone's. */
+export type UndoScope = 'user' | 'global';
+
+/**
+ * Outcome of an undo or redo: applied now, queued behind the outbox to apply
+ * later, or nothing left to undo or redo.
+ */
+export type HistoryResult<T> =
+  | { status: 'applied'; value: T }
+  | { status: 'queued' }
+  | { status: 'empty' };
+
+/**
+ * How touch input is used. 'auto': a finger draws, two fingers pan and zoom,
+ * and touches are ignored while a pen is in use. 'pen': only pens and mice
+ * draw; fingers always pan and zoom.
+ */
+export type InputMode = 'auto' | 'pen';
 
 export interface UserPresence {
   id: string;
@@ -50,6 +296,7 @@ export type WSMessageType =
   | 'stroke:start'
   | 'stroke:move'
   | 'stroke:end'
+  | 'stroke:cancel'
   | 'cursor:move'
   | 'operation:commit'
   | 'operation:undo'
@@ -57,7 +304,8 @@ export type WSMessageType =
   | 'state:sync'
   | 'user:join'
   | 'user:leave'
-  | 'canvas:clear';
+  | 'canvas:clear'
+  | 'snapshot:commit';
 
 export interface WSMessage {
   type: WSMessageType;
@@ -67,6 +315,54 @@ export interface WSMessage {
   sequence?: number;
 }
 
+export type StrokeStartPayload = Omit<StrokeOperation, 'sequence' | 'endTime'>;
+
+export interface StrokeMovePayload {
+  strokeId: string;
+  points: Point[];
+}
+
+export interface StrokeEndPayload {
+  strokeId: string;
+}
+
+/** The stroke will never be committed; drop its preview now. */
+export interface StrokeCancelPayload {
+  strokeId: string;
+}
+
+/** Tells clients that were already connected to load the new snapshot too. */
+export interface SnapshotCommitPayload {
+  sequence: number;
+}
+
+/**
+ * Text open in the inline editor. `textId` is the text being re-edited, by
+ * client id, or null for a new one.
+ */
+export interface TextDraft {
+  textId: string | null;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  color: string;
+  content: string;
+  layerId: string;
+}
+
+/** What the selection overlay shows for the selection tool. */
+export interface SelectionState {
+  /** Client ids of the selected operations. */
+  ids: string[];
+  /** World-space box around them, before any drag in progress. */
+  bounds: Rect | null;
+  /** The drag in progress, if any. */
+  preview: Matrix | null;
+  /** The lasso being drawn, in world space. */
+  lasso: { x: number; y: number }[] | null;
+}
+
 export interface DrawingContext {
   isDrawing: boolean;
   currentStroke: StrokeOperation | null;
@@ -106,4 +402,6 @@ export const USER_COLORS = [
   'hsl(180, 70%, 50%)',
 ] as const;
 
+export const DEFAULT_CANVAS_SIZE: CanvasSize = { width: 1920, height: 1080 };
+
 export const BRUSH_WIDTHS = [2, 4, 8, 12, 20] as const;
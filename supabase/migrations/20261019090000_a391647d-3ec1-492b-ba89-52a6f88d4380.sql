@@ -0,0 +1,69 @@
+-- Atomic undo/redo for the global (and per-user) operation stack.
+-- Each call takes a per-room advisory lock for the rest of the transaction so
+-- concurrent undo/redo requests in the same room are serialized, and locks the
+-- row it moves so it can't be captured twice.
+
+CREATE OR REPLACE FUNCTION public.undo_last(p_room_id UUID, p_user_id TEXT DEFAULT NULL)
+RETURNS SETOF public.operations AS $$
+DECLARE
+  target public.operations;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_room_id::text));
+
+  SELECT * INTO target
+  FROM public.operations
+  WHERE room_id = p_room_id
+    AND (p_user_id IS NULL OR user_id = p_user_id)
+  ORDER BY sequence DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.redo_stack (room_id, original_id, operation_data)
+  VALUES (p_room_id, target.id, to_jsonb(target));
+
+  DELETE FROM public.operations WHERE id = target.id;
+
+  RETURN NEXT target;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.redo_last(p_room_id UUID, p_user_id TEXT DEFAULT NULL)
+RETURNS SETOF public.operations AS $$
+DECLARE
+  item public.redo_stack;
+  restored public.operations;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_room_id::text));
+
+  SELECT * INTO item
+  FROM public.redo_stack
+  WHERE room_id = p_room_id
+    AND (p_user_id IS NULL OR operation_data->>'user_id' = p_user_id)
+  ORDER BY deleted_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.operations (room_id, user_id, user_name, user_color, type, data)
+  VALUES (
+    p_room_id,
+    item.operation_data->>'user_id',
+    COALESCE(item.operation_data->>'user_name', 'Anonymous'),
+    COALESCE(item.operation_data->>'user_color', '#3b82f6'),
+    item.operation_data->>'type',
+    COALESCE(item.operation_data->'data', '{}'::jsonb)
+  )
+  RETURNING * INTO restored;
+
+  DELETE FROM public.redo_stack WHERE id = item.id;
+
+  RETURN NEXT restored;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,62 @@
+-- Raster checkpoints of a room's canvas so late joiners only replay the
+-- operations after the latest snapshot instead of the whole log.
+CREATE TABLE public.snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  room_id UUID NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  sequence BIGINT NOT NULL, -- Covers every operation with sequence <= this
+  image TEXT NOT NULL, -- PNG data URL of the rendered canvas
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_snapshots_room_sequence ON public.snapshots(room_id, sequence DESC);
+
+ALTER TABLE public.snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Snapshots are publicly readable"
+ON public.snapshots
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can add snapshots"
+ON public.snapshots
+FOR INSERT
+WITH CHECK (true);
+
+-- A snapshot that covers a removed operation no longer matches the log
+CREATE OR REPLACE FUNCTION public.invalidate_snapshots()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.snapshots
+  WHERE room_id = OLD.room_id
+    AND sequence >= OLD.sequence;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_snapshots_on_delete
+AFTER DELETE ON public.operations
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_snapshots();
+
+-- Keep only the latest few snapshots per room
+CREATE OR REPLACE FUNCTION public.cleanup_old_snapshots()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.snapshots
+  WHERE id IN (
+    SELECT id FROM public.snapshots
+    WHERE room_id = NEW.room_id
+    ORDER BY sequence DESC
+    OFFSET 3
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER cleanup_snapshots_trigger
+AFTER INSERT ON public.snapshots
+FOR EACH ROW
+EXECUTE FUNCTION public.cleanup_old_snapshots();
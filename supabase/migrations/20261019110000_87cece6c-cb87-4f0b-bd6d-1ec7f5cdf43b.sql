@@ -0,0 +1,5 @@
+-- Fixed logical canvas size per room. Stroke and cursor coordinates are stored
+-- in this space and every client scales it to fit its own viewport.
+ALTER TABLE public.rooms
+  ADD COLUMN width INTEGER NOT NULL DEFAULT 1920 CHECK (width > 0),
+  ADD COLUMN height INTEGER NOT NULL DEFAULT 1080 CHECK (height > 0);
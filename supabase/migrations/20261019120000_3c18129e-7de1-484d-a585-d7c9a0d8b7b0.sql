@@ -0,0 +1,5 @@
+-- Snapshots now cover an arbitrary world-space region of the infinite board
+-- rather than the room frame at the origin. width/height are world units.
+ALTER TABLE public.snapshots
+  ADD COLUMN x INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN y INTEGER NOT NULL DEFAULT 0;
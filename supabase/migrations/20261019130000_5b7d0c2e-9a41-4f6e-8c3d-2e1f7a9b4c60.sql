@@ -0,0 +1,13 @@
+-- Layers. Strokes name their layer in data.layerId; the layer stack itself is
+-- the fold of 'layer' operations so it syncs, undoes and redoes like strokes.
+ALTER TABLE public.operations
+  DROP CONSTRAINT operations_type_check,
+  ADD CONSTRAINT operations_type_check CHECK (type IN ('stroke', 'clear', 'layer'));
+
+-- Snapshots store the layer stack with one image per layer in `layers`. The
+-- single-image columns are only filled by snapshots taken before layers.
+ALTER TABLE public.snapshots
+  ADD COLUMN layers JSONB,
+  ALTER COLUMN image DROP NOT NULL,
+  ALTER COLUMN width SET DEFAULT 0,
+  ALTER COLUMN height SET DEFAULT 0;
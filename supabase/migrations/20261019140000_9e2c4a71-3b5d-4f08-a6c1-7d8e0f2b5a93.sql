@@ -0,0 +1,5 @@
+-- Shapes (line, rectangle, ellipse, arrow) are their own operation type; the
+-- kind, color, width, end points and layer live in data.
+ALTER TABLE public.operations
+  DROP CONSTRAINT operations_type_check,
+  ADD CONSTRAINT operations_type_check CHECK (type IN ('stroke', 'clear', 'layer', 'shape'));
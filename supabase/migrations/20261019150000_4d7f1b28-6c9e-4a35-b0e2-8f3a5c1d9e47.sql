@@ -0,0 +1,7 @@
+-- Text. A 'text' row holds the content, font size, color, position, wrap
+-- width and layer; a 'text-edit' row replaces the content and width of the
+-- text whose client id is data.textId.
+ALTER TABLE public.operations
+  DROP CONSTRAINT operations_type_check,
+  ADD CONSTRAINT operations_type_check
+    CHECK (type IN ('stroke', 'clear', 'layer', 'shape', 'text', 'text-edit'));
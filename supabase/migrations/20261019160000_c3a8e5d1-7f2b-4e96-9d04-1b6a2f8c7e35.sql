@@ -0,0 +1,7 @@
+-- Selection edits. A 'transform' row holds an affine matrix applied to the
+-- operations whose client ids are in data.targetIds; a 'delete' row hides
+-- them. Undoing either row restores the targets.
+ALTER TABLE public.operations
+  DROP CONSTRAINT operations_type_check,
+  ADD CONSTRAINT operations_type_check
+    CHECK (type IN ('stroke', 'clear', 'layer', 'shape', 'text', 'text-edit', 'transform', 'delete'));
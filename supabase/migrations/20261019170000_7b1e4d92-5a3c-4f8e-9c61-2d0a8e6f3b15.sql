@@ -0,0 +1,3 @@
+-- Replaying the offline outbox looks an operation up by its client id first,
+-- so an insert whose response was lost is not appended twice.
+CREATE INDEX idx_operations_room_client_id ON public.operations(room_id, (data->>'id'));
@@ -0,0 +1,31 @@
+-- An operation that changes an earlier one (a transform of its targets) can't
+-- be replayed over a snapshot that baked the earlier one into pixels, so such
+-- snapshots go, as when an operation is removed. Clients keep baked operations
+-- out of reach; this covers one committed before its author heard of the
+-- snapshot.
+CREATE OR REPLACE FUNCTION public.invalidate_targeted_snapshots()
+RETURNS TRIGGER AS $$
+DECLARE
+  targets TEXT[];
+BEGIN
+  IF NEW.type = 'transform' THEN
+    targets := ARRAY(SELECT jsonb_array_elements_text(NEW.data->'targetIds'));
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.snapshots
+  WHERE room_id = NEW.room_id
+    AND sequence >= (
+      SELECT min(sequence) FROM public.operations
+      WHERE room_id = NEW.room_id
+        AND (data->>'id' = ANY(targets) OR id::text = ANY(targets))
+    );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_targeted_snapshots_on_insert
+AFTER INSERT ON public.operations
+FOR EACH ROW
+EXECUTE FUNCTION public.invalidate_targeted_snapshots();
@@ -0,0 +1,25 @@
+-- A text edit changes the text it names, so it invalidates snapshots that
+-- baked that text just as a transform does for its targets.
+CREATE OR REPLACE FUNCTION public.invalidate_targeted_snapshots()
+RETURNS TRIGGER AS $$
+DECLARE
+  targets TEXT[];
+BEGIN
+  IF NEW.type = 'transform' THEN
+    targets := ARRAY(SELECT jsonb_array_elements_text(NEW.data->'targetIds'));
+  ELSIF NEW.type = 'text-edit' THEN
+    targets := ARRAY[NEW.data->>'textId'];
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.snapshots
+  WHERE room_id = NEW.room_id
+    AND sequence >= (
+      SELECT min(sequence) FROM public.operations
+      WHERE room_id = NEW.room_id
+        AND (data->>'id' = ANY(targets) OR id::text = ANY(targets))
+    );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
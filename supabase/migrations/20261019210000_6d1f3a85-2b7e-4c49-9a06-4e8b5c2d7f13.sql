@@ -0,0 +1,30 @@
+-- Commits a new operation and drops its author's redo entries in one
+-- transaction, under the same room lock as undo_last and redo_last. Only the
+-- committer's entries go: someone else's new work doesn't make your undone
+-- operations any less redoable. Replays of queued operations insert directly
+-- and leave the redo stack alone.
+CREATE OR REPLACE FUNCTION public.commit_operation(
+  p_room_id UUID,
+  p_user_id TEXT,
+  p_user_name TEXT,
+  p_user_color TEXT,
+  p_type TEXT,
+  p_data JSONB
+)
+RETURNS SETOF public.operations AS $$
+DECLARE
+  inserted public.operations;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_room_id::text));
+
+  DELETE FROM public.redo_stack
+  WHERE room_id = p_room_id
+    AND operation_data->>'user_id' = p_user_id;
+
+  INSERT INTO public.operations (room_id, user_id, user_name, user_color, type, data)
+  VALUES (p_room_id, p_user_id, p_user_name, p_user_color, p_type, COALESCE(p_data, '{}'::jsonb))
+  RETURNING * INTO inserted;
+
+  RETURN NEXT inserted;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
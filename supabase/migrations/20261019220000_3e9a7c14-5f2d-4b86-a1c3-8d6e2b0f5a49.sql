@@ -0,0 +1,59 @@
+-- deleted_at is the transaction's start time, so undos in the same transaction
+-- or at the same instant tie, and a transaction that started first may still
+-- take the room lock second. A sequence assigned under the lock orders the
+-- stack by when entries were actually pushed.
+ALTER TABLE public.redo_stack ADD COLUMN position BIGSERIAL NOT NULL;
+
+CREATE INDEX idx_redo_stack_room_position ON public.redo_stack(room_id, position DESC);
+
+CREATE OR REPLACE FUNCTION public.redo_last(p_room_id UUID, p_user_id TEXT DEFAULT NULL)
+RETURNS SETOF public.operations AS $$
+DECLARE
+  item public.redo_stack;
+  restored public.operations;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_room_id::text));
+
+  SELECT * INTO item
+  FROM public.redo_stack
+  WHERE room_id = p_room_id
+    AND (p_user_id IS NULL OR operation_data->>'user_id' = p_user_id)
+  ORDER BY position DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.operations (room_id, user_id, user_name, user_color, type, data)
+  VALUES (
+    p_room_id,
+    item.operation_data->>'user_id',
+    COALESCE(item.operation_data->>'user_name', 'Anonymous'),
+    COALESCE(item.operation_data->>'user_color', '#3b82f6'),
+    item.operation_data->>'type',
+    COALESCE(item.operation_data->'data', '{}'::jsonb)
+  )
+  RETURNING * INTO restored;
+
+  DELETE FROM public.redo_stack WHERE id = item.id;
+
+  RETURN NEXT restored;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Keep the newest 50 entries by the same order
+CREATE OR REPLACE FUNCTION public.cleanup_old_redo_items()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.redo_stack
+  WHERE id IN (
+    SELECT id FROM public.redo_stack
+    WHERE room_id = NEW.room_id
+    ORDER BY position DESC
+    OFFSET 50
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;